@@ -0,0 +1,72 @@
+import * as hz from 'horizon/core';
+import * as hzui from 'horizon/ui';
+import { AchievementEvents } from './Achievements';
+import { CodexEvents } from './Codex';
+import { KitchenEvents } from './Kitchen';
+import { KitchenManagerEvents } from './KitchenManager';
+import { Popup } from './inventory_ui';
+
+export class AchievementToastUI extends hzui.UIComponent<typeof AchievementToastUI> {
+  static propsDefinition = {
+    achievementIcon: { type: hz.PropTypes.Asset },
+    toastDuration: { type: hz.PropTypes.Number, default: 4000 },
+  };
+
+  private popup = new Popup();
+  private icon?: hzui.ImageSource;
+
+  start() {
+    // Transfer UI ownership to the player on join (local mode)
+    this.connectCodeBlockEvent(
+      this.entity,
+      hz.CodeBlockEvents.OnPlayerEnterWorld,
+      (player: hz.Player) => {
+        this.entity.owner.set(player);
+      }
+    );
+    this.connectNetworkEvent(
+      this.world.getLocalPlayer(),
+      AchievementEvents.achievementUnlocked,
+      (data) => {
+        this.popup.Show(this.icon, `🏆 ${data.name}: ${data.description}`, this.props.toastDuration);
+      }
+    );
+    this.connectNetworkEvent(
+      this.world.getLocalPlayer(),
+      CodexEvents.setCompleted,
+      (data) => {
+        this.popup.Show(this.icon, `📖 ${data.name} complete: ${data.description}`, this.props.toastDuration);
+      }
+    );
+    this.connectNetworkEvent(
+      this.world.getLocalPlayer(),
+      KitchenEvents.welcomeBack,
+      (data) => {
+        this.popup.Show(this.icon, `🥧 ${data.message}`, this.props.toastDuration);
+      }
+    );
+    this.connectNetworkEvent(
+      this.world.getLocalPlayer(),
+      KitchenManagerEvents.waitingForKitchen,
+      (data) => {
+        this.popup.Show(this.icon, `🍳 All kitchens are taken, you are number ${data.position} in line`, this.props.toastDuration);
+      }
+    );
+  }
+
+  initializeUI(): hzui.UINode {
+    if (this.props.achievementIcon) {
+      this.icon = hzui.ImageSource.fromTextureAsset(this.props.achievementIcon as hz.TextureAsset);
+    }
+    return hzui.View({
+      children: [this.popup.toUINode()],
+      style: {
+        position: 'absolute',
+        width: '100%',
+        height: '100%'
+      }
+    });
+  }
+}
+
+hz.Component.register(AchievementToastUI);
@@ -0,0 +1,307 @@
+import * as hz from 'horizon/core';
+import { JumpPadEvents } from './JumpPad';
+import { ParkourEvents } from './ParkourGameMode';
+import { ProgressionEvents, ProgressionSystem } from './ProgressionSystem';
+import { PurchaseableItemEvents } from './PurchaseableItem';
+import { queueGrant } from './ShopTransactions';
+import { TargetEvents } from './Target';
+
+export const AchievementEvents = {
+  // Sent to the player so their AchievementToastUI can show the unlock
+  achievementUnlocked: new hz.NetworkEvent<{player: hz.Player, achievementId: string, name: string, description: string}>('achievementUnlocked'),
+};
+
+/**
+ * What an achievement rule listens to:
+ * - islandsDiscovered / itemsCollected: number of distinct islands / items in the progression data
+ * - tierReached: the player reached `tier` or above
+ * - jumpPadLaunches / targetsHit: running count of launches / hits
+ * - itemReceived: running count of `sku` received (oven bakes, purchases...)
+ * - parkourTime: finish the parkour course in under `target` seconds
+ */
+export type AchievementTrigger = 'islandsDiscovered' | 'itemsCollected' | 'tierReached' | 'jumpPadLaunches' | 'itemReceived' | 'targetsHit' | 'parkourTime';
+
+const ACHIEVEMENT_TRIGGERS: AchievementTrigger[] = ['islandsDiscovered', 'itemsCollected', 'tierReached', 'jumpPadLaunches', 'itemReceived', 'targetsHit', 'parkourTime'];
+
+// Triggers whose progress is stored in the progression data rather than recomputed from it
+const COUNTED_TRIGGERS: AchievementTrigger[] = ['jumpPadLaunches', 'itemReceived', 'targetsHit'];
+
+// Triggers that can be re-checked from the saved progression alone, e.g. when a player joins
+const STATE_TRIGGERS: AchievementTrigger[] = ['islandsDiscovered', 'itemsCollected', 'tierReached'];
+
+export interface AchievementReward {
+  xp?: number;
+  sku?: string;
+  quantity?: number;
+}
+
+export interface AchievementRule {
+  id: string;
+  name: string;
+  description: string;
+  trigger: AchievementTrigger;
+  target: number;
+  sku?: string;
+  tier?: string;
+  reward: AchievementReward;
+}
+
+export function createDefaultAchievements(pieSKU: string): AchievementRule[] {
+  const rules: AchievementRule[] = [
+    {
+      id: "islandHopper",
+      name: "Island Hopper",
+      description: "Discover 5 islands",
+      trigger: "islandsDiscovered",
+      target: 5,
+      reward: { xp: 250 }
+    },
+    {
+      id: "speedRunner",
+      name: "Speed Runner",
+      description: "Finish the parkour course in under 30 seconds",
+      trigger: "parkourTime",
+      target: 30,
+      reward: { xp: 300 }
+    },
+    {
+      id: "frequentFlyer",
+      name: "Frequent Flyer",
+      description: "Get launched by jump pads 50 times",
+      trigger: "jumpPadLaunches",
+      target: 50,
+      reward: { xp: 150 }
+    },
+    {
+      id: "sharpshooter",
+      name: "Sharpshooter",
+      description: "Hit 100 targets",
+      trigger: "targetsHit",
+      target: 100,
+      reward: { xp: 200 }
+    },
+    {
+      id: "masterTier",
+      name: "Master",
+      description: "Reach the Master tier",
+      trigger: "tierReached",
+      target: 1,
+      tier: "Master",
+      reward: { xp: 1000 }
+    }
+  ];
+
+  if (pieSKU) {
+    rules.push({
+      id: "masterBaker",
+      name: "Master Baker",
+      description: "Bake 100 pies",
+      trigger: "itemReceived",
+      target: 100,
+      sku: pieSKU,
+      reward: { xp: 500 }
+    });
+  }
+
+  return rules;
+}
+
+/**
+ * Parses and validates an achievement config.
+ * Throws with a descriptive message when the config is malformed so the world creator sees it in the console.
+ */
+export function parseAchievementRules(raw: unknown): AchievementRule[] {
+  if (!Array.isArray(raw)) {
+    throw Error('Achievement config must be an array of achievement rules.');
+  }
+
+  const ids = new Set<string>();
+  return raw.map((entry: any, index: number) => {
+    if (!entry || typeof entry.id !== 'string' || entry.id === '') {
+      throw Error(`Achievement #${index} is missing an id.`);
+    }
+    if (ids.has(entry.id)) {
+      throw Error(`Duplicate achievement id "${entry.id}".`);
+    }
+    ids.add(entry.id);
+
+    if (!ACHIEVEMENT_TRIGGERS.includes(entry.trigger)) {
+      throw Error(`Achievement "${entry.id}" has unknown trigger "${entry.trigger}", expected one of ${ACHIEVEMENT_TRIGGERS.join(', ')}.`);
+    }
+    if (entry.trigger === 'tierReached' && typeof entry.tier !== 'string') {
+      throw Error(`Achievement "${entry.id}" needs a tier.`);
+    }
+    if (entry.trigger === 'itemReceived' && typeof entry.sku !== 'string') {
+      throw Error(`Achievement "${entry.id}" needs a sku.`);
+    }
+
+    const target = Number(entry.target ?? 1);
+    if (isNaN(target) || target <= 0) {
+      throw Error(`Achievement "${entry.id}" needs a positive target.`);
+    }
+
+    return {
+      id: entry.id,
+      name: entry.name ?? entry.id,
+      description: entry.description ?? '',
+      trigger: entry.trigger,
+      target: target,
+      sku: entry.sku,
+      tier: entry.tier,
+      reward: {
+        xp: entry.reward?.xp,
+        sku: entry.reward?.sku,
+        quantity: entry.reward?.quantity
+      }
+    };
+  });
+}
+
+/**
+ * Evaluates the achievement rules against gameplay events and grants their rewards.
+ * Unlocks and running counts are stored in the player's ProgressionData so they persist with the rest of the progression.
+ */
+export class AchievementSystem extends hz.Component<typeof AchievementSystem> {
+  static propsDefinition = {
+    progressionSystem: { type: hz.PropTypes.Entity },
+
+    // Rules: the asset takes precedence over the JSON string, the built-in rules are used when neither is set
+    achievementConfigAsset: { type: hz.PropTypes.Asset },
+    achievementConfigJson: { type: hz.PropTypes.String, default: "" },
+    pieSKU: { type: hz.PropTypes.String, default: "" },
+
+    // Event sources that are sent on their own entity
+    jumpPads: { type: hz.PropTypes.EntityArray, default: [] },
+    targets: { type: hz.PropTypes.EntityArray, default: [] },
+  };
+
+  private progression?: ProgressionSystem;
+  private rules: AchievementRule[] = [];
+
+  preStart() {
+    this.rules = createDefaultAchievements(this.props.pieSKU);
+    this.loadRules();
+
+    if (this.props.progressionSystem) {
+      this.progression = this.props.progressionSystem.getComponents(ProgressionSystem)[0];
+
+      this.connectLocalEvent(this.props.progressionSystem, ProgressionEvents.newIslandDiscovered, ({ player }) => {
+        this.evaluate(player, 'islandsDiscovered');
+      });
+      this.connectLocalEvent(this.props.progressionSystem, ProgressionEvents.itemCollected, ({ player }) => {
+        this.evaluate(player, 'itemsCollected');
+      });
+      this.connectLocalEvent(this.props.progressionSystem, ProgressionEvents.tierUpgraded, ({ player }) => {
+        this.evaluate(player, 'tierReached');
+      });
+    }
+
+    for (const jumpPad of this.props.jumpPads) {
+      this.connectNetworkEvent(jumpPad, JumpPadEvents.playerLaunched, ({ player }) => {
+        this.evaluate(player, 'jumpPadLaunches', 1);
+      });
+    }
+
+    for (const target of this.props.targets) {
+      this.connectLocalEvent(target, TargetEvents.hit, ({ player }) => {
+        if (player) {
+          this.evaluate(player, 'targetsHit', 1);
+        }
+      });
+    }
+
+    this.connectNetworkBroadcastEvent(PurchaseableItemEvents.OnReceiveItem, ({ player, itemSKU, itemAmount }) => {
+      this.evaluate(player, 'itemReceived', itemAmount, itemSKU);
+    });
+
+    this.connectLocalBroadcastEvent(ParkourEvents.parkourCompleted, ({ player, time }) => {
+      this.evaluate(player, 'parkourTime', time);
+    });
+
+    // Catch up on achievements earned before the rule existed
+    this.connectCodeBlockEvent(this.entity, hz.CodeBlockEvents.OnPlayerEnterWorld, (player: hz.Player) => {
+      STATE_TRIGGERS.forEach(trigger => this.evaluate(player, trigger));
+    });
+  }
+
+  start() {
+    console.log(`[AchievementSystem] ${this.rules.length} achievements registered`);
+  }
+
+  public getRules(): AchievementRule[] {
+    return this.rules;
+  }
+
+  private async loadRules() {
+    try {
+      let raw: unknown = null;
+      if (this.props.achievementConfigAsset) {
+        raw = (await this.props.achievementConfigAsset.fetchAsData()).asJSON();
+      } else if (this.props.achievementConfigJson) {
+        raw = JSON.parse(this.props.achievementConfigJson);
+      }
+      if (raw !== null) {
+        this.rules = parseAchievementRules(raw);
+        console.log(`[AchievementSystem] Loaded ${this.rules.length} achievements from config`);
+      }
+    } catch (error) {
+      console.error(`[AchievementSystem] Invalid achievement config, using the built-in achievements: ${error}`);
+    }
+  }
+
+  private evaluate(player: hz.Player, trigger: AchievementTrigger, amount: number = 0, sku?: string) {
+    const progression = this.progression;
+    if (!progression) return;
+
+    for (const rule of this.rules) {
+      if (rule.trigger !== trigger || (rule.sku !== undefined && rule.sku !== sku)) continue;
+      if (progression.hasAchievement(player, rule.id)) continue;
+
+      if (this.isComplete(progression, player, rule, amount)) {
+        this.unlock(progression, player, rule);
+      }
+    }
+  }
+
+  private isComplete(progression: ProgressionSystem, player: hz.Player, rule: AchievementRule, amount: number): boolean {
+    if (COUNTED_TRIGGERS.includes(rule.trigger)) {
+      const count = progression.getAchievementProgress(player, rule.id) + amount;
+      progression.setAchievementProgress(player, rule.id, count);
+      return count >= rule.target;
+    }
+
+    const data = progression.getPlayerData(player);
+    switch (rule.trigger) {
+      case 'islandsDiscovered': return data.discoveredIslands.size >= rule.target;
+      case 'itemsCollected': return data.collectedItems.size >= rule.target;
+      case 'tierReached': return progression.hasReachedTier(player, rule.tier ?? '');
+      case 'parkourTime': return amount > 0 && amount < rule.target;
+      default: return false;
+    }
+  }
+
+  private unlock(progression: ProgressionSystem, player: hz.Player, rule: AchievementRule) {
+    if (!progression.unlockAchievement(player, rule.id)) return;
+    console.log(`[AchievementSystem] ${player.name.get()} unlocked "${rule.name}"`);
+
+    // Notify the player before granting rewards, the XP reward can itself unlock further achievements
+    this.sendNetworkEvent(player, AchievementEvents.achievementUnlocked, {
+      player: player,
+      achievementId: rule.id,
+      name: rule.name,
+      description: rule.description
+    });
+
+    if (rule.reward.sku) {
+      const quantity = rule.reward.quantity ?? 1;
+      queueGrant(player, rule.reward.sku, quantity);
+      this.sendNetworkBroadcastEvent(PurchaseableItemEvents.OnReceiveItem, { player: player, itemSKU: rule.reward.sku, itemAmount: quantity });
+    }
+
+    if (rule.reward.xp) {
+      progression.addXP(player, rule.reward.xp, 'achievement');
+    }
+  }
+}
+
+hz.Component.register(AchievementSystem);
@@ -0,0 +1,128 @@
+import * as hz from 'horizon/core';
+import { Player, TextureAsset } from 'horizon/core';
+import { Binding, ImageSource, Text, UINode } from 'horizon/ui';
+import { DiscoveryEvents, IslandDescription } from './DiscoveryZone';
+import { Grid, Item, Panel, Popup, StyleSheet } from './inventory_ui';
+
+/**
+ * An island in the atlas grid, greyed out until the player discovers it.
+ */
+class AtlasItem extends Item {
+  protected readonly owner: AtlasUI;
+  public readonly island: IslandDescription;
+
+  constructor({ island, owner }: { island: IslandDescription; owner: AtlasUI }) {
+    const thumbnail = island.thumbnailId ? ImageSource.fromTextureAsset(new TextureAsset(island.thumbnailId, island.thumbnailVersionId)) : undefined;
+    super({
+      title: island.discovered ? island.name : "???",
+      description: island.discovered ? island.description : "Undiscovered",
+      thumbnail: thumbnail,
+      owner: owner
+    });
+    this.owner = owner;
+    this.island = island;
+  }
+
+  protected onClick(): void {
+    this.owner.showIsland(this.island);
+  }
+
+  protected canBeClicked(): boolean {
+    return super.canBeClicked() && this.island.discovered;
+  }
+}
+
+/**
+ * Per-player atlas listing every island with a DiscoveryZone in the world and the player's completion.
+ */
+export class AtlasUI extends Panel {
+  private items: AtlasItem[] = [];
+  private grid: Grid | undefined = undefined;
+  private popup: Popup | undefined = undefined;
+  private readonly completion: Binding<string> = new Binding<string>("0 / 0 islands discovered (0%)");
+
+  public get Grid() { return this.grid; }
+
+  protected initialize(): void {
+    this.connectNetworkBroadcastEvent(DiscoveryEvents.sendIsland, this.onIslandReceived.bind(this));
+
+    // Discoveries made while the atlas is open
+    this.connectNetworkEvent(this.Player, DiscoveryEvents.islandDiscovered, ({ island }) => {
+      this.setIsland(island);
+    });
+
+    this.requestIslands();
+  }
+
+  private requestIslands(): void {
+    this.sendNetworkBroadcastEvent(DiscoveryEvents.requestIslands, { player: this.Player, id: this.Id });
+  }
+
+  private onIslandReceived({ player, id, island }: { player: Player, id: string | null, island: IslandDescription }): void {
+    if (!this.isRecipient(player, id))
+      return;
+
+    this.setIsland(island);
+  }
+
+  // Several zones can cover the same island, the island counts as discovered if any of them says so
+  private setIsland(island: IslandDescription): void {
+    const index = this.items.findIndex(item => item.island.name === island.name);
+    if (index >= 0) {
+      const existing = this.items[index].island;
+      if (existing.discovered || !island.discovered) return;
+      this.items[index] = new AtlasItem({ island: { ...existing, ...island }, owner: this });
+    } else {
+      this.items.push(new AtlasItem({ island: island, owner: this }));
+      this.items.sort((a, b) => a.island.name.localeCompare(b.island.name));
+    }
+
+    this.grid?.setItems(this.items);
+    this.refreshBindings();
+  }
+
+  public showIsland(island: IslandDescription): void {
+    const location = island.mapX !== undefined && island.mapY !== undefined ? ` (${island.mapX}, ${island.mapY})` : "";
+    const thumbnail = this.items.find(item => item.island.name === island.name)?.thumbnail;
+    this.popup?.Show(thumbnail, `${island.name}${location}: ${island.description}`);
+  }
+
+  protected refreshBindings(): void {
+    for (const item of this.items) {
+      item.refreshBindings();
+    }
+
+    const total = this.items.length;
+    const discovered = this.items.filter(item => item.island.discovered).length;
+    const percent = total > 0 ? Math.floor(discovered / total * 100) : 0;
+    this.completion.set(`${discovered} / ${total} islands discovered (${percent}%)`);
+  }
+
+  protected onShow() {
+    super.onShow();
+    this.requestIslands();
+  }
+
+  protected construct(): UINode {
+    const header = this.constructHeader("Atlas", undefined);
+
+    this.grid = new Grid(false, StyleSheet.SCROLLVIEW_WIDTH, StyleSheet.SCROLLVIEW_TWO_LINES_HEIGHT);
+    const grid = this.grid.toUINode();
+
+    const footer = this.constructFooter(Text({
+      text: this.completion,
+      style: {
+        color: StyleSheet.TEXT_COLOR_PRIMARY,
+        fontSize: StyleSheet.TEXT_SIZE_BUTTON,
+        fontFamily: StyleSheet.TEXT_FONT_PRIMARY
+      }
+    }));
+
+    this.popup = new Popup();
+    const popupNode = this.popup.toUINode();
+
+    return this.constructPanel([header, grid, footer, popupNode]);
+  }
+}
+
+hz.Component.register(AtlasUI);
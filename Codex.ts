@@ -0,0 +1,291 @@
+import * as hz from 'horizon/core';
+import { AchievementReward } from './Achievements';
+import { ProgressionEvents, ProgressionSystem } from './ProgressionSystem';
+import { PurchaseableItemEvents } from './PurchaseableItem';
+import { queueGrant } from './ShopTransactions';
+
+// Rarities in display order, the same names ProgressionSystem uses for its XP multipliers
+export const ITEM_RARITIES = ['common', 'uncommon', 'rare', 'epic', 'legendary'];
+
+export interface CodexItem {
+  name: string;
+  rarity: string;
+  description: string;
+}
+
+/**
+ * A set is complete once every listed item has been collected.
+ * Without an item list the set covers every codex item of `rarity`.
+ */
+export interface CodexSet {
+  id: string;
+  name: string;
+  description: string;
+  rarity?: string;
+  items?: string[];
+  reward: AchievementReward;
+}
+
+export interface CodexConfig {
+  items: CodexItem[];
+  sets: CodexSet[];
+}
+
+export type CodexEntry = {
+  name: string;
+  rarity: string;
+  description: string;
+  count: number;
+};
+
+export type CodexSetProgress = {
+  id: string;
+  name: string;
+  description: string;
+  collected: number;
+  total: number;
+  completed: boolean;
+};
+
+export const CodexEvents = {
+  requestCodex: new hz.NetworkEvent<{ player: hz.Player, id: string | null }>('CodexEvents.requestCodex'),
+  sendCodex: new hz.NetworkEvent<{ player: hz.Player, id: string | null, entries: CodexEntry[], sets: CodexSetProgress[] }>('CodexEvents.sendCodex'),
+  // Sent to the player so their AchievementToastUI can show the completed set
+  setCompleted: new hz.NetworkEvent<{ player: hz.Player, setId: string, name: string, description: string }>('CodexEvents.setCompleted'),
+};
+
+// Set completions are stored with the player's achievements under this prefix
+const SET_ACHIEVEMENT_PREFIX = 'codex:';
+
+// One "collect every <rarity> item" set per rarity, only active when the codex lists items of that rarity
+export function createDefaultCodexSets(): CodexSet[] {
+  return ITEM_RARITIES.map(rarity => {
+    const label = `${rarity.charAt(0).toUpperCase()}${rarity.slice(1)}`;
+    return {
+      id: `${rarity}Collection`,
+      name: `${label} Collection`,
+      description: `Collect every ${rarity} item`,
+      rarity: rarity,
+      reward: { xp: 100 * (ITEM_RARITIES.indexOf(rarity) + 1) }
+    };
+  });
+}
+
+/**
+ * Parses and validates a codex config, e.g.
+ *   {"items": [{"name": "Golden Apple", "rarity": "legendary", "description": "..."}],
+ *    "sets": [{"id": "orchard", "name": "Orchard", "items": ["Apple", "Golden Apple"], "reward": {"xp": 200}}]}
+ * The rarity sets are used when "sets" is omitted.
+ */
+export function parseCodexConfig(raw: any): CodexConfig {
+  if (!raw || typeof raw !== 'object' || !Array.isArray(raw.items)) {
+    throw Error('Codex config must be an object with an "items" array.');
+  }
+
+  const names = new Set<string>();
+  const items: CodexItem[] = raw.items.map((entry: any, index: number) => {
+    if (!entry || typeof entry.name !== 'string' || entry.name === '') {
+      throw Error(`Codex item #${index} is missing a name.`);
+    }
+    if (names.has(entry.name)) {
+      throw Error(`Duplicate codex item "${entry.name}".`);
+    }
+    names.add(entry.name);
+
+    const rarity = String(entry.rarity ?? 'common').toLowerCase();
+    if (!ITEM_RARITIES.includes(rarity)) {
+      throw Error(`Codex item "${entry.name}" has unknown rarity "${entry.rarity}", expected one of ${ITEM_RARITIES.join(', ')}.`);
+    }
+    return { name: entry.name, rarity: rarity, description: entry.description ?? '' };
+  });
+
+  if (raw.sets === undefined) {
+    return { items: items, sets: createDefaultCodexSets() };
+  }
+  if (!Array.isArray(raw.sets)) {
+    throw Error('Codex "sets" must be an array.');
+  }
+
+  const ids = new Set<string>();
+  const sets: CodexSet[] = raw.sets.map((entry: any, index: number) => {
+    if (!entry || typeof entry.id !== 'string' || entry.id === '') {
+      throw Error(`Codex set #${index} is missing an id.`);
+    }
+    if (ids.has(entry.id)) {
+      throw Error(`Duplicate codex set "${entry.id}".`);
+    }
+    ids.add(entry.id);
+
+    if (entry.items !== undefined) {
+      if (!Array.isArray(entry.items) || entry.items.length === 0) {
+        throw Error(`Codex set "${entry.id}" needs a non-empty item list.`);
+      }
+      const unknown = entry.items.find((name: string) => !names.has(name));
+      if (unknown !== undefined) {
+        throw Error(`Codex set "${entry.id}" lists unknown item "${unknown}".`);
+      }
+    } else if (!ITEM_RARITIES.includes(String(entry.rarity).toLowerCase())) {
+      throw Error(`Codex set "${entry.id}" needs either an item list or a rarity.`);
+    }
+
+    return {
+      id: entry.id,
+      name: entry.name ?? entry.id,
+      description: entry.description ?? '',
+      rarity: entry.items === undefined ? String(entry.rarity).toLowerCase() : undefined,
+      items: entry.items,
+      reward: {
+        xp: entry.reward?.xp,
+        sku: entry.reward?.sku,
+        quantity: entry.reward?.quantity
+      }
+    };
+  });
+
+  return { items: items, sets: sets };
+}
+
+/**
+ * Server side of the codex: answers CodexUI requests and grants set-completion bonuses.
+ * Pickups themselves are recorded by ProgressionSystem.collectItem.
+ */
+export class Codex extends hz.Component<typeof Codex> {
+  static propsDefinition = {
+    progressionSystem: { type: hz.PropTypes.Entity },
+
+    // The asset takes precedence over the JSON string
+    codexConfigAsset: { type: hz.PropTypes.Asset },
+    codexConfigJson: { type: hz.PropTypes.String, default: "" },
+  };
+
+  private progression?: ProgressionSystem;
+  private config: CodexConfig = { items: [], sets: createDefaultCodexSets() };
+
+  preStart() {
+    this.loadConfig();
+
+    if (this.props.progressionSystem) {
+      this.progression = this.props.progressionSystem.getComponents(ProgressionSystem)[0];
+
+      // Only a first pickup can complete a set
+      this.connectLocalEvent(this.props.progressionSystem, ProgressionEvents.itemCollected, ({ player }) => {
+        this.checkSets(player);
+      });
+    }
+
+    this.connectNetworkBroadcastEvent(CodexEvents.requestCodex, ({ player, id }) => {
+      this.sendCodex(player, id);
+    });
+
+    // Catch up on sets added since the player's last session
+    this.connectCodeBlockEvent(this.entity, hz.CodeBlockEvents.OnPlayerEnterWorld, (player: hz.Player) => {
+      this.checkSets(player);
+    });
+  }
+
+  start() {
+    console.log(`[Codex] ${this.config.items.length} items and ${this.config.sets.length} sets registered`);
+  }
+
+  public getConfig(): CodexConfig {
+    return this.config;
+  }
+
+  private async loadConfig() {
+    try {
+      let raw: unknown = null;
+      if (this.props.codexConfigAsset) {
+        raw = (await this.props.codexConfigAsset.fetchAsData()).asJSON();
+      } else if (this.props.codexConfigJson) {
+        raw = JSON.parse(this.props.codexConfigJson);
+      }
+      if (raw !== null) {
+        this.config = parseCodexConfig(raw);
+        console.log(`[Codex] Loaded ${this.config.items.length} items and ${this.config.sets.length} sets from config`);
+      }
+    } catch (error) {
+      console.error(`[Codex] Invalid codex config, the codex will only list collected items: ${error}`);
+    }
+  }
+
+  // Every codex item plus anything the player collected that the codex does not list
+  public getEntries(player: hz.Player): CodexEntry[] {
+    const collected = new Map((this.progression?.getCollectedItems(player) ?? []).map(item => [item.name, item]));
+    const entries: CodexEntry[] = this.config.items.map(item => ({
+      name: item.name,
+      rarity: item.rarity,
+      description: item.description,
+      count: collected.get(item.name)?.count ?? 0
+    }));
+    for (const item of collected.values()) {
+      if (!this.config.items.some(entry => entry.name === item.name)) {
+        entries.push({ name: item.name, rarity: item.rarity, description: '', count: item.count });
+      }
+    }
+    return entries;
+  }
+
+  public getSetProgress(player: hz.Player): CodexSetProgress[] {
+    const progression = this.progression;
+    const collected = new Set((progression?.getCollectedItems(player) ?? []).map(item => item.name));
+    return this.config.sets
+      .map(set => {
+        const members = this.getSetMembers(set);
+        return {
+          id: set.id,
+          name: set.name,
+          description: set.description,
+          collected: members.filter(name => collected.has(name)).length,
+          total: members.length,
+          completed: progression?.hasAchievement(player, SET_ACHIEVEMENT_PREFIX + set.id) ?? false
+        };
+      })
+      .filter(set => set.total > 0);
+  }
+
+  private getSetMembers(set: CodexSet): string[] {
+    return set.items ?? this.config.items.filter(item => item.rarity === set.rarity).map(item => item.name);
+  }
+
+  private sendCodex(player: hz.Player, id: string | null) {
+    this.sendNetworkBroadcastEvent(CodexEvents.sendCodex, {
+      player: player,
+      id: id,
+      entries: this.getEntries(player),
+      sets: this.getSetProgress(player)
+    });
+  }
+
+  private checkSets(player: hz.Player) {
+    const progression = this.progression;
+    if (!progression) return;
+
+    for (const set of this.getSetProgress(player)) {
+      if (set.completed || set.collected < set.total) continue;
+      if (!progression.unlockAchievement(player, SET_ACHIEVEMENT_PREFIX + set.id)) continue;
+
+      console.log(`[Codex] ${player.name.get()} completed the "${set.name}" set`);
+      this.sendNetworkEvent(player, CodexEvents.setCompleted, {
+        player: player,
+        setId: set.id,
+        name: set.name,
+        description: set.description
+      });
+      this.grantReward(progression, player, this.config.sets.find(entry => entry.id === set.id)!.reward);
+    }
+  }
+
+  private grantReward(progression: ProgressionSystem, player: hz.Player, reward: AchievementReward) {
+    if (reward.sku) {
+      const quantity = reward.quantity ?? 1;
+      queueGrant(player, reward.sku, quantity);
+      this.sendNetworkBroadcastEvent(PurchaseableItemEvents.OnReceiveItem, { player: player, itemSKU: reward.sku, itemAmount: quantity });
+    }
+
+    if (reward.xp) {
+      progression.addXP(player, reward.xp, 'codex_set');
+    }
+  }
+}
+
+hz.Component.register(Codex);
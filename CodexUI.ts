@@ -0,0 +1,174 @@
+import * as hz from 'horizon/core';
+import { Player } from 'horizon/core';
+import { Binding, Text, UINode } from 'horizon/ui';
+import { CodexEntry, CodexEvents, CodexSetProgress, ITEM_RARITIES } from './Codex';
+import { Button, Grid, Item, Panel, StyleSheet } from './inventory_ui';
+
+const RARITY_COLORS: { [rarity: string]: string } = {
+  common: '#CCCCCC',
+  uncommon: '#4CAF50',
+  rare: '#4FC3F7',
+  epic: '#BA68C8',
+  legendary: '#FFD700',
+};
+
+function capitalize(text: string): string {
+  return `${text.charAt(0).toUpperCase()}${text.slice(1)}`;
+}
+
+/**
+ * A codex entry, greyed out and unnamed until the player has collected it once.
+ */
+class CodexItem extends Item {
+  public readonly entry: CodexEntry;
+
+  constructor({ entry, owner }: { entry: CodexEntry; owner: CodexUI }) {
+    super({
+      title: entry.count > 0 ? `${entry.count}x ${entry.name}` : "???",
+      description: capitalize(entry.rarity),
+      owner: owner
+    });
+    this.entry = entry;
+  }
+
+  protected canBeClicked(): boolean {
+    return super.canBeClicked() && this.entry.count > 0;
+  }
+}
+
+/**
+ * Header tab that filters the codex to one rarity, or every rarity when `rarity` is null.
+ */
+class RarityTab extends Button {
+  private readonly color: Binding<string> = new Binding<string>(StyleSheet.TEXT_COLOR_SECONDARY);
+
+  constructor(private readonly owner: CodexUI, public readonly rarity: string | null) {
+    super();
+  }
+
+  protected constructContent(): UINode[] {
+    return [Text({
+      text: this.rarity ? capitalize(this.rarity) : "All",
+      style: {
+        color: this.color,
+        fontSize: StyleSheet.TEXT_SIZE_BUTTON,
+        fontFamily: StyleSheet.TEXT_FONT_PRIMARY,
+        paddingLeft: StyleSheet.PADDING_SMALL,
+        paddingRight: StyleSheet.PADDING_SMALL,
+        alignSelf: "center"
+      }
+    })];
+  }
+
+  protected onClick(_: Player): void {
+    this.owner.selectRarity(this.rarity);
+  }
+
+  public setSelected(selected: boolean) {
+    this.color.set(selected ? (this.rarity ? RARITY_COLORS[this.rarity] : StyleSheet.TEXT_COLOR_BRIGHT) : StyleSheet.TEXT_COLOR_SECONDARY);
+  }
+}
+
+/**
+ * Per-player codex of collectible items grouped by rarity, with set-completion progress in the footer.
+ */
+export class CodexUI extends Panel {
+  private entries: CodexEntry[] = [];
+  private items: CodexItem[] = [];
+  private tabs: RarityTab[] = [];
+  private selectedRarity: string | null = null;
+  private grid: Grid | undefined = undefined;
+  private readonly summary: Binding<string> = new Binding<string>("");
+
+  public get Grid() { return this.grid; }
+
+  protected initialize(): void {
+    this.connectNetworkBroadcastEvent(CodexEvents.sendCodex, this.onCodexReceived.bind(this));
+
+    this.tabs = [new RarityTab(this, null), ...ITEM_RARITIES.map(rarity => new RarityTab(this, rarity))];
+    this.setButtons(this.tabs);
+    this.selectRarity(null);
+
+    this.requestCodex();
+  }
+
+  private requestCodex(): void {
+    this.Busy = true;
+    this.sendNetworkBroadcastEvent(CodexEvents.requestCodex, { player: this.Player, id: this.Id });
+  }
+
+  private onCodexReceived({ player, id, entries, sets }: { player: Player, id: string | null, entries: CodexEntry[], sets: CodexSetProgress[] }): void {
+    if (!this.isRecipient(player, id))
+      return;
+
+    this.entries = entries;
+    this.summary.set(this.describeSets(sets));
+    this.refreshItems();
+    this.Busy = false;
+  }
+
+  public selectRarity(rarity: string | null): void {
+    this.selectedRarity = rarity;
+    this.tabs.forEach(tab => tab.setSelected(tab.rarity === rarity));
+    this.refreshItems();
+  }
+
+  // Sorted by rarity, then by name, so "All" reads as one group per rarity
+  private refreshItems(): void {
+    this.items = this.entries
+      .filter(entry => this.selectedRarity === null || entry.rarity === this.selectedRarity)
+      .sort((a, b) => this.rarityOrder(a.rarity) - this.rarityOrder(b.rarity) || a.name.localeCompare(b.name))
+      .map(entry => new CodexItem({ entry: entry, owner: this }));
+
+    this.grid?.setItems(this.items);
+    this.refreshBindings();
+  }
+
+  private rarityOrder(rarity: string): number {
+    const index = ITEM_RARITIES.indexOf(rarity);
+    return index >= 0 ? index : ITEM_RARITIES.length;
+  }
+
+  private describeSets(sets: CodexSetProgress[]): string {
+    const collected = this.entries.filter(entry => entry.count > 0).length;
+    const lines = [`${collected} / ${this.entries.length} items collected`];
+    for (const set of sets) {
+      lines.push(set.completed ? `${set.name}: complete` : `${set.name}: ${set.collected} / ${set.total}`);
+    }
+    return lines.join("\n");
+  }
+
+  protected refreshBindings(): void {
+    for (const item of this.items) {
+      item.refreshBindings();
+    }
+  }
+
+  protected onShow() {
+    super.onShow();
+
+    if (this.Busy == false) {
+      this.requestCodex();
+    }
+  }
+
+  protected construct(): UINode {
+    const header = this.constructHeader("Codex", undefined);
+
+    this.grid = new Grid(false, StyleSheet.SCROLLVIEW_WIDTH, StyleSheet.SCROLLVIEW_TWO_LINES_HEIGHT);
+    const grid = this.grid.toUINode();
+
+    const footer = this.constructFooter(Text({
+      text: this.summary,
+      style: {
+        color: StyleSheet.TEXT_COLOR_PRIMARY,
+        fontSize: StyleSheet.TEXT_SIZE_DESCRIPTION,
+        fontFamily: StyleSheet.TEXT_FONT_PRIMARY
+      }
+    }));
+
+    return this.constructPanel([header, grid, footer]);
+  }
+}
+
+hz.Component.register(CodexUI);
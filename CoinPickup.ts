@@ -1,6 +1,15 @@
 import * as hz from "horizon/core";
+import { ProgressionSystem } from "./ProgressionSystem";
+import { queueGrant } from "./ShopTransactions";
 
 class CoinPickup extends hz.Component<typeof CoinPickup> {
+  static propsDefinition = {
+    // Codex entry for the orb
+    progressionSystem: { type: hz.PropTypes.Entity },
+    itemName: { type: hz.PropTypes.String, default: "Orb" },
+    rarity: { type: hz.PropTypes.String, default: "common" },
+  };
+
   private pickedUp = false;
   private respawnTimer: number | null = null;
   private readonly respawnDelay = 10000; // 10 seconds
@@ -13,7 +22,8 @@ class CoinPickup extends hz.Component<typeof CoinPickup> {
       // Grant the orb to the player using the correct SKU
       // Note: This item should be configured as "consumable" in the Meta Horizon Worlds platform
       // to allow players to use it from their inventory for XP gain
-      hz.WorldInventory.grantItemToPlayer(player, "orb2_c95bbf14", 1);
+      queueGrant(player, "orb2_c95bbf14", 1);
+      this.props.progressionSystem?.getComponents(ProgressionSystem)[0]?.collectItem(player, this.props.itemName, this.props.rarity);
 
       // Debug: Get the player's current orb count after granting
       const qty = await hz.WorldInventory.getPlayerEntitlementQuantity(player, "orb2_c95bbf14");
@@ -0,0 +1,384 @@
+import * as hz from 'horizon/core';
+import { PanelEvents } from './inventory_ui';
+import { ProgressionSystem } from './ProgressionSystem';
+import { PurchaseableItemEvents } from './PurchaseableItem';
+import { executeSteps, ItemStep, queueTransaction } from './ShopTransactions';
+
+export type RecipeItem = {
+  sku: string;
+  quantity: number;
+};
+
+export interface Recipe {
+  id: string;
+  name: string;
+  inputs: RecipeItem[];
+  outputs: RecipeItem[];
+  durationSeconds: number;
+  // Stations below this level cannot craft the recipe
+  requiredLevel: number;
+  // Granted through ProgressionSystem.addXP when the craft completes
+  xp: number;
+}
+
+// A craft in a player's queue as their CraftingUI shows it, times relative to when it was sent
+export type CraftingJobView = {
+  recipeId: string;
+  name: string;
+  remainingMs: number;
+  durationMs: number;
+};
+
+export const CraftingEvents = {
+  // Broadcast by a CraftingUI whose id is the stationId, the station answers with sendCrafting
+  requestCrafting: new hz.NetworkEvent<{ player: hz.Player, stationId: string }>('CraftingEvents.requestCrafting'),
+  sendCrafting: new hz.NetworkEvent<{ player: hz.Player, stationId: string, stationName: string, stationLevel: number, recipes: Recipe[], queue: CraftingJobView[], message: string }>('CraftingEvents.sendCrafting'),
+  requestCraft: new hz.NetworkEvent<{ player: hz.Player, stationId: string, recipeId: string }>('CraftingEvents.requestCraft'),
+
+  // Sent on the station entity for gameplay scripts
+  craftCompleted: new hz.NetworkEvent<{ player: hz.Player, stationId: string, recipeId: string, outputs: RecipeItem[] }>('CraftingEvents.craftCompleted'),
+};
+
+type CraftingJob = {
+  recipeId: string;
+  endsAt: number;
+};
+
+// Saved in the station's player persistent variable
+type CraftingQueueSnapshot = {
+  jobs: CraftingJob[];
+};
+
+function parseRecipeItems(raw: unknown, field: string, id: string): RecipeItem[] {
+  if (!Array.isArray(raw) || raw.length === 0) {
+    throw Error(`Recipe "${id}" needs a non-empty list of ${field}.`);
+  }
+  return raw.map((entry: any) => {
+    if (!entry || typeof entry.sku !== 'string' || entry.sku === '') {
+      throw Error(`Recipe "${id}" has ${field} without a SKU.`);
+    }
+    const quantity = entry.quantity ?? 1;
+    if (!Number.isInteger(quantity) || quantity < 1) {
+      throw Error(`Recipe "${id}" needs a whole positive quantity of "${entry.sku}", got "${quantity}".`);
+    }
+    return { sku: entry.sku, quantity: quantity };
+  });
+}
+
+/**
+ * Parses and validates a recipe list, e.g.
+ *   {"recipes": [{"id": "apple_pie", "name": "Apple Pie",
+ *                 "inputs": [{"sku": "apple", "quantity": 3}, {"sku": "flour"}],
+ *                 "outputs": [{"sku": "apple_pie", "quantity": 1}],
+ *                 "durationSeconds": 15, "requiredLevel": 1, "xp": 10}]}
+ * Quantities default to 1, the required level to 1 and the XP to 0.
+ */
+export function parseRecipes(raw: any): Recipe[] {
+  if (!raw || typeof raw !== 'object' || !Array.isArray(raw.recipes)) {
+    throw Error('Recipe list must be an object with a "recipes" array.');
+  }
+
+  const ids = new Set<string>();
+  return raw.recipes.map((entry: any, index: number) => {
+    if (!entry || typeof entry.id !== 'string' || entry.id === '') {
+      throw Error(`Recipe #${index} is missing an id.`);
+    }
+    if (ids.has(entry.id)) {
+      throw Error(`Duplicate recipe "${entry.id}".`);
+    }
+    ids.add(entry.id);
+
+    const durationSeconds = entry.durationSeconds;
+    if (typeof durationSeconds !== 'number' || !(durationSeconds > 0)) {
+      throw Error(`Recipe "${entry.id}" needs a positive durationSeconds.`);
+    }
+    const requiredLevel = entry.requiredLevel ?? 1;
+    const xp = entry.xp ?? 0;
+    if (!Number.isInteger(requiredLevel) || requiredLevel < 1 || typeof xp !== 'number' || xp < 0) {
+      throw Error(`Recipe "${entry.id}" needs a whole requiredLevel of at least 1 and a non-negative xp.`);
+    }
+
+    return {
+      id: entry.id,
+      name: entry.name ?? entry.id,
+      inputs: parseRecipeItems(entry.inputs, 'inputs', entry.id),
+      outputs: parseRecipeItems(entry.outputs, 'outputs', entry.id),
+      durationSeconds: durationSeconds,
+      requiredLevel: requiredLevel,
+      xp: xp
+    };
+  });
+}
+
+/**
+ * A station crafting recipes from a recipe list, the generalization of Oven baking.
+ * Every player has their own queue at the station: inputs are taken when a craft is queued,
+ * crafts run one after the other, and each completed craft grants its outputs and XP.
+ * Crafts run on the server clock, so they keep going wherever the player is in the world.
+ */
+export class CraftingStation extends hz.Component<typeof CraftingStation> {
+  static propsDefinition = {
+    stationId: { type: hz.PropTypes.String, default: "station" },
+    stationName: { type: hz.PropTypes.String, default: "Workbench" },
+    stationLevel: { type: hz.PropTypes.Number, default: 1 },
+    maxQueueSize: { type: hz.PropTypes.Number, default: 5 },
+    progressionSystem: { type: hz.PropTypes.Entity },
+    // Entering it opens the CraftingUI of the station
+    trigger: { type: hz.PropTypes.Entity },
+
+    // The asset takes precedence over the JSON string
+    recipesAsset: { type: hz.PropTypes.Asset },
+    recipesJson: { type: hz.PropTypes.String, default: "" },
+
+    // Player persistent variable keeping the queue of this station across sessions, each station needs its own.
+    // Crafts that finished while the player was away are granted when they come back. Not persisted when empty.
+    queueVariableKey: { type: hz.PropTypes.String, default: "" },
+  };
+
+  private recipes: Recipe[] = [];
+  // Crafts are only completed once the recipe list was fetched, restored crafts could not be told apart from dropped recipes before
+  private recipesLoaded = false;
+  private queues: Map<hz.Player, CraftingJob[]> = new Map();
+  // Players whose first craft is being granted, so that it is not granted twice
+  private completing: Set<hz.Player> = new Set();
+  private progression?: ProgressionSystem;
+  private level = 1;
+
+  preStart() {
+    this.level = this.props.stationLevel;
+    this.loadRecipes();
+
+    if (this.props.progressionSystem) {
+      this.progression = this.props.progressionSystem.getComponents(ProgressionSystem)[0];
+    }
+
+    if (this.props.trigger) {
+      this.connectCodeBlockEvent(this.props.trigger, hz.CodeBlockEvents.OnPlayerEnterTrigger, (player: hz.Player) => {
+        this.sendNetworkBroadcastEvent(PanelEvents.ShowPanel, { player: player, id: this.props.stationId });
+      });
+    }
+
+    this.connectNetworkBroadcastEvent(CraftingEvents.requestCrafting, ({ player, stationId }) => {
+      if (stationId !== this.props.stationId) return;
+      this.sendCrafting(player);
+    });
+    this.connectNetworkBroadcastEvent(CraftingEvents.requestCraft, async ({ player, stationId, recipeId }) => {
+      if (stationId !== this.props.stationId) return;
+      try {
+        this.sendCrafting(player, await this.queueCraft(player, recipeId));
+      } catch (error) {
+        console.error(`[CraftingStation] Could not queue ${recipeId} for ${player.name.get()}: ${error}`);
+        this.sendCrafting(player, "Something went wrong, please try again");
+      }
+    });
+
+    this.connectCodeBlockEvent(this.entity, hz.CodeBlockEvents.OnPlayerEnterWorld, (player: hz.Player) => {
+      this.restoreQueue(player);
+    });
+    this.connectCodeBlockEvent(this.entity, hz.CodeBlockEvents.OnPlayerExitWorld, (player: hz.Player) => {
+      if (!this.props.queueVariableKey && (this.queues.get(player)?.length ?? 0) > 0) {
+        console.warn(`[CraftingStation] ${player.name.get()} left ${this.props.stationName} with crafts queued, they are lost`);
+      }
+      this.queues.delete(player);
+    });
+  }
+
+  start() {
+    this.async.setInterval(() => this.update(), 500);
+  }
+
+  private async loadRecipes() {
+    try {
+      let raw: unknown = null;
+      if (this.props.recipesAsset) {
+        raw = (await this.props.recipesAsset.fetchAsData()).asJSON();
+      } else if (this.props.recipesJson) {
+        raw = JSON.parse(this.props.recipesJson);
+      }
+      if (raw !== null) {
+        this.recipes = parseRecipes(raw);
+        console.log(`[CraftingStation] Loaded ${this.recipes.length} recipes for ${this.props.stationName}`);
+      } else {
+        console.error(`[CraftingStation] ${this.props.stationName} has no recipes`);
+      }
+    } catch (error) {
+      console.error(`[CraftingStation] Invalid recipes for ${this.props.stationName}: ${error}`);
+    }
+    this.recipesLoaded = true;
+  }
+
+  public getRecipes(): Recipe[] {
+    return this.recipes;
+  }
+
+  public getLevel(): number {
+    return this.level;
+  }
+
+  // Upgrades or downgrades the station, queued crafts are kept whatever their required level
+  public setLevel(level: number) {
+    this.level = level;
+    for (const player of this.queues.keys()) {
+      this.sendCrafting(player);
+    }
+  }
+
+  /**
+   * Takes the inputs of a recipe and queues it behind the player's other crafts.
+   * @returns Why the craft could not be queued, empty when it was
+   */
+  public async queueCraft(player: hz.Player, recipeId: string): Promise<string> {
+    const recipe = this.recipes.find(entry => entry.id === recipeId);
+    if (!recipe) {
+      return "Unknown recipe";
+    }
+    if (recipe.requiredLevel > this.level) {
+      return `${recipe.name} needs a level ${recipe.requiredLevel} ${this.props.stationName}`;
+    }
+
+    // The queue is checked and extended within the transaction, so that concurrent requests see each other's crafts
+    const failure = await queueTransaction(player, async () => {
+      if ((this.queues.get(player)?.length ?? 0) >= this.props.maxQueueSize) {
+        return "The queue is full";
+      }
+      for (const input of recipe.inputs) {
+        const owned = Number(await hz.WorldInventory.getPlayerEntitlementQuantity(player, input.sku));
+        if (owned < input.quantity) {
+          return `Not enough ${input.sku}: ${input.quantity - owned} more needed`;
+        }
+      }
+      const steps: ItemStep[] = recipe.inputs.map(input => ({ player: player, sku: input.sku, quantity: input.quantity, give: false }));
+      if (!await executeSteps(this, steps)) {
+        return "Something went wrong, please try again";
+      }
+
+      // Starts when the last queued craft ends, or right away.
+      // A player who left while the inputs were taken has the craft added to their saved queue instead.
+      const left = !this.world.getPlayers().includes(player);
+      const queue = left ? this.loadSavedJobs(player) : this.queues.get(player) ?? [];
+      const startsAt = Math.max(Date.now(), queue.length > 0 ? queue[queue.length - 1].endsAt : 0);
+      queue.push({ recipeId: recipe.id, endsAt: startsAt + recipe.durationSeconds * 1000 });
+      if (left) {
+        this.saveJobs(player, queue);
+      } else {
+        this.queues.set(player, queue);
+        this.saveQueue(player);
+      }
+      return "";
+    });
+    if (failure) {
+      return failure;
+    }
+
+    for (const input of recipe.inputs) {
+      this.sendNetworkBroadcastEvent(PurchaseableItemEvents.OnConsumeItem, { player: player, itemSKU: input.sku, itemAmount: input.quantity });
+    }
+    return "";
+  }
+
+  // Completes the crafts that are done, the first of each queue at a time.
+  // Crafts of recipes dropped from the list since they were queued are kept, their inputs are spent, until the recipe is back.
+  private update() {
+    if (!this.recipesLoaded) return;
+
+    const now = Date.now();
+    for (const [player, queue] of this.queues) {
+      const job = queue.find(entry => this.recipes.some(recipe => recipe.id === entry.recipeId));
+      if (job !== undefined && job.endsAt <= now && !this.completing.has(player)) {
+        this.completeCraft(player, job);
+      }
+    }
+  }
+
+  private async completeCraft(player: hz.Player, job: CraftingJob) {
+    const recipe = this.recipes.find(entry => entry.id === job.recipeId);
+    if (!recipe) {
+      return;
+    }
+
+    this.completing.add(player);
+    const steps: ItemStep[] = recipe.outputs.map(output => ({ player: player, sku: output.sku, quantity: output.quantity, give: true }));
+    const granted = await queueTransaction(player, () => executeSteps(this, steps));
+    this.completing.delete(player);
+    if (!granted) {
+      // Stays first in the queue, the next update tries again
+      console.error(`[CraftingStation] Could not grant ${recipe.name} to ${player.name.get()}, retrying`);
+      return;
+    }
+
+    this.removeJob(player, job);
+    if (recipe.xp > 0) {
+      this.progression?.addXP(player, recipe.xp, 'crafting');
+    }
+    for (const output of recipe.outputs) {
+      this.sendNetworkBroadcastEvent(PurchaseableItemEvents.OnReceiveItem, { player: player, itemSKU: output.sku, itemAmount: output.quantity });
+    }
+    this.sendNetworkEvent(this.entity, CraftingEvents.craftCompleted, { player: player, stationId: this.props.stationId, recipeId: recipe.id, outputs: recipe.outputs });
+    this.sendCrafting(player, `${recipe.name} is ready!`);
+  }
+
+  private removeJob(player: hz.Player, job: CraftingJob) {
+    const queue = this.queues.get(player);
+    if (queue) {
+      this.queues.set(player, queue.filter(entry => entry !== job));
+      this.saveQueue(player);
+    } else {
+      // Left while the craft was granted, it is dropped from their saved queue so that it is not granted again
+      this.saveJobs(player, this.loadSavedJobs(player).filter(entry => entry.recipeId !== job.recipeId || entry.endsAt !== job.endsAt));
+    }
+  }
+
+  private restoreQueue(player: hz.Player) {
+    const jobs = this.loadSavedJobs(player);
+    if (jobs.length > 0) {
+      console.log(`[CraftingStation] Restored ${jobs.length} crafts of ${player.name.get()} at ${this.props.stationName}`);
+      this.queues.set(player, jobs);
+    }
+  }
+
+  private loadSavedJobs(player: hz.Player): CraftingJob[] {
+    if (!this.props.queueVariableKey || !this.world.persistentStorage) return [];
+
+    const saved = this.world.persistentStorage.getPlayerVariable<CraftingQueueSnapshot>(player, this.props.queueVariableKey);
+    return Array.isArray(saved?.jobs) ? saved!.jobs.filter(job => typeof job.recipeId === 'string' && typeof job.endsAt === 'number') : [];
+  }
+
+  private saveQueue(player: hz.Player) {
+    this.saveJobs(player, this.queues.get(player) ?? []);
+  }
+
+  private saveJobs(player: hz.Player, jobs: CraftingJob[]) {
+    if (!this.props.queueVariableKey || !this.world.persistentStorage) return;
+    this.world.persistentStorage.setPlayerVariable<CraftingQueueSnapshot>(player, this.props.queueVariableKey, { jobs: jobs });
+  }
+
+  public getQueue(player: hz.Player): CraftingJobView[] {
+    const now = Date.now();
+    return (this.queues.get(player) ?? []).map((job, index, queue) => {
+      const recipe = this.recipes.find(entry => entry.id === job.recipeId);
+      const durationMs = (recipe?.durationSeconds ?? 0) * 1000;
+      const startsAt = index > 0 ? queue[index - 1].endsAt : job.endsAt - durationMs;
+      return {
+        recipeId: job.recipeId,
+        name: recipe?.name ?? job.recipeId,
+        // Crafts behind the first one have not started yet, they show their full duration
+        remainingMs: Math.max(0, job.endsAt - Math.max(now, startsAt)),
+        durationMs: durationMs
+      };
+    });
+  }
+
+  private sendCrafting(player: hz.Player, message: string = "") {
+    this.sendNetworkBroadcastEvent(CraftingEvents.sendCrafting, {
+      player: player,
+      stationId: this.props.stationId,
+      stationName: this.props.stationName,
+      stationLevel: this.level,
+      recipes: this.recipes,
+      queue: this.getQueue(player),
+      message: message
+    });
+  }
+}
+
+hz.Component.register(CraftingStation);
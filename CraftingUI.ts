@@ -0,0 +1,158 @@
+import * as hz from 'horizon/core';
+import { Binding, Text, UINode } from 'horizon/ui';
+import { CraftingEvents, CraftingJobView, Recipe, RecipeItem } from './CraftingStation';
+import { Grid, Item, Panel, Popup, StyleSheet } from './inventory_ui';
+
+function describeItems(items: RecipeItem[]): string {
+  return items.map(item => `${item.quantity}x ${item.sku}`).join(" + ");
+}
+
+/**
+ * A recipe of the station, greyed out while the station is below its required level.
+ */
+class RecipeView extends Item {
+  protected readonly owner: CraftingUI;
+  public readonly recipe: Recipe;
+  private readonly unlocked: boolean;
+
+  constructor({ recipe, unlocked, owner }: { recipe: Recipe; unlocked: boolean; owner: CraftingUI }) {
+    super({
+      title: recipe.name,
+      description: unlocked
+        ? `${describeItems(recipe.inputs)} → ${describeItems(recipe.outputs)} · ${recipe.durationSeconds}s`
+        : `Requires level ${recipe.requiredLevel}`,
+      owner: owner
+    });
+    this.owner = owner;
+    this.recipe = recipe;
+    this.unlocked = unlocked;
+  }
+
+  protected onClick(): void {
+    this.owner.craft(this.recipe);
+  }
+
+  protected canBeClicked(): boolean {
+    return super.canBeClicked() && this.unlocked;
+  }
+}
+
+/**
+ * Per-player panel of a CraftingStation, its id must be the stationId of the station.
+ * Clicking a recipe queues it, the footer follows the progress of the queue.
+ */
+export class CraftingUI extends Panel {
+  private recipes: RecipeView[] = [];
+  private queue: CraftingJobView[] = [];
+  // When the queue was received, its remaining times count down from there
+  private receivedAt = 0;
+  private progressIntervalId: number = -1;
+
+  private grid: Grid | undefined = undefined;
+  private popup: Popup | undefined = undefined;
+  private readonly title: Binding<string> = new Binding<string>("Crafting");
+  private readonly progress: Binding<string> = new Binding<string>("");
+
+  public get Grid() { return this.grid; }
+
+  protected initialize(): void {
+    if (!this.Id) {
+      console.error(`[CraftingUI] ${this.entity.name.get()} needs the stationId of its station as id`);
+    }
+
+    this.connectNetworkBroadcastEvent(CraftingEvents.sendCrafting, ({ player, stationId, stationName, stationLevel, recipes, queue, message }) => {
+      if (!this.isRecipient(player, stationId)) return;
+      this.onCraftingReceived(stationName, stationLevel, recipes, queue, message);
+    });
+  }
+
+  private requestCrafting(): void {
+    if (!this.Id) return;
+    this.Busy = true;
+    this.sendNetworkBroadcastEvent(CraftingEvents.requestCrafting, { player: this.Player, stationId: this.Id });
+  }
+
+  private onCraftingReceived(stationName: string, stationLevel: number, recipes: Recipe[], queue: CraftingJobView[], message: string): void {
+    this.title.set(`${stationName} (level ${stationLevel})`);
+    this.queue = queue;
+    this.receivedAt = Date.now();
+
+    if (message) {
+      this.popup?.Show(undefined, message);
+    }
+
+    this.recipes = recipes.map(recipe => new RecipeView({ recipe: recipe, unlocked: recipe.requiredLevel <= stationLevel, owner: this }));
+    this.grid?.setItems(this.recipes);
+    this.refreshBindings();
+    this.updateProgress();
+    this.Busy = false;
+  }
+
+  public craft(recipe: Recipe): void {
+    if (!this.Id) return;
+    this.Busy = true;
+    this.sendNetworkBroadcastEvent(CraftingEvents.requestCraft, { player: this.Player, stationId: this.Id, recipeId: recipe.id });
+  }
+
+  private updateProgress(): void {
+    if (this.queue.length === 0) {
+      this.progress.set("Pick a recipe to start crafting");
+      return;
+    }
+
+    const elapsed = Date.now() - this.receivedAt;
+    const current = this.queue[0];
+    const remaining = Math.max(0, current.remainingMs - elapsed);
+    const percent = current.durationMs > 0 ? Math.floor(100 * (1 - remaining / current.durationMs)) : 100;
+    const lines = [`${current.name}: ${percent}% (${Math.ceil(remaining / 1000)}s)`];
+    if (this.queue.length > 1) {
+      lines.push(`Then ${this.queue.slice(1).map(job => job.name).join(", ")}`);
+    }
+    this.progress.set(lines.join("\n"));
+  }
+
+  protected refreshBindings(): void {
+    for (const recipe of this.recipes) {
+      recipe.refreshBindings();
+    }
+  }
+
+  protected onShow() {
+    super.onShow();
+    this.requestCrafting();
+    if (this.progressIntervalId === -1) {
+      this.progressIntervalId = this.async.setInterval(() => this.updateProgress(), 250);
+    }
+  }
+
+  protected onHide() {
+    super.onHide();
+    if (this.progressIntervalId !== -1) {
+      this.async.clearInterval(this.progressIntervalId);
+      this.progressIntervalId = -1;
+    }
+  }
+
+  protected construct(): UINode {
+    const header = this.constructHeader(this.title, undefined);
+
+    this.grid = new Grid(false, StyleSheet.SCROLLVIEW_WIDTH, StyleSheet.SCROLLVIEW_TWO_LINES_HEIGHT);
+    const grid = this.grid.toUINode();
+
+    const footer = this.constructFooter(Text({
+      text: this.progress,
+      style: {
+        color: StyleSheet.TEXT_COLOR_PRIMARY,
+        fontSize: StyleSheet.TEXT_SIZE_DESCRIPTION,
+        fontFamily: StyleSheet.TEXT_FONT_PRIMARY
+      }
+    }));
+
+    this.popup = new Popup();
+    const popupNode = this.popup.toUINode();
+
+    return this.constructPanel([header, grid, footer, popupNode]);
+  }
+}
+
+hz.Component.register(CraftingUI);
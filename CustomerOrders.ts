@@ -0,0 +1,273 @@
+import * as hz from 'horizon/core';
+import { KitchenEvents } from './Kitchen';
+import { parsePieRecipes } from './PieRecipes';
+import { PurchaseableItemEvents } from './PurchaseableItem';
+import { exchangeItems } from './ShopTransactions';
+
+// A pie customers may order, reward being the gems paid for each pie
+export type OrderPie = {
+  sku: string;
+  name: string;
+  reward: number;
+  // Only ordered from kitchens of at least this tier
+  minTier: number;
+};
+
+export type CustomerOrder = {
+  id: number;
+  customer: string;
+  sku: string;
+  name: string;
+  quantity: number;
+  reward: number;
+  // Paid on top of the reward when delivered before bonusUntil
+  bonus: number;
+  bonusUntil: number;
+  expiresAt: number;
+};
+
+const CUSTOMER_NAMES = ["Granny Smith", "Farmer Joe", "Chef Luigi", "Little Timmy", "Mayor Bell", "Baker Rosa", "Sir Crumble", "Aunt Mabel"];
+
+/**
+ * Parses and validates the pies customers order, e.g.
+ *   {"pies": [{"sku": "apple_pie", "name": "Apple Pie", "reward": 2},
+ *             {"sku": "berry_pie", "name": "Berry Pie", "reward": 5, "minTier": 3}]}
+ * The name defaults to the SKU and the minimum tier to 1.
+ */
+export function parseOrderPies(raw: any): OrderPie[] {
+  if (!raw || typeof raw !== 'object' || !Array.isArray(raw.pies) || raw.pies.length === 0) {
+    throw Error('Order pies must be an object with a non-empty "pies" array.');
+  }
+
+  return raw.pies.map((entry: any, index: number) => {
+    if (!entry || typeof entry.sku !== 'string' || entry.sku === '') {
+      throw Error(`Order pie #${index} is missing a SKU.`);
+    }
+    if (typeof entry.reward !== 'number' || !(entry.reward > 0)) {
+      throw Error(`Order pie "${entry.sku}" needs a positive reward.`);
+    }
+    const minTier = entry.minTier ?? 1;
+    if (!Number.isInteger(minTier) || minTier < 1) {
+      throw Error(`Order pie "${entry.sku}" needs a whole minTier of at least 1.`);
+    }
+    return { sku: entry.sku, name: entry.name ?? entry.sku, reward: entry.reward, minTier: minTier };
+  });
+}
+
+/**
+ * NPC customers ordering pies from every kitchen owner.
+ * Orders spawn periodically per owner, ask for more pies and better paid pies as their kitchen tier grows,
+ * and pay a bonus when delivered quickly. Walking into the delivery trigger hands in every order the player can fill.
+ */
+export class CustomerOrders extends hz.Component<typeof CustomerOrders> {
+  static propsDefinition = {
+    gemSKU: { type: hz.PropTypes.String },
+
+    // Either order pies, see parseOrderPies, or the ovens' recipes, ordered for their sell value.
+    // The asset takes precedence over the JSON string.
+    piesAsset: { type: hz.PropTypes.Asset },
+    piesJson: { type: hz.PropTypes.String, default: "" },
+
+    orderIntervalSeconds: { type: hz.PropTypes.Number, default: 45 },
+    orderDurationSeconds: { type: hz.PropTypes.Number, default: 180 },
+    maxOpenOrders: { type: hz.PropTypes.Number, default: 3 },
+    // Pies per order at tier 1, and how many more each tier above asks for
+    baseQuantity: { type: hz.PropTypes.Number, default: 2 },
+    quantityPerTier: { type: hz.PropTypes.Number, default: 1 },
+    // Orders delivered within bonusSeconds pay bonusFactor times their reward on top
+    bonusSeconds: { type: hz.PropTypes.Number, default: 60 },
+    bonusFactor: { type: hz.PropTypes.Number, default: 0.5 },
+
+    deliverTrigger: { type: hz.PropTypes.Entity },
+    boardTxt: { type: hz.PropTypes.Entity },
+    messageTxt: { type: hz.PropTypes.Entity },
+  };
+
+  private pies: OrderPie[] = [];
+  private tiers: Map<hz.Player, number> = new Map();
+  private orders: Map<hz.Player, CustomerOrder[]> = new Map();
+  private nextOrderAt: Map<hz.Player, number> = new Map();
+  // Players handing in orders, whose orders do not expire meanwhile
+  private delivering: Set<hz.Player> = new Set();
+  private nextOrderId = 1;
+  private messageTimeoutId: number = -1;
+
+  preStart() {
+    this.loadPies();
+
+    this.connectNetworkBroadcastEvent(KitchenEvents.tierChanged, ({ player, tier }) => {
+      if (tier > 0) {
+        if (!this.tiers.has(player)) {
+          this.nextOrderAt.set(player, Date.now() + this.props.orderIntervalSeconds * 1000);
+        }
+        this.tiers.set(player, tier);
+      } else {
+        this.forget(player);
+      }
+    });
+
+    if (this.props.deliverTrigger) {
+      this.connectCodeBlockEvent(this.props.deliverTrigger, hz.CodeBlockEvents.OnPlayerEnterTrigger, (player: hz.Player) => {
+        this.deliverOrders(player);
+      });
+    }
+
+    this.connectCodeBlockEvent(this.entity, hz.CodeBlockEvents.OnPlayerExitWorld, (player: hz.Player) => {
+      this.forget(player);
+    });
+  }
+
+  start() {
+    this.async.setInterval(() => this.update(), 1000);
+  }
+
+  private async loadPies() {
+    try {
+      let raw: unknown = null;
+      if (this.props.piesAsset) {
+        raw = (await this.props.piesAsset.fetchAsData()).asJSON();
+      } else if (this.props.piesJson) {
+        raw = JSON.parse(this.props.piesJson);
+      }
+      if (raw !== null && Array.isArray((raw as any).recipes)) {
+        this.pies = parsePieRecipes(raw)
+          .filter(recipe => recipe.sellValue > 0)
+          .map(recipe => ({ sku: recipe.output.sku, name: recipe.output.name, reward: recipe.sellValue, minTier: 1 }));
+        console.log(`[CustomerOrders] Loaded ${this.pies.length} pies from recipes`);
+      } else if (raw !== null) {
+        this.pies = parseOrderPies(raw);
+        console.log(`[CustomerOrders] Loaded ${this.pies.length} pies`);
+      } else {
+        console.error(`[CustomerOrders] ${this.entity.name.get()} has no pies to order`);
+      }
+    } catch (error) {
+      console.error(`[CustomerOrders] Invalid pies for ${this.entity.name.get()}: ${error}`);
+    }
+  }
+
+  public getOrders(player: hz.Player): CustomerOrder[] {
+    return this.orders.get(player) ?? [];
+  }
+
+  private forget(player: hz.Player) {
+    this.tiers.delete(player);
+    this.orders.delete(player);
+    this.nextOrderAt.delete(player);
+  }
+
+  private update() {
+    const now = Date.now();
+    for (const [player, tier] of this.tiers) {
+      let orders = this.orders.get(player) ?? [];
+      if (!this.delivering.has(player)) {
+        orders = orders.filter(order => order.expiresAt > now);
+      }
+
+      if (now >= (this.nextOrderAt.get(player) ?? 0)) {
+        this.nextOrderAt.set(player, now + this.props.orderIntervalSeconds * 1000);
+        const order = orders.length < this.props.maxOpenOrders ? this.createOrder(tier, now) : undefined;
+        if (order) {
+          orders.push(order);
+        }
+      }
+      this.orders.set(player, orders);
+    }
+    this.updateBoard(now);
+  }
+
+  private createOrder(tier: number, now: number): CustomerOrder | undefined {
+    const pies = this.pies.filter(pie => pie.minTier <= tier);
+    if (pies.length === 0) {
+      return undefined;
+    }
+
+    const pie = pies[Math.floor(Math.random() * pies.length)];
+    const quantity = Math.max(1, Math.floor(this.props.baseQuantity + (tier - 1) * this.props.quantityPerTier));
+    const reward = Math.ceil(quantity * pie.reward);
+    return {
+      id: this.nextOrderId++,
+      customer: CUSTOMER_NAMES[Math.floor(Math.random() * CUSTOMER_NAMES.length)],
+      sku: pie.sku,
+      name: pie.name,
+      quantity: quantity,
+      reward: reward,
+      bonus: Math.floor(reward * this.props.bonusFactor),
+      bonusUntil: now + this.props.bonusSeconds * 1000,
+      expiresAt: now + this.props.orderDurationSeconds * 1000
+    };
+  }
+
+  // Hands in the player's orders oldest first, skipping those they do not have the pies for
+  public async deliverOrders(player: hz.Player) {
+    const orders = this.orders.get(player);
+    if (!orders || orders.length === 0 || this.delivering.has(player) || !this.props.gemSKU) {
+      return;
+    }
+
+    this.delivering.add(player);
+    let delivered = 0;
+    let earned = 0;
+    for (const order of [...orders]) {
+      const payout = order.reward + (Date.now() <= order.bonusUntil ? order.bonus : 0);
+      const result = await exchangeItems(this, {
+        player: player,
+        costSKU: order.sku,
+        costQuantity: order.quantity,
+        rewardSKU: this.props.gemSKU,
+        rewardQuantity: payout
+      });
+      if (!result.success) {
+        continue;
+      }
+
+      delivered++;
+      earned += payout;
+      const open = this.orders.get(player);
+      if (open) {
+        this.orders.set(player, open.filter(entry => entry.id !== order.id));
+      }
+      this.sendNetworkBroadcastEvent(PurchaseableItemEvents.OnReceiveItem, { player: player, itemSKU: this.props.gemSKU, itemAmount: payout });
+      console.log(`[CustomerOrders] ${player.name.get()} delivered ${order.quantity}x ${order.sku} to ${order.customer} for ${payout} gems`);
+    }
+    this.delivering.delete(player);
+
+    this.showMessage(delivered > 0
+      ? `${player.name.get()} delivered ${delivered} order${delivered > 1 ? "s" : ""} for ${earned} gems!`
+      : `${player.name.get()}, you don't have the pies for any order yet`);
+    this.updateBoard(Date.now());
+  }
+
+  private updateBoard(now: number) {
+    if (!this.props.boardTxt) return;
+
+    const lines: string[] = [];
+    for (const [player, orders] of this.orders) {
+      if (orders.length === 0) continue;
+      lines.push(player.name.get() + ":");
+      for (const order of orders) {
+        const bonusLeft = Math.ceil((order.bonusUntil - now) / 1000);
+        const bonus = bonusLeft > 0 && order.bonus > 0 ? ` (+${order.bonus} for ${bonusLeft}s)` : "";
+        const timeLeft = Math.max(0, Math.ceil((order.expiresAt - now) / 1000));
+        lines.push(`  ${order.customer}: ${order.quantity}x ${order.name} · ${order.reward} gems${bonus} · ${timeLeft}s left`);
+      }
+    }
+    this.props.boardTxt.as(hz.TextGizmo).text.set(lines.length > 0 ? lines.join("\n") : "No orders yet, customers are on their way!");
+  }
+
+  private showMessage(text: string) {
+    if (!this.props.messageTxt) return;
+
+    const message = this.props.messageTxt.as(hz.TextGizmo);
+    message.text.set(text);
+    message.visible.set(true);
+    if (this.messageTimeoutId !== -1) {
+      this.async.clearTimeout(this.messageTimeoutId);
+    }
+    this.messageTimeoutId = this.async.setTimeout(() => {
+      message.visible.set(false);
+      this.messageTimeoutId = -1;
+    }, 3000);
+  }
+}
+
+hz.Component.register(CustomerOrders);
@@ -0,0 +1,92 @@
+import * as hz from 'horizon/core';
+import { ProgressionSystem } from './ProgressionSystem';
+
+export type IslandDescription = {
+  name: string;
+  description: string;
+  thumbnailId: bigint;
+  thumbnailVersionId: bigint;
+  // Position on the atlas map, only set when the zone has map coordinates
+  mapX?: number;
+  mapY?: number;
+  discovered: boolean;
+};
+
+export const DiscoveryEvents = {
+  // Sent to the player the first time they enter an island's zone
+  islandDiscovered: new hz.NetworkEvent<{ player: hz.Player, island: IslandDescription }>('DiscoveryEvents.islandDiscovered'),
+
+  // Broadcast by an AtlasUI, every DiscoveryZone answers with its own island
+  requestIslands: new hz.NetworkEvent<{ player: hz.Player, id: string | null }>('DiscoveryEvents.requestIslands'),
+  sendIsland: new hz.NetworkEvent<{ player: hz.Player, id: string | null, island: IslandDescription }>('DiscoveryEvents.sendIsland'),
+};
+
+/**
+ * Trigger zone around an island.
+ * Entering it discovers the island in the player's progression, which is saved with the rest of their progression data.
+ */
+export class DiscoveryZone extends hz.Component<typeof DiscoveryZone> {
+  static propsDefinition = {
+    progressionSystem: { type: hz.PropTypes.Entity },
+    islandName: { type: hz.PropTypes.String, default: "" },
+    description: { type: hz.PropTypes.String, default: "" },
+    thumbnail: { type: hz.PropTypes.Asset },
+
+    // Optional position of the island on the atlas map
+    hasMapCoordinates: { type: hz.PropTypes.Boolean, default: false },
+    mapX: { type: hz.PropTypes.Number, default: 0 },
+    mapY: { type: hz.PropTypes.Number, default: 0 },
+  };
+
+  private progression?: ProgressionSystem;
+
+  preStart() {
+    if (this.props.progressionSystem) {
+      this.progression = this.props.progressionSystem.getComponents(ProgressionSystem)[0];
+    }
+
+    this.connectCodeBlockEvent(this.entity, hz.CodeBlockEvents.OnPlayerEnterTrigger, (player: hz.Player) => {
+      this.onPlayerEntered(player);
+    });
+
+    this.connectNetworkBroadcastEvent(DiscoveryEvents.requestIslands, ({ player, id }) => {
+      if (!this.props.islandName) return;
+      this.sendNetworkBroadcastEvent(DiscoveryEvents.sendIsland, { player: player, id: id, island: this.describe(player) });
+    });
+  }
+
+  start() {
+    if (!this.props.islandName) {
+      console.error(`[DiscoveryZone] ${this.entity.name.get()} has no island name`);
+    }
+    if (!this.progression) {
+      console.error(`[DiscoveryZone] ${this.props.islandName} has no progression system`);
+    }
+  }
+
+  private onPlayerEntered(player: hz.Player) {
+    if (!this.progression || !this.props.islandName) return;
+
+    if (this.progression.discoverIsland(player, this.props.islandName)) {
+      console.log(`[DiscoveryZone] ${player.name.get()} discovered ${this.props.islandName}`);
+      this.sendNetworkEvent(player, DiscoveryEvents.islandDiscovered, { player: player, island: this.describe(player) });
+    }
+  }
+
+  private describe(player: hz.Player): IslandDescription {
+    const island: IslandDescription = {
+      name: this.props.islandName,
+      description: this.props.description,
+      thumbnailId: this.props.thumbnail?.id ?? BigInt(0),
+      thumbnailVersionId: this.props.thumbnail?.versionId ?? BigInt(0),
+      discovered: this.progression?.hasDiscoveredIsland(player, this.props.islandName) ?? false
+    };
+    if (this.props.hasMapCoordinates) {
+      island.mapX = this.props.mapX;
+      island.mapY = this.props.mapY;
+    }
+    return island;
+  }
+}
+
+hz.Component.register(DiscoveryZone);
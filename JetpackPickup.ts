@@ -1,4 +1,5 @@
 import * as hz from 'horizon/core';
+import { queueGrant } from './ShopTransactions';
 
 /**
  * Jetpack pickup component that allows players to collect jetpacks from the world
@@ -246,7 +247,7 @@ export class JetpackPickup extends hz.Component<typeof JetpackPickup> {
     console.log(`Player ${player.name.get()} picked up jetpack`);
 
     // Grant jetpack to player
-    hz.WorldInventory.grantItemToPlayer(
+    queueGrant(
       player, 
       this.props.jetpackSKU, 
       this.props.jetpackQuantity
@@ -1,68 +1,254 @@
 import * as hz from 'horizon/core';
 import { WorldInventory } from 'horizon/core';
+import { createOvenUpgradeLevels, OVEN_UPGRADE_TRACKS, OvenUpgradeLevels } from 'OvenUpgrades';
+import { queueGrant } from 'ShopTransactions';
+
+// A bake in progress, what it gives is settled when it starts so that it can finish while its owner is away
+export type OvenBake = {
+  id: string;
+  name?: string;
+  items: { sku: string, name?: string, quantity: number }[];
+  endsAt: number;
+  // Set while its pies are being given, so that a rejoining owner does not get them a second time
+  serving?: boolean;
+};
+
+export function createBakeId(): string {
+  return Date.now().toString(36) + Math.random().toString(36).slice(2, 8);
+}
 
 export const KitchenEvents = {
   SetOwner: new hz.LocalEvent<{ owner: hz.Player | undefined }>('SetOwner'),
-  SetOvenOwner: new hz.LocalEvent<{ owner: hz.Player | undefined, purchased: boolean }>('SetOvenOwner'),
+  // index is the position of the oven in its kitchen, upgrades are its owner's upgrade levels for it and bake the one to resume
+  SetOvenOwner: new hz.LocalEvent<{ owner: hz.Player | undefined, purchased: boolean, kitchen?: hz.Entity, index?: number, upgrades?: OvenUpgradeLevels, bake?: OvenBake }>('SetOvenOwner'),
+  // Sent by an oven to its kitchen once its owner bought an upgrade
+  OvenUpgraded: new hz.LocalEvent<{ owner: hz.Player, index: number, upgrades: OvenUpgradeLevels }>('OvenUpgraded'),
+  // Sent by an oven to its kitchen when a bake starts or its pies start being served, and with a null bake when it is done
+  OvenBakeChanged: new hz.LocalEvent<{ owner: hz.Player, index: number, bake: OvenBake | null }>('OvenBakeChanged'),
+  // Sent to a returning owner with what their ovens baked while they were away
+  welcomeBack: new hz.NetworkEvent<{ player: hz.Player, message: string }>('kitchenWelcomeBack'),
+  // Broadcast whenever the tier of a player's kitchen changes, 0 once they no longer own one
+  tierChanged: new hz.NetworkEvent<{ player: hz.Player, tier: number }>('kitchenTierChanged'),
 }
 
+// Saved in the kitchen's player persistent variable, one entry per oven index
+type KitchenUpgradesSnapshot = {
+  ovens: OvenUpgradeLevels[];
+};
+
+// Saved in the kitchen's player persistent variable, leftAt being the last time the owner was known to be around
+type KitchenBakesSnapshot = {
+  leftAt: number;
+  bakes: (OvenBake | null)[];
+};
+
+// Lets the owner's toast UI become theirs before the welcome back message is sent
+const WELCOME_BACK_DELAY_MS = 3000;
+
 class Kitchen extends hz.Component<typeof Kitchen> {
   static propsDefinition = {
     oven1: {type: hz.PropTypes.Entity},
     oven2: {type: hz.PropTypes.Entity},
     oven3: {type: hz.PropTypes.Entity},
     oven4: {type: hz.PropTypes.Entity},
+    // Descendants of the kitchen with this tag are ovens too, after oven1 to oven4 and sorted by name
+    ovenTag: {type: hz.PropTypes.String, default: "oven"},
     ovenSku: {type: hz.PropTypes.String},
     kitchenTxtInternal: {type: hz.PropTypes.Entity},
-    kitchenTxtExternal: {type: hz.PropTypes.Entity}
+    kitchenTxtExternal: {type: hz.PropTypes.Entity},
+    // Player persistent variable keeping the oven upgrades, it can be shared by every kitchen. Not persisted when empty.
+    upgradesVariableKey: {type: hz.PropTypes.String, default: ""},
+    // Player persistent variable keeping the bakes in progress, so they finish while the owner is away. Lost on exit when empty.
+    // Every kitchen must share it: once the rejoin grace period runs out, a returning owner may get another kitchen.
+    bakesVariableKey: {type: hz.PropTypes.String, default: ""},
+    // How much time away counts towards the bakes, 0 for no limit
+    maxOfflineMinutes: {type: hz.PropTypes.Number, default: 0},
   };
 
   private ovens: hz.Entity[] = [];
+  private owner: hz.Player | undefined = undefined;
+  private upgrades: OvenUpgradeLevels[] = [];
+  private bakes: (OvenBake | null)[] = [];
 
   preStart(): void {
     this.connectLocalEvent(this.entity, KitchenEvents.SetOwner, ({owner}) => {
       this.setKitchenOwner(owner);
     });
+
+    this.connectLocalEvent(this.entity, KitchenEvents.OvenUpgraded, ({owner, index, upgrades}) => {
+      if (owner !== this.owner) return;
+      this.upgrades[index] = upgrades;
+      this.saveUpgrades(owner);
+      this.updateKitchenText(owner);
+    });
+
+    this.connectLocalEvent(this.entity, KitchenEvents.OvenBakeChanged, ({owner, index, bake}) => {
+      if (owner === this.owner) {
+        this.bakes[index] = bake;
+        this.saveBakes(owner);
+      } else {
+        // Its pies were given, or could not be, after the owner left: saved for when they are back
+        this.saveBakeOf(owner, index, bake);
+      }
+    });
   }
 
   start() {
+    this.ovens = this.findOvens();
     this.setKitchenOwner(undefined);
-    if (this.props.oven1 !== undefined && this.props.oven2 !== undefined && this.props.oven3 !== undefined && this.props.oven4 !== undefined) {
-      this.ovens = [this.props.oven1, this.props.oven2, this.props.oven3, this.props.oven4];
+  }
+
+  private findOvens(): hz.Entity[] {
+    const ovens = [this.props.oven1, this.props.oven2, this.props.oven3, this.props.oven4]
+      .filter((oven): oven is hz.Entity => oven !== undefined && oven !== null);
+
+    if (this.props.ovenTag) {
+      const tagged: hz.Entity[] = [];
+      const visit = (entity: hz.Entity) => {
+        for (const child of entity.children.get()) {
+          if (child.tags.contains(this.props.ovenTag) && !ovens.includes(child)) {
+            tagged.push(child);
+          }
+          visit(child);
+        }
+      };
+      visit(this.entity);
+      tagged.sort((a, b) => a.name.get().localeCompare(b.name.get()));
+      ovens.push(...tagged);
+    }
+    return ovens;
+  }
+
+  private loadUpgrades(owner: hz.Player): OvenUpgradeLevels[] {
+    let saved: KitchenUpgradesSnapshot | null = null;
+    if (this.props.upgradesVariableKey && this.world.persistentStorage) {
+      saved = this.world.persistentStorage.getPlayerVariable<KitchenUpgradesSnapshot>(owner, this.props.upgradesVariableKey);
+    }
+    return this.ovens.map((_, index) => {
+      const levels = createOvenUpgradeLevels();
+      const entry = Array.isArray(saved?.ovens) ? saved!.ovens[index] : undefined;
+      for (const track of OVEN_UPGRADE_TRACKS) {
+        if (typeof entry?.[track] === 'number' && entry[track] >= 0) {
+          levels[track] = Math.floor(entry[track]);
+        }
+      }
+      return levels;
+    });
+  }
+
+  private saveUpgrades(owner: hz.Player) {
+    if (!this.props.upgradesVariableKey || !this.world.persistentStorage) return;
+    this.world.persistentStorage.setPlayerVariable<KitchenUpgradesSnapshot>(owner, this.props.upgradesVariableKey, { ovens: this.upgrades });
+  }
+
+  // Bakes of the owner, pushed back by the time away past maxOfflineMinutes
+  private loadBakes(owner: hz.Player): (OvenBake | null)[] {
+    if (!this.props.bakesVariableKey || !this.world.persistentStorage) {
+      return this.ovens.map(() => null);
+    }
+    const saved = this.world.persistentStorage.getPlayerVariable<KitchenBakesSnapshot>(owner, this.props.bakesVariableKey);
+    const away = typeof saved?.leftAt === 'number' ? Math.max(0, Date.now() - saved.leftAt) : 0;
+    const maxOfflineMs = this.props.maxOfflineMinutes * 60 * 1000;
+    const paused = maxOfflineMs > 0 ? Math.max(0, away - maxOfflineMs) : 0;
+
+    return this.ovens.map((_, index) => {
+      const bake = Array.isArray(saved?.bakes) ? saved!.bakes[index] : null;
+      if (!bake || typeof bake.endsAt !== 'number' || !Array.isArray(bake.items)) {
+        return null;
+      }
+      // Bakes saved before they had ids get one
+      return { id: bake.id ?? createBakeId(), name: bake.name, items: bake.items, endsAt: bake.endsAt + paused, serving: bake.serving === true };
+    });
+  }
+
+  private saveBakes(owner: hz.Player) {
+    if (!this.props.bakesVariableKey || !this.world.persistentStorage) return;
+    this.world.persistentStorage.setPlayerVariable<KitchenBakesSnapshot>(owner, this.props.bakesVariableKey, { leftAt: Date.now(), bakes: this.bakes });
+  }
+
+  private saveBakeOf(owner: hz.Player, index: number, bake: OvenBake | null) {
+    if (!this.props.bakesVariableKey || !this.world.persistentStorage) return;
+    const saved = this.world.persistentStorage.getPlayerVariable<KitchenBakesSnapshot>(owner, this.props.bakesVariableKey);
+    if (!Array.isArray(saved?.bakes) || !saved!.bakes[index]) return;
+    const bakes = saved!.bakes.map((entry, i) => i === index ? bake : entry);
+    this.world.persistentStorage.setPlayerVariable<KitchenBakesSnapshot>(owner, this.props.bakesVariableKey, { leftAt: saved!.leftAt, bakes });
+  }
+
+  private sendWelcomeBack(owner: hz.Player) {
+    const now = Date.now();
+    const baked = new Map<string, number>();
+    for (const bake of this.bakes) {
+      if (bake === null || bake.endsAt > now) continue;
+      for (const item of bake.items) {
+        const name = item.name ?? item.sku;
+        baked.set(name, (baked.get(name) ?? 0) + item.quantity);
+      }
+    }
+    if (baked.size === 0) return;
+
+    const message = "Welcome back! While you were away your ovens baked " + Array.from(baked, ([name, quantity]) => quantity + "x " + name).join(", ");
+    this.async.setTimeout(() => {
+      if (this.owner !== owner) return;
+      this.sendNetworkEvent(owner, KitchenEvents.welcomeBack, { player: owner, message });
+    }, WELCOME_BACK_DELAY_MS);
+  }
+
+  // The tier grows with every upgrade bought in the kitchen
+  private getTier(): number {
+    return 1 + this.upgrades.reduce((total, levels) => total + OVEN_UPGRADE_TRACKS.reduce((sum, track) => sum + levels[track], 0), 0);
+  }
+
+  private updateKitchenText(owner: hz.Player) {
+    const tier = this.getTier();
+    this.sendNetworkBroadcastEvent(KitchenEvents.tierChanged, { player: owner, tier });
+    const text = owner.name.get() + " Kitchen · Tier " + tier;
+    if (this.props.kitchenTxtInternal !== undefined) {
+      this.props.kitchenTxtInternal.visible.set(true);
+      this.props.kitchenTxtInternal.as(hz.TextGizmo).text.set(text);
+    }
+    if (this.props.kitchenTxtExternal !== undefined) {
+      this.props.kitchenTxtExternal.visible.set(true);
+      this.props.kitchenTxtExternal.as(hz.TextGizmo).text.set(text);
     }
   }
 
   setKitchenOwner(owner: hz.Player | undefined){
+    if (this.owner !== undefined && this.owner !== owner) {
+      // Remembers when the owner left, the ovens keep their bakes
+      this.saveBakes(this.owner);
+      this.sendNetworkBroadcastEvent(KitchenEvents.tierChanged, { player: this.owner, tier: 0 });
+    }
+    this.owner = owner;
     if (owner !== undefined) {
 
       this.entity.visible.set(true);
       this.entity.collidable.set(true);
+      this.upgrades = this.loadUpgrades(owner);
+      this.bakes = this.loadBakes(owner);
+      this.sendWelcomeBack(owner);
+      this.saveBakes(owner);
       WorldInventory.getPlayerEntitlementQuantity(owner, this.props.ovenSku).then((quantity) => {
         if (quantity == 0) {
           if (this.ovens.length > 0) {
-            WorldInventory.grantItemToPlayer(owner, this.props.ovenSku, 1);
-            this.sendLocalEvent(this.ovens[0], KitchenEvents.SetOvenOwner, {owner, purchased: true});
+            queueGrant(owner, this.props.ovenSku, 1);
+            this.sendLocalEvent(this.ovens[0], KitchenEvents.SetOvenOwner, {owner, purchased: true, kitchen: this.entity, index: 0, upgrades: this.upgrades[0]});
           }
         } else {
           for(let i = 0; i < this.ovens.length; i++) {
 
             const purchased = i < quantity;
-            this.sendLocalEvent(this.ovens[i], KitchenEvents.SetOvenOwner, {owner, purchased});
+            const bake = purchased ? this.bakes[i] ?? undefined : undefined;
+            this.sendLocalEvent(this.ovens[i], KitchenEvents.SetOvenOwner, {owner, purchased, kitchen: this.entity, index: i, upgrades: this.upgrades[i], bake});
           }
         }
 
       });
-      if (this.props.kitchenTxtInternal !== undefined) {
-        this.props.kitchenTxtInternal.visible.set(true);
-        this.props.kitchenTxtInternal.as(hz.TextGizmo).text.set(owner.name.get() + " Kitchen");
-      }
-      if (this.props.kitchenTxtExternal !== undefined) {
-        this.props.kitchenTxtExternal.visible.set(true);
-        this.props.kitchenTxtExternal.as(hz.TextGizmo).text.set(owner.name.get() + " Kitchen");
-      }
+      this.updateKitchenText(owner);
     } else {
+      this.upgrades = [];
+      this.bakes = [];
       this.ovens.forEach((oven) => {
-        this.sendLocalEvent(oven, KitchenEvents.SetOwner, {owner: undefined});
+        this.sendLocalEvent(oven, KitchenEvents.SetOvenOwner, {owner: undefined, purchased: false});
       });
       this.entity.visible.set(false);
       this.entity.collidable.set(false);
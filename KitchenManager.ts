@@ -1,67 +1,152 @@
 import * as hz from 'horizon/core';
+import { AvatarAIAgent } from 'horizon/avatar_ai_agent';
 import { KitchenEvents } from 'Kitchen';
 
+export const KitchenManagerEvents = {
+  // Sent to a player left without a kitchen, position being their place in line starting at 1
+  waitingForKitchen: new hz.NetworkEvent<{ player: hz.Player, position: number }>('waitingForKitchen'),
+}
+
+// A kitchen kept for a player who left, until they rejoin or the grace period runs out
+type KitchenReservation = {
+  kitchen: hz.Entity;
+  timeoutId: number;
+};
+
 class KitchenManager extends hz.Component<typeof KitchenManager> {
   static propsDefinition = {
     kitchen1: {type: hz.PropTypes.Entity},
     kitchen2: {type: hz.PropTypes.Entity},
     kitchen3: {type: hz.PropTypes.Entity},
     kitchen4: {type: hz.PropTypes.Entity},
+    kitchens: {type: hz.PropTypes.EntityArray, default: []},
+    // Entities in the world with this tag are kitchens too, sorted by name
+    kitchenTag: {type: hz.PropTypes.String, default: "kitchen"},
+    // How long a kitchen stays reserved for a player who left, 0 to free it right away
+    rejoinGraceSeconds: {type: hz.PropTypes.Number, default: 120},
   };
 
   private kitchens: hz.Entity[] = [];
-  private kitchenAssignmentAttempts: number = 0;
-  private maxKitchenAssignmentAttempts: number = 5;
+  private owners: Map<hz.Entity, hz.Player> = new Map();
+  // Keyed by player name, the Player of a rejoining player is a new one
+  private reservations: Map<string, KitchenReservation> = new Map();
+  private waiting: hz.Player[] = [];
 
   preStart(): void {
     this.connectCodeBlockEvent(this.entity, hz.CodeBlockEvents.OnPlayerEnterWorld, (player: hz.Player) => {
-      console.log("Player entered world");
-      if (player.name.get() !== "Trader") {
-        this.getPlayerKitchen(player);
+      // NPCs such as the Trader join as players, they do not get a kitchen
+      if (AvatarAIAgent.getGizmoFromPlayer(player) !== undefined) {
+        return;
       }
-
+      this.assignKitchen(player);
     });
     this.connectCodeBlockEvent(this.entity, hz.CodeBlockEvents.OnPlayerExitWorld, (player: hz.Player) => {
-      if (this.kitchens.length > player.index.get()) {
-        const kitchen = this.kitchens[player.index.get()];
-        this.sendLocalEvent(kitchen, KitchenEvents.SetOwner, {owner: undefined});
-      }
+      this.releaseKitchen(player);
     });
   }
 
   start() {
+    this.populateKitchens();
   }
 
-  getPlayerKitchen(player: hz.Player) {
-    if (this.kitchens.length > player.index.get()) {
-      console.log("Assigning kitchen");
-      const kitchen = this.kitchens[player.index.get()];
-      this.sendLocalEvent(kitchen, KitchenEvents.SetOwner, {owner: player});
-    } else {
-      this.populateKitchens();
-      this.async.setTimeout(() => {
-        console.log("Not enough kitchens. Retrying...");
-        if (this.kitchenAssignmentAttempts < this.maxKitchenAssignmentAttempts) {
-          this.kitchenAssignmentAttempts ++;
-          this.getPlayerKitchen(player);
-        }
-
-      }, 1000)
+  assignKitchen(player: hz.Player) {
+    this.populateKitchens();
+    const name = player.name.get();
+
+    const reservation = this.reservations.get(name);
+    if (reservation !== undefined) {
+      this.async.clearTimeout(reservation.timeoutId);
+      this.reservations.delete(name);
+      console.log(`[KitchenManager] Giving ${name} their kitchen back`);
+      this.setOwner(reservation.kitchen, player);
+      return;
+    }
+
+    const kitchen = this.kitchens.find((kitchen) => this.isFree(kitchen));
+    if (kitchen !== undefined) {
+      console.log(`[KitchenManager] Assigning ${kitchen.name.get()} to ${name}`);
+      this.setOwner(kitchen, player);
+      return;
     }
+
+    if (!this.waiting.includes(player)) {
+      this.waiting.push(player);
+    }
+    console.log(`[KitchenManager] No kitchen free for ${name}, ${this.waiting.length} waiting`);
+    this.notifyWaiting();
   }
 
-  populateKitchens(){
-    if (this.props.kitchen1 !== undefined && this.kitchens.indexOf(this.props.kitchen1) === -1) {
-      this.kitchens.push(this.props.kitchen1);
+  releaseKitchen(player: hz.Player) {
+    const waitingIndex = this.waiting.indexOf(player);
+    if (waitingIndex !== -1) {
+      this.waiting.splice(waitingIndex, 1);
+      this.notifyWaiting();
+      return;
+    }
+
+    const kitchen = Array.from(this.owners.keys()).find((kitchen) => this.owners.get(kitchen) === player);
+    if (kitchen === undefined) {
+      return;
+    }
+    this.owners.delete(kitchen);
+    this.sendLocalEvent(kitchen, KitchenEvents.SetOwner, {owner: undefined});
+
+    if (this.props.rejoinGraceSeconds <= 0) {
+      this.assignToWaiting();
+      return;
+    }
+
+    const name = player.name.get();
+    const timeoutId = this.async.setTimeout(() => {
+      this.reservations.delete(name);
+      this.assignToWaiting();
+    }, this.props.rejoinGraceSeconds * 1000);
+    this.reservations.set(name, {kitchen, timeoutId});
+  }
+
+  private setOwner(kitchen: hz.Entity, player: hz.Player) {
+    this.owners.set(kitchen, player);
+    this.sendLocalEvent(kitchen, KitchenEvents.SetOwner, {owner: player});
+  }
+
+  private isFree(kitchen: hz.Entity): boolean {
+    if (this.owners.has(kitchen)) {
+      return false;
+    }
+    for (const reservation of this.reservations.values()) {
+      if (reservation.kitchen === kitchen) {
+        return false;
+      }
     }
-    if (this.props.kitchen2 !== undefined && this.kitchens.indexOf(this.props.kitchen2) === -1) {
-      this.kitchens.push(this.props.kitchen2);
+    return true;
+  }
+
+  // Hands the kitchen just freed to the player waiting the longest
+  private assignToWaiting() {
+    const player = this.waiting.shift();
+    if (player !== undefined) {
+      this.assignKitchen(player);
+      this.notifyWaiting();
     }
-    if (this.props.kitchen3 !== undefined && this.kitchens.indexOf(this.props.kitchen3) === -1) {
-      this.kitchens.push(this.props.kitchen3);
+  }
+
+  private notifyWaiting() {
+    this.waiting.forEach((player, index) => {
+      this.sendNetworkEvent(player, KitchenManagerEvents.waitingForKitchen, {player, position: index + 1});
+    });
+  }
+
+  populateKitchens(){
+    const candidates: (hz.Entity | undefined)[] = [this.props.kitchen1, this.props.kitchen2, this.props.kitchen3, this.props.kitchen4, ...this.props.kitchens];
+    if (this.props.kitchenTag) {
+      const tagged = this.world.getEntitiesWithTags([this.props.kitchenTag]);
+      tagged.sort((a, b) => a.name.get().localeCompare(b.name.get()));
+      candidates.push(...tagged);
     }
-    if (this.props.kitchen4 !== undefined && this.kitchens.indexOf(this.props.kitchen4) === -1) {
-      this.kitchens.push(this.props.kitchen4);
+    for (const kitchen of candidates) {
+      if (kitchen !== undefined && kitchen !== null && this.kitchens.indexOf(kitchen) === -1) {
+        this.kitchens.push(kitchen);
+      }
     }
   }
 }
@@ -1,6 +1,7 @@
 import * as hz from "horizon/core";
 import { InventoryEvents } from "./inventory";
 import { ProgressionSystem } from "./ProgressionSystem";
+import { queueGrant } from "./ShopTransactions";
 
 export class OrbConsumptionHandler extends hz.Component<typeof OrbConsumptionHandler> {
   static propsDefinition = {
@@ -23,7 +24,7 @@ export class OrbConsumptionHandler extends hz.Component<typeof OrbConsumptionHan
       
       if (currentOrbCount > 0) {
         // Consume one orb
-        await hz.WorldInventory.grantItemToPlayer(player, "orb2_c95bbf14", -1);
+        await queueGrant(player, "orb2_c95bbf14", -1);
         
         // Grant XP to the player
         this.grantOrbXP(player);
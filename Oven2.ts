@@ -1,22 +1,65 @@
 import * as hz from 'horizon/core';
 import { WorldInventory } from 'horizon/core';
-import { KitchenEvents } from 'Kitchen';
+import { createBakeId, KitchenEvents, OvenBake } from 'Kitchen';
+import { createDefaultOvenUpgrades, createOvenUpgradeLevels, getNextOvenUpgrade, getOvenUpgradeValue, OVEN_UPGRADE_TRACKS, OvenUpgradeConfig, OvenUpgradeLevels, OvenUpgradeTrack, parseOvenUpgrades } from 'OvenUpgrades';
+import { describeIngredients, parsePieRecipes, PieRecipe } from 'PieRecipes';
 import { PurchaseableItem, PurchaseableItemEvents } from 'PurchaseableItem';
+import { executeSteps, giveItems, ItemStep, queueTransaction, takeItems } from 'ShopTransactions';
+
+const UPGRADE_NAMES: { [track in OvenUpgradeTrack]: string } = {
+  speed: "Faster Bake",
+  batch: "Bigger Batch",
+  rare: "Rare Pie Chance",
+};
+
+// Wait before granting the pies of a finished bake again when it could not be verified
+const SERVE_RETRY_DELAY_MS = 5000;
+
+// Bakes whose pies this server is giving, by id
+const servingBakeIds = new Set<string>();
 
 class Oven extends PurchaseableItem<typeof Oven> {
   static propsDefinition = {
     ...PurchaseableItem.propsDefinition,
     ovenMesh: {type: hz.PropTypes.Entity},
+    // The recipes the oven bakes, see parsePieRecipes. The asset takes precedence over the JSON string.
+    recipesAsset: {type: hz.PropTypes.Asset},
+    recipesJson: {type: hz.PropTypes.String, default: ""},
+    // Entering it switches to the next recipe
+    recipeTrigger: {type: hz.PropTypes.Entity},
+    // The single recipe baked when there is no recipe list
     piePriceSKU: {type: hz.PropTypes.String},
+    piePriceName: {type: hz.PropTypes.String, default: "Apples"},
     piePriceAmount: {type: hz.PropTypes.Number, default: 1},
     pieSKU: {type: hz.PropTypes.String},
+    pieName: {type: hz.PropTypes.String, default: "Apple Pie"},
     pieAmount: {type: hz.PropTypes.Number, default: 1},
     pieBakeDuration: {type: hz.PropTypes.Number, default: 15},
+    rarePieSKU: {type: hz.PropTypes.String},
+    rarePieName: {type: hz.PropTypes.String, default: "Rare Pie"},
+    gemSKU: {type: hz.PropTypes.String},
+    // Upgrade tiers per track, see parseOvenUpgrades. The defaults are used when empty.
+    upgradesJson: {type: hz.PropTypes.String, default: ""},
+    speedUpgradeTrigger: {type: hz.PropTypes.Entity},
+    batchUpgradeTrigger: {type: hz.PropTypes.Entity},
+    rareUpgradeTrigger: {type: hz.PropTypes.Entity},
+    upgradeTxt: {type: hz.PropTypes.Entity},
   };
 
   private owner: hz.Player | undefined = undefined;
   private purchased: boolean = false;
-  private bakeRemaining: number = -1;
+  private bake: OvenBake | undefined = undefined;
+  // Set while the ingredients of a bake are being taken
+  private startingBake: boolean = false;
+
+  private recipes: PieRecipe[] = [];
+  private recipeIndex: number = 0;
+
+  private kitchen: hz.Entity | undefined = undefined;
+  private index: number = 0;
+  private upgradeConfig: OvenUpgradeConfig = createDefaultOvenUpgrades();
+  private upgrades: OvenUpgradeLevels = createOvenUpgradeLevels();
+  private upgrading: boolean = false;
 
   private bakeIntervalDelayS: number = 0.1;
   private bakeIntervalId: number = -1;
@@ -30,9 +73,44 @@ class Oven extends PurchaseableItem<typeof Oven> {
       });
     }
 
-    this.connectLocalEvent(this.entity, KitchenEvents.SetOvenOwner, ({owner, purchased}) => {
+    this.loadRecipes();
+
+    if (this.props.recipeTrigger !== undefined && this.props.recipeTrigger !== null) {
+      this.connectCodeBlockEvent(this.props.recipeTrigger, hz.CodeBlockEvents.OnPlayerEnterTrigger, (player: hz.Player) => {
+        this.selectNextRecipe(player);
+      });
+    }
+
+    if (this.props.upgradesJson) {
+      try {
+        this.upgradeConfig = parseOvenUpgrades(JSON.parse(this.props.upgradesJson));
+      } catch (error) {
+        console.error(`[Oven] Invalid upgradesJson on ${this.entity.name.get()}, using the default upgrades: ${error}`);
+      }
+    }
+
+    const upgradeTriggers: [hz.Entity | undefined, OvenUpgradeTrack][] = [
+      [this.props.speedUpgradeTrigger, 'speed'],
+      [this.props.batchUpgradeTrigger, 'batch'],
+      [this.props.rareUpgradeTrigger, 'rare'],
+    ];
+    for (const [trigger, track] of upgradeTriggers) {
+      if (trigger !== undefined && trigger !== null) {
+        this.connectCodeBlockEvent(trigger, hz.CodeBlockEvents.OnPlayerEnterTrigger, (player: hz.Player) => {
+          this.attemptUpgrade(player, track);
+        });
+      }
+    }
+
+    this.connectLocalEvent(this.entity, KitchenEvents.SetOvenOwner, ({owner, purchased, kitchen, index, upgrades, bake}) => {
+      this.kitchen = kitchen;
+      this.index = index ?? 0;
+      this.upgrades = upgrades ? { ...upgrades } : createOvenUpgradeLevels();
       this.setOwner(owner);
       this.setPurchased(purchased);
+      if (bake !== undefined && this.owner === owner) {
+        this.resumeBake(bake);
+      }
     });
   }
 
@@ -40,13 +118,63 @@ class Oven extends PurchaseableItem<typeof Oven> {
     super.start();
   }
 
+  private async loadRecipes() {
+    this.recipes = [{
+      id: "default",
+      name: this.props.pieName,
+      inputs: [{ sku: this.props.piePriceSKU, name: this.props.piePriceName, quantity: this.props.piePriceAmount }],
+      output: { sku: this.props.pieSKU, name: this.props.pieName, quantity: this.props.pieAmount },
+      bakeSeconds: this.props.pieBakeDuration,
+      sellValue: 0
+    }];
+
+    try {
+      let raw: unknown = null;
+      if (this.props.recipesAsset) {
+        raw = (await this.props.recipesAsset.fetchAsData()).asJSON();
+      } else if (this.props.recipesJson) {
+        raw = JSON.parse(this.props.recipesJson);
+      }
+      if (raw !== null) {
+        this.recipes = parsePieRecipes(raw);
+        this.recipeIndex = 0;
+        if (this.purchased && this.bake === undefined) {
+          this.updateText(this.getBakeText());
+        }
+      }
+    } catch (error) {
+      console.error(`[Oven] Invalid recipes on ${this.entity.name.get()}, baking ${this.props.pieName} only: ${error}`);
+    }
+  }
+
+  private getRecipe(): PieRecipe {
+    return this.recipes[this.recipeIndex % this.recipes.length];
+  }
+
+  private getBakeText(): string {
+    const recipe = this.getRecipe();
+    return "Bake " + recipe.name + ": " + describeIngredients(recipe);
+  }
+
+  selectNextRecipe(player: hz.Player) {
+    if (this.owner !== player || !this.purchased || this.bake !== undefined || this.startingBake || this.recipes.length < 2) {
+      return;
+    }
+    this.recipeIndex = (this.recipeIndex + 1) % this.recipes.length;
+    this.updateText(this.getBakeText());
+  }
+
   reset(){
     this.setPurchased(false);
-    if (this.bakeRemaining > 0){
+    // A bake in progress is kept by the kitchen and resumed when its owner is back
+    if (this.bake !== undefined){
       this.async.clearInterval(this.bakeIntervalId);
       this.bakeIntervalId = -1;
-      this.bakeRemaining = -1;
+      this.bake = undefined;
     }
+    this.upgrades = createOvenUpgradeLevels();
+    this.recipeIndex = 0;
+    this.updateUpgradeText();
     this.clearOwner();
   }
 
@@ -87,54 +215,227 @@ class Oven extends PurchaseableItem<typeof Oven> {
     }
 
     if (purchased) {
-      this.updateText("Bake Apple Pie: " + this.props.piePriceAmount + " Apples");
+      this.updateText(this.getBakeText());
+    }
+    this.updateUpgradeText();
+  }
+
+  attemptUpgrade(player: hz.Player, track: OvenUpgradeTrack) {
+    if (this.owner !== player || !this.purchased || this.upgrading || !this.props.gemSKU) {
+      return;
+    }
+    const next = getNextOvenUpgrade(this.upgradeConfig, this.upgrades, track);
+    if (next === undefined) {
+      this.updateFailText(UPGRADE_NAMES[track] + " is fully upgraded");
+      return;
+    }
+
+    this.upgrading = true;
+    queueTransaction(player, async () => {
+      const gems = Number(await WorldInventory.getPlayerEntitlementQuantity(player, this.props.gemSKU));
+      if (gems < next.cost) {
+        return { success: false, shortfall: next.cost - gems };
+      }
+      return { success: next.cost <= 0 || await takeItems(this, player, this.props.gemSKU, next.cost, gems), shortfall: 0 };
+    }).then(({success, shortfall}) => {
+      this.upgrading = false;
+      if (this.owner !== player) {
+        // The kitchen changed hands while the gems were taken, they get them back
+        if (success && next.cost > 0) {
+          queueTransaction(player, () => giveItems(this, player, this.props.gemSKU, next.cost)).then((refunded) => {
+            if (!refunded) {
+              console.error(`[Oven] Could not give ${next.cost} gems back to ${player.name.get()} for an upgrade they left before`);
+            }
+          });
+        }
+        return;
+      }
+      if (!success) {
+        this.updateFailText(shortfall > 0 ? "Not enough gems. " + shortfall + " more needed!" : "Upgrade failed, please try again");
+        return;
+      }
+
+      this.upgrades[track]++;
+      this.sendNetworkBroadcastEvent(PurchaseableItemEvents.OnConsumeItem, { player: player, itemSKU: this.props.gemSKU, itemAmount: next.cost });
+      if (this.kitchen !== undefined) {
+        this.sendLocalEvent(this.kitchen, KitchenEvents.OvenUpgraded, { owner: player, index: this.index, upgrades: { ...this.upgrades } });
+      }
+      this.updateUpgradeText();
+    });
+  }
+
+  updateUpgradeText() {
+    if (this.props.upgradeTxt === undefined || this.props.upgradeTxt === null) {
+      return;
+    }
+    const text = this.props.upgradeTxt.as(hz.TextGizmo);
+    text.visible.set(this.purchased);
+    if (!this.purchased) {
+      return;
     }
+
+    const lines = OVEN_UPGRADE_TRACKS.map((track) => {
+      const next = getNextOvenUpgrade(this.upgradeConfig, this.upgrades, track);
+      const level = UPGRADE_NAMES[track] + " Lv" + (this.upgrades[track] + 1);
+      return next === undefined ? level + " (max)" : level + " (next: " + next.cost + " gems)";
+    });
+    text.text.set(lines.join("\n"));
   }
 
   attemptPieBake(){
-    if (this.owner === undefined || this.bakeRemaining > 0) {
+    if (this.owner === undefined || this.bake !== undefined || this.startingBake) {
       return;
     }
     const owner: hz.Player = this.owner;
-    WorldInventory.getPlayerEntitlementQuantity(owner, this.props.piePriceSKU).then((quantity) => {
-      if (quantity >= this.props.piePriceAmount) {
-        WorldInventory.consumeItemForPlayer(owner, this.props.piePriceSKU, this.props.piePriceAmount);
-        this.sendNetworkBroadcastEvent(PurchaseableItemEvents.OnConsumeItem, { player: owner, itemSKU: this.props.piePriceSKU, itemAmount: this.props.piePriceAmount });
-        this.startBakingPie();
-      } else {
+    const recipe = this.getRecipe();
 
-        const shortfall = this.props.piePriceAmount - Number(quantity);
-        this.updateFailText("Not enough apples. " + shortfall + " more needed!");
+    // Every ingredient is taken or none is
+    this.startingBake = true;
+    queueTransaction(owner, async () => {
+      const steps: ItemStep[] = [];
+      for (const input of recipe.inputs) {
+        const quantity = Number(await WorldInventory.getPlayerEntitlementQuantity(owner, input.sku));
+        if (quantity < input.quantity) {
+          return "Not enough " + input.name + ". " + (input.quantity - quantity) + " more needed!";
+        }
+        steps.push({ player: owner, sku: input.sku, quantity: input.quantity, give: false });
       }
-    })
+      return await executeSteps(this, steps) ? "" : "Could not bake " + recipe.name + ", please try again";
+    }).then((failure) => {
+      this.startingBake = false;
+      if (failure) {
+        this.updateFailText(failure);
+        return;
+      }
+
+      for (const input of recipe.inputs) {
+        this.sendNetworkBroadcastEvent(PurchaseableItemEvents.OnConsumeItem, { player: owner, itemSKU: input.sku, itemAmount: input.quantity });
+      }
+      if (this.owner !== owner) {
+        // The owner left while the ingredients were taken, they get them back
+        queueTransaction(owner, () => executeSteps(this, recipe.inputs.map((input) => ({ player: owner, sku: input.sku, quantity: input.quantity, give: true }))));
+        return;
+      }
+      this.startBakingPie(recipe);
+    });
   }
 
-  startBakingPie(){
-    this.bakeRemaining = this.props.pieBakeDuration;
+  startBakingPie(recipe: PieRecipe){
+    if (this.owner === undefined) {
+      return;
+    }
+
+    // The pies, and whether a rare one comes along, are settled now so the bake can finish offline
+    const items = [{ sku: recipe.output.sku, name: recipe.output.name, quantity: Math.floor(recipe.output.quantity * getOvenUpgradeValue(this.upgradeConfig, this.upgrades, 'batch')) }];
+    if (this.props.rarePieSKU && Math.random() < getOvenUpgradeValue(this.upgradeConfig, this.upgrades, 'rare')) {
+      items.push({ sku: this.props.rarePieSKU, name: this.props.rarePieName, quantity: 1 });
+    }
+    const duration = recipe.bakeSeconds * getOvenUpgradeValue(this.upgradeConfig, this.upgrades, 'speed');
+    const bake: OvenBake = { id: createBakeId(), name: recipe.name, items, endsAt: Date.now() + duration * 1000 };
+
+    if (this.kitchen !== undefined) {
+      this.sendLocalEvent(this.kitchen, KitchenEvents.OvenBakeChanged, { owner: this.owner, index: this.index, bake });
+    }
+    this.resumeBake(bake);
+  }
+
+  resumeBake(bake: OvenBake) {
+    if (this.bakeIntervalId !== -1) {
+      this.async.clearInterval(this.bakeIntervalId);
+    }
+    this.bake = bake;
     this.bakeIntervalId = this.async.setInterval(() => {
-      this.bakeUpdate(this.bakeIntervalDelayS);
+      this.bakeUpdate();
     }, this.bakeIntervalDelayS * 1000);
+    this.bakeUpdate();
   }
 
-  bakeUpdate(deltaTime: number) {
-    this.bakeRemaining -= deltaTime;
-    this.updateText("Baking Apple Pie: " + this.bakeRemaining.toFixed(1) + "s");
-    if (this.bakeRemaining <= 0) {
+  bakeUpdate() {
+    if (this.bake === undefined) {
+      return;
+    }
+    const remaining = Math.max(0, (this.bake.endsAt - Date.now()) / 1000);
+    this.updateText("Baking " + (this.bake.name ?? this.getRecipe().name) + ": " + remaining.toFixed(1) + "s");
+    if (remaining <= 0) {
       this.async.clearInterval(this.bakeIntervalId);
       this.bakeIntervalId = -1;
       this.onPieBakeComplete();
     }
   }
 
-  onPieBakeComplete(){
-    if (this.owner === undefined) {
+  async onPieBakeComplete(){
+    const owner = this.owner;
+    const bake = this.bake;
+    const kitchen = this.kitchen;
+    const index = this.index;
+    if (owner === undefined || bake === undefined) {
+      this.bake = undefined;
       return;
     }
 
-    WorldInventory.grantItemToPlayer(this.owner, this.props.pieSKU, this.props.pieAmount);
-    this.sendNetworkBroadcastEvent(PurchaseableItemEvents.OnReceiveItem, { player: this.owner, itemSKU: this.props.pieSKU, itemAmount: this.props.pieAmount });
+    if (bake.serving) {
+      if (servingBakeIds.has(bake.id)) {
+        // Resumed for its rejoining owner while its pies are still being given, that grant finishes it
+        this.updateText("Serving " + (bake.name ?? this.getRecipe().name) + "...");
+        return;
+      }
+      // The server giving its pies went away meanwhile, they may have landed so they are not given twice
+      console.warn(`[Oven] The ${bake.name ?? "pies"} of ${owner.name.get()} were being served elsewhere, not serving them again`);
+      this.finishBake(bake, owner, index, kitchen);
+      return;
+    }
+
+    // The bake stays, in the oven and saved by the kitchen, until its pies show up in the owner's inventory
+    const serving: OvenBake = { ...bake, serving: true };
+    this.bake = serving;
+    servingBakeIds.add(bake.id);
+    if (kitchen !== undefined) {
+      this.sendLocalEvent(kitchen, KitchenEvents.OvenBakeChanged, { owner, index, bake: serving });
+    }
 
-    this.updateText("Bake Apple Pie: " + this.props.piePriceAmount + " Apples");
+    const steps: ItemStep[] = bake.items.map((item) => ({ player: owner, sku: item.sku, quantity: item.quantity, give: true }));
+    const granted = await queueTransaction(owner, () => executeSteps(this, steps));
+    servingBakeIds.delete(bake.id);
+    if (!granted) {
+      console.error(`[Oven] Could not give the ${bake.name ?? "pies"} of ${this.entity.name.get()} to ${owner.name.get()}, retrying`);
+      if (this.bake?.id !== bake.id) {
+        // The owner left, the bake is served when they are back
+        if (kitchen !== undefined) {
+          this.sendLocalEvent(kitchen, KitchenEvents.OvenBakeChanged, { owner, index, bake });
+        }
+        return;
+      }
+      this.bake = bake;
+      if (this.kitchen !== undefined && this.owner !== undefined) {
+        this.sendLocalEvent(this.kitchen, KitchenEvents.OvenBakeChanged, { owner: this.owner, index: this.index, bake });
+      }
+      this.updateText("Could not serve " + (bake.name ?? this.getRecipe().name) + ", retrying...");
+      this.async.setTimeout(() => {
+        if (this.bake === bake) {
+          this.onPieBakeComplete();
+        }
+      }, SERVE_RETRY_DELAY_MS);
+      return;
+    }
+
+    for (const item of bake.items) {
+      this.sendNetworkBroadcastEvent(PurchaseableItemEvents.OnReceiveItem, { player: owner, itemSKU: item.sku, itemAmount: item.quantity });
+    }
+    this.finishBake(bake, owner, index, kitchen);
+  }
+
+  // Clears a served bake, from the oven unless it changed hands meanwhile, and from the kitchen
+  private finishBake(bake: OvenBake, owner: hz.Player, index: number, kitchen: hz.Entity | undefined) {
+    if (this.bake?.id === bake.id && this.owner !== undefined) {
+      // Possibly resumed for its rejoining owner, who is a new Player
+      this.bake = undefined;
+      if (this.kitchen !== undefined) {
+        this.sendLocalEvent(this.kitchen, KitchenEvents.OvenBakeChanged, { owner: this.owner, index: this.index, bake: null });
+      }
+      this.updateText(this.getBakeText());
+    } else if (kitchen !== undefined) {
+      this.sendLocalEvent(kitchen, KitchenEvents.OvenBakeChanged, { owner, index, bake: null });
+    }
   }
 
 }
@@ -0,0 +1,73 @@
+// The three things an oven can be upgraded in
+export type OvenUpgradeTrack = 'speed' | 'batch' | 'rare';
+
+export const OVEN_UPGRADE_TRACKS: OvenUpgradeTrack[] = ['speed', 'batch', 'rare'];
+
+// Upgrade level of an oven in each track, 0 being the oven as bought
+export type OvenUpgradeLevels = { [track in OvenUpgradeTrack]: number };
+
+/**
+ * A level of a track, bought for `cost` gems. Its value is
+ *   speed: the factor applied to the bake duration
+ *   batch: the factor applied to the pies of a bake
+ *   rare: the chance for a bake to also give a rare pie
+ */
+export type OvenUpgradeTier = {
+  cost: number;
+  value: number;
+};
+
+export type OvenUpgradeConfig = { [track in OvenUpgradeTrack]: OvenUpgradeTier[] };
+
+export function createOvenUpgradeLevels(): OvenUpgradeLevels {
+  return { speed: 0, batch: 0, rare: 0 };
+}
+
+export function createDefaultOvenUpgrades(): OvenUpgradeConfig {
+  return {
+    speed: [{ cost: 0, value: 1 }, { cost: 10, value: 0.8 }, { cost: 25, value: 0.6 }, { cost: 60, value: 0.4 }],
+    batch: [{ cost: 0, value: 1 }, { cost: 15, value: 2 }, { cost: 40, value: 3 }, { cost: 100, value: 4 }],
+    rare: [{ cost: 0, value: 0 }, { cost: 20, value: 0.05 }, { cost: 50, value: 0.1 }, { cost: 120, value: 0.2 }],
+  };
+}
+
+/**
+ * Parses and validates an upgrade config, e.g.
+ *   {"speed": [{"cost": 0, "value": 1}, {"cost": 10, "value": 0.8}],
+ *    "rare": [{"cost": 0, "value": 0}, {"cost": 30, "value": 0.1}]}
+ * The first tier of a track is the oven as bought, a track left out keeps its default tiers.
+ */
+export function parseOvenUpgrades(raw: any): OvenUpgradeConfig {
+  if (!raw || typeof raw !== 'object') {
+    throw Error('Oven upgrades must be an object keyed by track.');
+  }
+
+  const config = createDefaultOvenUpgrades();
+  for (const track of OVEN_UPGRADE_TRACKS) {
+    if (raw[track] === undefined) continue;
+    if (!Array.isArray(raw[track]) || raw[track].length === 0) {
+      throw Error(`Oven upgrade track "${track}" needs a non-empty list of tiers.`);
+    }
+    config[track] = raw[track].map((tier: any, index: number) => {
+      if (!tier || typeof tier.cost !== 'number' || tier.cost < 0 || typeof tier.value !== 'number' || tier.value < 0) {
+        throw Error(`Tier ${index} of oven upgrade track "${track}" needs a non-negative cost and value.`);
+      }
+      if (track === 'rare' && tier.value > 1) {
+        throw Error(`Tier ${index} of oven upgrade track "rare" needs a chance between 0 and 1.`);
+      }
+      return { cost: tier.cost, value: tier.value };
+    });
+  }
+  return config;
+}
+
+// Value of the level reached in a track, levels past the last tier count as the last tier
+export function getOvenUpgradeValue(config: OvenUpgradeConfig, levels: OvenUpgradeLevels, track: OvenUpgradeTrack): number {
+  const tiers = config[track];
+  return tiers[Math.min(levels[track], tiers.length - 1)].value;
+}
+
+// The tier the next upgrade of a track buys, undefined once the track is maxed out
+export function getNextOvenUpgrade(config: OvenUpgradeConfig, levels: OvenUpgradeLevels, track: OvenUpgradeTrack): OvenUpgradeTier | undefined {
+  return config[track][levels[track] + 1];
+}
@@ -2,6 +2,10 @@ import * as hz from 'horizon/core';
 import { ParkourUI } from './ParkourUI';
 import { ParkourHUD } from './ParkourHUD';
 
+export const ParkourEvents = {
+  parkourCompleted: new hz.LocalEvent<{player: hz.Player, time: number, isNewBest: boolean}>('parkourCompleted'),
+};
+
 class ParkourGameMode extends hz.Component {
   static propsDefinition = {
     startTrigger: { type: hz.PropTypes.Entity },
@@ -107,6 +111,12 @@ class ParkourGameMode extends hz.Component {
         console.log(`New best time! 🎉`);
       }
       
+      this.sendLocalBroadcastEvent(ParkourEvents.parkourCompleted, {
+        player: player,
+        time: finalTime,
+        isNewBest: isNewBest
+      });
+      
       // Notify UI component
       if (this.uiComponent && this.uiComponent.completeParkour) {
         this.uiComponent.completeParkour(finalTime, isNewBest);
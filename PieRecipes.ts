@@ -0,0 +1,78 @@
+// An ingredient or product of a pie recipe, name being how players read it, e.g. "Apples"
+export type PieRecipeItem = {
+  sku: string;
+  name: string;
+  quantity: number;
+};
+
+export type PieRecipe = {
+  id: string;
+  name: string;
+  inputs: PieRecipeItem[];
+  output: PieRecipeItem;
+  bakeSeconds: number;
+  // Gems a customer pays for each pie
+  sellValue: number;
+};
+
+function parseRecipeItem(entry: any, field: string, id: string): PieRecipeItem {
+  if (!entry || typeof entry.sku !== 'string' || entry.sku === '') {
+    throw Error(`Pie recipe "${id}" has ${field} without a SKU.`);
+  }
+  const quantity = entry.quantity ?? 1;
+  if (!Number.isInteger(quantity) || quantity < 1) {
+    throw Error(`Pie recipe "${id}" needs a whole positive quantity of "${entry.sku}", got "${quantity}".`);
+  }
+  return { sku: entry.sku, name: entry.name ?? entry.sku, quantity: quantity };
+}
+
+/**
+ * Parses and validates the pies ovens can bake, e.g.
+ *   {"recipes": [{"id": "berry_pie", "name": "Berry Pie",
+ *                 "inputs": [{"sku": "berry", "name": "Berries", "quantity": 3}, {"sku": "flour", "name": "Flour"}],
+ *                 "output": {"sku": "berry_pie", "name": "Berry Pie"},
+ *                 "bakeSeconds": 20, "sellValue": 5}]}
+ * Names default to the id or SKU, quantities to 1 and the sell value to 0.
+ */
+export function parsePieRecipes(raw: any): PieRecipe[] {
+  if (!raw || typeof raw !== 'object' || !Array.isArray(raw.recipes) || raw.recipes.length === 0) {
+    throw Error('Pie recipes must be an object with a non-empty "recipes" array.');
+  }
+
+  const ids = new Set<string>();
+  return raw.recipes.map((entry: any, index: number) => {
+    if (!entry || typeof entry.id !== 'string' || entry.id === '') {
+      throw Error(`Pie recipe #${index} is missing an id.`);
+    }
+    if (ids.has(entry.id)) {
+      throw Error(`Duplicate pie recipe "${entry.id}".`);
+    }
+    ids.add(entry.id);
+
+    if (!Array.isArray(entry.inputs) || entry.inputs.length === 0) {
+      throw Error(`Pie recipe "${entry.id}" needs a non-empty list of inputs.`);
+    }
+    if (typeof entry.bakeSeconds !== 'number' || !(entry.bakeSeconds > 0)) {
+      throw Error(`Pie recipe "${entry.id}" needs a positive bakeSeconds.`);
+    }
+    const sellValue = entry.sellValue ?? 0;
+    if (typeof sellValue !== 'number' || sellValue < 0) {
+      throw Error(`Pie recipe "${entry.id}" needs a non-negative sellValue.`);
+    }
+
+    const name = entry.name ?? entry.id;
+    return {
+      id: entry.id,
+      name: name,
+      inputs: entry.inputs.map((input: any) => parseRecipeItem(input, 'inputs', entry.id)),
+      output: parseRecipeItem({ name: name, ...entry.output }, 'an output', entry.id),
+      bakeSeconds: entry.bakeSeconds,
+      sellValue: sellValue
+    };
+  });
+}
+
+// e.g. "3 Berries + 1 Flour"
+export function describeIngredients(recipe: PieRecipe): string {
+  return recipe.inputs.map(input => input.quantity + " " + input.name).join(" + ");
+}
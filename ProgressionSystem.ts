@@ -1,23 +1,54 @@
 import * as hz from 'horizon/core';
+import { DEFAULT_JUMP_SPEED, DEFAULT_LOCOMOTION_SPEED, DEFAULT_SKILL_DEFINITIONS, LocalAbilityEffectHandler, parseSkillDefinitions, PlayerStatEffectHandler, SkillDefinition, SkillEffect, SkillEffectHandler, SkillEvents } from './SkillTree';
+import { parseXpCurve, previewXpCurve, XpCurve } from './XpCurve';
+import { DEFAULT_XP_SOURCE_POLICIES, parseXpSourcePolicies, XpDailyUsage, XpGrantRecord, XpPolicy } from './XpPolicy';
 
 export const ProgressionEvents = {
+  // Legacy client XP request, the server rejects it: XP is only granted through addXP()
   xpGained: new hz.NetworkEvent<{player: hz.Player, amount: number, source: string, skillType?: string}>('xpGained'),
-  levelUp: new hz.LocalEvent<{player: hz.Player, newLevel: number, previousLevel: number, skillType?: string}>('levelUp'),
-  progressionUpdated: new hz.NetworkEvent<{player: hz.Player, currentXP: number, currentLevel: number, xpToNextLevel: number, skillType?: string}>('progressionUpdated'),
+  xpGranted: new hz.LocalEvent<{player: hz.Player, amount: number, source: string, skillType?: string}>('xpGranted'),
+  levelUp: new hz.LocalEvent<{player: hz.Player, newLevel: number, previousLevel: number, skillType?: string, prestigeRank: number}>('levelUp'),
+  progressionUpdated: new hz.NetworkEvent<{player: hz.Player, currentXP: number, currentLevel: number, xpToNextLevel: number, skillType?: string, tierName: string, tierColor: string, prestigeRank: number}>('progressionUpdated'),
   skillUnlocked: new hz.LocalEvent<{player: hz.Player, skillName: string, skillType: string}>('skillUnlocked'),
-  tierUpgraded: new hz.LocalEvent<{player: hz.Player, newTier: string, previousTier: string}>('tierUpgraded'),
+  tierUpgraded: new hz.LocalEvent<{player: hz.Player, newTier: string, previousTier: string, prestigeRank: number}>('tierUpgraded'),
+  // Prestige resets are reported here only, never as a levelUp or tierUpgraded
+  prestiged: new hz.LocalEvent<{player: hz.Player, prestigeRank: number, previousRank: number, xpMultiplier: number}>('prestiged'),
+  requestPrestige: new hz.NetworkEvent<{player: hz.Player}>('requestPrestige'),
+  // Client-visible mirrors of levelUp / tierUpgraded, sent to the player only
+  levelUpNotified: new hz.NetworkEvent<{player: hz.Player, newLevel: number, previousLevel: number, skillType?: string, prestigeRank: number}>('levelUpNotified'),
+  tierUpgradeNotified: new hz.NetworkEvent<{player: hz.Player, newTier: string, previousTier: string, tierColor: string, prestigeRank: number}>('tierUpgradeNotified'),
+  trackProgressUpdated: new hz.NetworkEvent<{player: hz.Player, tracks: TrackProgress[]}>('trackProgressUpdated'),
+  skillsUpdated: new hz.NetworkEvent<{player: hz.Player, skillPoints: number, available: SkillSummary[], unlocked: SkillSummary[]}>('skillsUpdated'),
+  requestProgression: new hz.NetworkEvent<{player: hz.Player}>('requestProgression'),
   newIslandDiscovered: new hz.LocalEvent<{player: hz.Player, islandName: string}>('newIslandDiscovered'),
   itemCollected: new hz.LocalEvent<{player: hz.Player, itemName: string, rarity: string}>('itemCollected'),
 };
 
-export interface SkillData {
+export interface SkillData extends SkillDefinition {
+  unlocked: boolean;
+  active: boolean;
+}
+
+// Client-facing subset of SkillData
+export interface SkillSummary {
+  id: string;
   name: string;
   description: string;
   levelRequired: number;
-  xpCost: number;
-  unlocked: boolean;
-  active: boolean;
+  pointCost: number;
+}
+
+export interface TrackProgress {
   skillType: string;
+  level: number;
+  progress: number;
+}
+
+// Codex entry, counts every pickup of the item and not only the first one
+export interface CollectedItem {
+  name: string;
+  rarity: string;
+  count: number;
 }
 
 export interface ProgressionData {
@@ -38,10 +69,61 @@ export interface ProgressionData {
   // Discovery tracking
   discoveredIslands: Set<string>;
   collectedItems: Set<string>;
+  itemCollection: Map<string, CollectedItem>;
   achievements: Set<string>;
+  achievementProgress: Map<string, number>;
   
   // Skills unlocked
+  skillPoints: number;
   skills: Map<string, SkillData>;
+  // Saved skills missing from the current definitions, e.g. while a custom skill config is still loading, kept for when they are back
+  unknownSkills: SkillSnapshot[];
+  
+  // Prestige
+  prestigeRank: number;
+}
+
+// Bump when the snapshot layout changes and add a migration step in migrateSnapshot()
+export const PROGRESSION_SNAPSHOT_VERSION = 6;
+
+// Legacy persistent variable that only holds the overall level (kept for leaderboard linkage)
+const LEGACY_LEVEL_VARIABLE = "PlayerGr:Level";
+
+export interface SkillSnapshot {
+  id: string;
+  unlocked: boolean;
+  active: boolean;
+}
+
+export interface AchievementProgressSnapshot {
+  id: string;
+  value: number;
+}
+
+/**
+ * Serializable form of ProgressionData saved to the player's persistent object variable.
+ * Sets and Maps are flattened into arrays so the snapshot survives serialization.
+ */
+export interface ProgressionSnapshot {
+  version: number;
+  overallLevel: number;
+  overallXP: number;
+  totalPlayTime: number;
+  movementXP: number;
+  movementLevel: number;
+  explorationXP: number;
+  explorationLevel: number;
+  combatXP: number;
+  combatLevel: number;
+  discoveredIslands: string[];
+  collectedItems: string[];
+  itemCollection: CollectedItem[];
+  achievements: string[];
+  achievementProgress: AchievementProgressSnapshot[];
+  skillPoints: number;
+  skills: SkillSnapshot[];
+  prestigeRank: number;
+  xpDailyUsage: XpDailyUsage;
 }
 
 export class ProgressionSystem extends hz.Component<typeof ProgressionSystem> {
@@ -51,11 +133,39 @@ export class ProgressionSystem extends hz.Component<typeof ProgressionSystem> {
     xpPerLevel: { type: hz.PropTypes.Number, default: 100 },
     maxLevel: { type: hz.PropTypes.Number, default: 100 },
     
+    // XP curves as JSON specs (see XpCurve.ts), an empty track curve falls back to the overall curve
+    xpCurve: { type: hz.PropTypes.String, default: '{"type": "exponential", "growth": 1.5, "cap": 5000}' },
+    movementXpCurve: { type: hz.PropTypes.String, default: "" },
+    explorationXpCurve: { type: hz.PropTypes.String, default: "" },
+    combatXpCurve: { type: hz.PropTypes.String, default: "" },
+    
+    // Curve preview: logs level -> XP and hours-to-level on start, assuming this much activity per hour
+    logXpCurvePreview: { type: hz.PropTypes.Boolean, default: false },
+    previewJumpsPerHour: { type: hz.PropTypes.Number, default: 60 },
+    previewIslandsPerHour: { type: hz.PropTypes.Number, default: 1 },
+    previewItemsPerHour: { type: hz.PropTypes.Number, default: 10 },
+    
     // Skill-specific XP
     xpPerJump: { type: hz.PropTypes.Number, default: 10 },
     xpPerIsland: { type: hz.PropTypes.Number, default: 50 },
     xpPerItem: { type: hz.PropTypes.Number, default: 25 },
     
+    // Skill tree: the asset takes precedence over the JSON string, the built-in tree is used when neither is set
+    skillConfigAsset: { type: hz.PropTypes.Asset },
+    skillConfigJson: { type: hz.PropTypes.String, default: "" },
+    skillPointsPerLevel: { type: hz.PropTypes.Number, default: 1 },
+    
+    // Prestige: available from the last tier, each rank adds this much to the XP multiplier
+    prestigeXpMultiplierPerRank: { type: hz.PropTypes.Number, default: 0.1 },
+    prestigeLeaderboard: { type: hz.PropTypes.String, default: "Prestige" },
+    
+    // XP policy: JSON object of per-source limits overriding the built-in whitelist (see XpPolicy.ts)
+    xpSourcePolicyJson: { type: hz.PropTypes.String, default: "" },
+    xpAuditLogSize: { type: hz.PropTypes.Number, default: 50 },
+    
+    // Persistence
+    persistentObjectVariableKey: { type: hz.PropTypes.String, default: "PlayerGr:Progression" },
+
     // Auto-save
     autoSaveInterval: { type: hz.PropTypes.Number, default: 30000 },
     
@@ -67,45 +177,18 @@ export class ProgressionSystem extends hz.Component<typeof ProgressionSystem> {
   private saveTimer?: hz.EventSubscription;
   private timeTrackingTimer?: hz.EventSubscription;
   private playerJoinTimes: Map<hz.Player, number> = new Map();
+  // Time XP earned but not granted yet, a tick is usually worth less than 1 XP
+  private playTimeXpRemainders: Map<hz.Player, number> = new Map();
 
   // Skill definitions
-  private readonly SKILLS = {
-    doubleJump: {
-      name: "Double Jump",
-      description: "Jump again while in the air",
-      levelRequired: 5,
-      xpCost: 200,
-      skillType: "movement"
-    },
-    enhancedJump: {
-      name: "Enhanced Jump",
-      description: "Jump 50% higher",
-      levelRequired: 10,
-      xpCost: 500,
-      skillType: "movement"
-    },
-    sprintSpeed: {
-      name: "Sprint Speed",
-      description: "Move 25% faster",
-      levelRequired: 15,
-      xpCost: 750,
-      skillType: "movement"
-    },
-    glideAbility: {
-      name: "Glide",
-      description: "Slowly descend while holding jump",
-      levelRequired: 20,
-      xpCost: 1000,
-      skillType: "movement"
-    },
-    wallJump: {
-      name: "Wall Jump",
-      description: "Jump off walls",
-      levelRequired: 25,
-      xpCost: 1500,
-      skillType: "movement"
-    }
-  };
+  private skillDefinitions: SkillDefinition[] = DEFAULT_SKILL_DEFINITIONS;
+  private skillEffectHandlers: Map<string, SkillEffectHandler> = new Map();
+
+  // XP curves, keyed by skill track ('overall' for the overall level)
+  private xpCurves: Map<string, XpCurve> = new Map();
+
+  // Server-side XP whitelist, rate limits and audit trail
+  private xpPolicy: XpPolicy = new XpPolicy(DEFAULT_XP_SOURCE_POLICIES, 50);
 
   // Tier definitions
   private readonly TIERS = [
@@ -117,11 +200,68 @@ export class ProgressionSystem extends hz.Component<typeof ProgressionSystem> {
     { name: "Mythic", minLevel: 100, color: "#9C27B0" }
   ];
 
+  preStart() {
+    try {
+      this.xpPolicy = new XpPolicy(parseXpSourcePolicies(this.props.xpSourcePolicyJson), this.props.xpAuditLogSize);
+    } catch (error) {
+      console.error(`[ProgressionSystem] Invalid XP source policies, using the built-in whitelist: ${error}`);
+      this.xpPolicy = new XpPolicy(DEFAULT_XP_SOURCE_POLICIES, this.props.xpAuditLogSize);
+    }
+
+    this.loadXpCurves();
+
+    // Clients never grant themselves XP
+    this.connectNetworkEvent(this.entity, ProgressionEvents.xpGained, (data) => {
+      this.xpPolicy.reject(data.player, data.source, data.amount, 'client request');
+      console.warn(`[ProgressionSystem] Rejected client XP request from ${data.player.name.get()}: ${data.amount} XP (${data.source})`);
+    });
+
+    // Built-in effect handlers, other scripts can add more through registerSkillEffect()
+    this.registerSkillEffect('jumpSpeed', new PlayerStatEffectHandler(player => player.jumpSpeed, DEFAULT_JUMP_SPEED));
+    this.registerSkillEffect('locomotionSpeed', new PlayerStatEffectHandler(player => player.locomotionSpeed, DEFAULT_LOCOMOTION_SPEED));
+    const localAbilities = new LocalAbilityEffectHandler(this);
+    this.registerSkillEffect('doubleJump', localAbilities);
+    this.registerSkillEffect('glide', localAbilities);
+    this.registerSkillEffect('wallJump', localAbilities);
+
+    this.connectNetworkEvent(this.entity, ProgressionEvents.requestProgression, (data) => {
+      this.sendProgressionUpdate(data.player);
+    });
+    this.connectNetworkEvent(this.entity, ProgressionEvents.requestPrestige, (data) => {
+      this.prestige(data.player);
+    });
+    this.connectNetworkEvent(this.entity, SkillEvents.requestUnlock, (data) => {
+      this.unlockSkill(data.player, data.skillId);
+    });
+    this.connectNetworkEvent(this.entity, SkillEvents.requestRespec, (data) => {
+      this.respecSkills(data.player);
+    });
+    this.connectNetworkEvent(this.entity, SkillEvents.requestAbilities, (data) => {
+      this.refreshSkillEffects(data.player);
+    });
+
+    this.loadSkillDefinitions();
+  }
+
   start() {
     console.log('[ProgressionSystem] start() called');
+    if (this.props.logXpCurvePreview) {
+      for (const track of ['overall', 'movement', 'exploration', 'combat']) {
+        this.logXpCurvePreview(track);
+      }
+    }
     this.async.setInterval(() => {
       this.trackPlayTime({ deltaTime: 10 });
     }, 10000); // every 10 seconds
+
+    // Flush the full snapshot when a player leaves so nothing is lost between sessions
+    this.connectCodeBlockEvent(this.entity, hz.CodeBlockEvents.OnPlayerExitWorld, (player: hz.Player) => {
+      if (this.playerData.has(player)) {
+        this.savePlayerData(player);
+        this.playerData.delete(player);
+      }
+      this.xpPolicy.forget(player);
+    });
   }
 
   private onUpdate(data: { deltaTime: number }) {
@@ -148,30 +288,29 @@ export class ProgressionSystem extends hz.Component<typeof ProgressionSystem> {
       // Award XP based on xpPerMinute property
       const secondsPlayed = Math.floor(playTime / 1000); // seconds
       if (secondsPlayed > 0) {
-        const xpToAward = Math.floor((this.props.xpPerMinute / 60) * secondsPlayed);
-        this.addTimeXP(player, xpToAward); // Award calculated XP
-        this.playerJoinTimes.set(player, currentTime); // Reset timer
+        this.getPlayerData(player).totalPlayTime += secondsPlayed;
+        const xpEarned = (this.playTimeXpRemainders.get(player) ?? 0) + (this.props.xpPerMinute / 60) * secondsPlayed;
+        const xpToAward = Math.floor(xpEarned);
+        if (xpToAward > 0) {
+          this.addTimeXP(player, xpToAward); // Award calculated XP
+        }
+        // Carry the fraction of XP and of a second over to the next tick
+        this.playTimeXpRemainders.set(player, xpEarned - xpToAward);
+        this.playerJoinTimes.set(player, joinTime + secondsPlayed * 1000);
       }
     });
     this.playerJoinTimes.forEach((joinTime, player) => {
       if (!players.includes(player)) {
         this.playerJoinTimes.delete(player);
+        this.playTimeXpRemainders.delete(player);
       }
     });
   }
 
   public getPlayerData(player: hz.Player): ProgressionData {
     if (!this.playerData.has(player)) {
-      // Load saved level from persistent variable if available
-      let savedLevel = 1;
-      if (this.world.persistentStorage && this.world.persistentStorage.getPlayerVariable) {
-        const loaded = this.world.persistentStorage.getPlayerVariable(player, "PlayerGr:Level");
-        if (typeof loaded === 'number' && !isNaN(loaded)) {
-          savedLevel = loaded;
-        }
-      }
       const newData: ProgressionData = {
-        overallLevel: savedLevel,
+        overallLevel: 1,
         overallXP: 0,
         totalPlayTime: 0,
         lastSaveTime: Date.now(),
@@ -183,28 +322,40 @@ export class ProgressionSystem extends hz.Component<typeof ProgressionSystem> {
         combatLevel: 1,
         discoveredIslands: new Set(),
         collectedItems: new Set(),
+        itemCollection: new Map(),
         achievements: new Set(),
-        skills: new Map()
+        achievementProgress: new Map(),
+        skillPoints: 0,
+        skills: this.buildSkills(),
+        unknownSkills: [],
+        prestigeRank: 0
       };
-      
-      // Initialize skills
-      for (const [skillId, skillDef] of Object.entries(this.SKILLS)) {
-        newData.skills.set(skillId, {
-          ...skillDef,
-          unlocked: false,
-          active: false
-        });
+
+      // Restore whatever was saved in a previous session
+      const snapshot = this.loadSnapshot(player);
+      if (snapshot) {
+        this.applySnapshot(newData, snapshot);
+        this.xpPolicy.restoreDailyUsage(player, snapshot.xpDailyUsage);
       }
       
       this.playerData.set(player, newData);
       this.savePlayerData(player);
+      this.refreshSkillEffects(player);
     }
     return this.playerData.get(player)!;
   }
 
-  public addXP(player: hz.Player, amount: number, source: string, skillType?: string) {
+  // Returns the XP actually granted once the source policy has been applied
+  public addXP(player: hz.Player, amount: number, source: string, skillType?: string): number {
     console.log('[ProgressionSystem] addXP called:', { player: player.name.get(), amount, source, skillType });
+    // Loaded first, it restores the XP the player was already granted today
     const data = this.getPlayerData(player);
+    const granted = this.xpPolicy.authorize(player, source, amount);
+    if (granted <= 0) {
+      console.warn(`[ProgressionSystem] Denied ${amount} XP from "${source}" for ${player.name.get()}`);
+      return 0;
+    }
+    amount = Math.floor(granted * this.getXPMultiplier(player));
     const previousLevel = data.overallLevel;
     data.overallXP += amount;
     if (skillType) {
@@ -223,58 +374,141 @@ export class ProgressionSystem extends hz.Component<typeof ProgressionSystem> {
           break;
       }
     }
-    const xpNeededForNextLevel = this.getXPForLevel(data.overallLevel + 1);
     // Debug log for XP math
-    console.log('[ProgressionSystem] XP check:', { overallXP: data.overallXP, xpNeededForNextLevel });
-    while (data.overallXP >= xpNeededForNextLevel && data.overallLevel < this.props.maxLevel) {
+    console.log('[ProgressionSystem] XP check:', { overallXP: data.overallXP, xpNeededForNextLevel: this.getXPForLevel(data.overallLevel + 1) });
+    while (data.overallLevel < this.props.maxLevel && data.overallXP >= this.getXPForLevel(data.overallLevel + 1)) {
+      data.overallXP -= this.getXPForLevel(data.overallLevel + 1);
       data.overallLevel++;
-      data.overallXP -= xpNeededForNextLevel;
-      this.sendLocalEvent(this.entity, ProgressionEvents.levelUp, {
-        player: player,
-        newLevel: data.overallLevel,
-        previousLevel: previousLevel,
-        skillType: skillType
-      });
-      // Sync leaderboard and persistent variable
-      const currentPersistentLevel = this.world.persistentStorage.getPlayerVariable(player, "PlayerGr:Level") ?? 1;
-      if (data.overallLevel !== currentPersistentLevel) {
-        // Update leaderboard (always override)
-        this.world.leaderboards.setScoreForPlayer('Level', player, data.overallLevel, true);
-        // Update persistent variable
-        this.world.persistentStorage.setPlayerVariable(player, "PlayerGr:Level", data.overallLevel);
-      }
-      this.checkTierUpgrade(player, data.overallLevel);
-      this.checkSkillUnlocks(player, data);
+      data.skillPoints += this.props.skillPointsPerLevel;
+      this.announceLevelUp(player, data.overallLevel, previousLevel);
+      this.syncLevelLeaderboard(player, data.overallLevel);
+      this.checkTierUpgrade(player, data.overallLevel - 1, data.overallLevel);
     }
-    this.sendLocalEvent(this.entity, ProgressionEvents.xpGained, {
+    this.sendLocalEvent(this.entity, ProgressionEvents.xpGranted, {
       player: player,
       amount: amount,
       source: source,
       skillType: skillType
     });
-    // Debug log for progressionUpdated event
-    console.log('[ProgressionSystem] Sending progressionUpdated:', {
-      player: player.name.get(),
+    this.sendProgressionUpdate(player, skillType);
+    this.savePlayerData(player);
+    return amount;
+  }
+
+  private sendProgressionUpdate(player: hz.Player, skillType?: string) {
+    const data = this.getPlayerData(player);
+    const tier = this.getTierForLevel(data.overallLevel);
+    const update = {
+      player: player,
       currentXP: data.overallXP,
       currentLevel: data.overallLevel,
       xpToNextLevel: this.getXPForLevel(data.overallLevel + 1) - data.overallXP,
-      skillType: skillType
+      skillType: skillType,
+      tierName: tier.name,
+      tierColor: this.getTierColor(data),
+      prestigeRank: data.prestigeRank
+    };
+    // Debug log for progressionUpdated event
+    console.log('[ProgressionSystem] Sending progressionUpdated:', { ...update, player: player.name.get() });
+    this.sendNetworkEvent(player, ProgressionEvents.progressionUpdated, update);
+    
+    this.sendNetworkEvent(player, ProgressionEvents.trackProgressUpdated, {
+      player: player,
+      tracks: ['movement', 'exploration', 'combat'].map(track => ({
+        skillType: track,
+        level: this.getSkillLevel(player, track),
+        progress: this.getProgressToNextLevel(player, track)
+      }))
     });
-    this.sendNetworkEvent(player, ProgressionEvents.progressionUpdated, {
+    this.sendSkillsUpdate(player);
+  }
+
+  private sendSkillsUpdate(player: hz.Player) {
+    const toSummary = (skill: SkillData): SkillSummary => ({
+      id: skill.id,
+      name: skill.name,
+      description: skill.description,
+      levelRequired: skill.levelRequired,
+      pointCost: skill.pointCost
+    });
+    this.sendNetworkEvent(player, ProgressionEvents.skillsUpdated, {
       player: player,
-      currentXP: data.overallXP,
-      currentLevel: data.overallLevel,
-      xpToNextLevel: this.getXPForLevel(data.overallLevel + 1) - data.overallXP,
-      skillType: skillType
+      skillPoints: this.getSkillPoints(player),
+      available: this.getAvailableSkills(player).map(toSummary),
+      unlocked: this.getUnlockedSkills(player).map(toSummary)
+    });
+  }
+
+  private syncLevelLeaderboard(player: hz.Player, level: number) {
+    // Sync leaderboard and persistent variable
+    const currentPersistentLevel = this.world.persistentStorage.getPlayerVariable(player, LEGACY_LEVEL_VARIABLE) ?? 1;
+    if (level !== currentPersistentLevel) {
+      // Update leaderboard (always override)
+      this.world.leaderboards.setScoreForPlayer('Level', player, level, true);
+      // Update persistent variable
+      this.world.persistentStorage.setPlayerVariable(player, LEGACY_LEVEL_VARIABLE, level);
+    }
+  }
+
+  public canPrestige(player: hz.Player): boolean {
+    return this.getPlayerData(player).overallLevel >= this.TIERS[this.TIERS.length - 1].minLevel;
+  }
+
+  // Resets the overall level in exchange for a prestige rank, skills and skill points are kept
+  public prestige(player: hz.Player): boolean {
+    if (!this.canPrestige(player)) {
+      return false;
+    }
+    
+    const data = this.getPlayerData(player);
+    const previousRank = data.prestigeRank;
+    data.prestigeRank++;
+    data.overallLevel = 1;
+    data.overallXP = 0;
+    
+    this.sendLocalEvent(this.entity, ProgressionEvents.prestiged, {
+      player: player,
+      prestigeRank: data.prestigeRank,
+      previousRank: previousRank,
+      xpMultiplier: this.getXPMultiplier(player)
     });
+    console.log(`[ProgressionSystem] ${player.name.get()} reached prestige ${data.prestigeRank}`);
+    
+    this.syncLevelLeaderboard(player, data.overallLevel);
+    if (this.props.prestigeLeaderboard) {
+      this.world.leaderboards.setScoreForPlayer(this.props.prestigeLeaderboard, player, data.prestigeRank, true);
+    }
+    this.sendProgressionUpdate(player);
     this.savePlayerData(player);
+    return true;
+  }
+
+  public getPrestigeRank(player: hz.Player): number {
+    return this.getPlayerData(player).prestigeRank;
+  }
+
+  public getXPMultiplier(player: hz.Player): number {
+    return 1 + this.getPlayerData(player).prestigeRank * this.props.prestigeXpMultiplierPerRank;
+  }
+
+  // Recent XP decisions for the player, most recent first (rejections included)
+  public getXPAuditTrail(player: hz.Player): XpGrantRecord[] {
+    return this.xpPolicy.getAuditTrail(player);
+  }
+
+  public logXPAuditTrail(player: hz.Player) {
+    console.log(`[ProgressionSystem] XP audit trail for ${player.name.get()}:`);
+    for (const record of this.getXPAuditTrail(player)) {
+      console.log(`  ${new Date(record.timestamp).toISOString()} ${record.source}: ${record.granted}/${record.requested}${record.reason ? ' (' + record.reason + ')' : ''}`);
+    }
   }
 
   private addTimeXP(player: hz.Player, amount: number) {
     this.addXP(player, amount, 'time_played');
   }
 
-  public discoverIsland(player: hz.Player, islandName: string) {
+  // Returns true the first time the player discovers the island
+  public discoverIsland(player: hz.Player, islandName: string): boolean {
     const data = this.getPlayerData(player);
     
     if (!data.discoveredIslands.has(islandName)) {
@@ -285,11 +519,24 @@ export class ProgressionSystem extends hz.Component<typeof ProgressionSystem> {
         player: player,
         islandName: islandName
       });
+
+      // Discoveries are rare, save right away rather than waiting for the auto-save
+      this.savePlayerData(player);
+      return true;
     }
+    return false;
   }
 
-  public collectItem(player: hz.Player, itemName: string, rarity: string = 'common') {
+  public hasDiscoveredIsland(player: hz.Player, islandName: string): boolean {
+    return this.getPlayerData(player).discoveredIslands.has(islandName);
+  }
+
+  public collectItem(player: hz.Player, itemName: string, rarity: string = 'common', quantity: number = 1) {
     const data = this.getPlayerData(player);
+
+    const entry = data.itemCollection.get(itemName) ?? { name: itemName, rarity: rarity.toLowerCase(), count: 0 };
+    entry.count += Math.max(1, quantity);
+    data.itemCollection.set(itemName, entry);
     
     if (!data.collectedItems.has(itemName)) {
       data.collectedItems.add(itemName);
@@ -306,6 +553,10 @@ export class ProgressionSystem extends hz.Component<typeof ProgressionSystem> {
     }
   }
 
+  public getCollectedItems(player: hz.Player): CollectedItem[] {
+    return Array.from(this.getPlayerData(player).itemCollection.values());
+  }
+
   private getItemRarityMultiplier(rarity: string): number {
     switch (rarity.toLowerCase()) {
       case 'common': return 1;
@@ -325,26 +576,73 @@ export class ProgressionSystem extends hz.Component<typeof ProgressionSystem> {
     const data = this.getPlayerData(player);
     const skill = data.skills.get(skillId);
     
-    if (!skill || skill.unlocked) {
+    if (!skill || skill.unlocked || !this.canUnlockSkill(data, skill)) {
       return false;
     }
     
-    if (data.overallLevel >= skill.levelRequired && data.overallXP >= skill.xpCost) {
-      skill.unlocked = true;
-      skill.active = true;
-      data.overallXP -= skill.xpCost;
-      
-      this.sendLocalEvent(this.entity, ProgressionEvents.skillUnlocked, {
-        player: player,
-        skillName: skill.name,
-        skillType: skill.skillType
-      });
-      
-      this.savePlayerData(player);
-      return true;
-    }
+    skill.unlocked = true;
+    skill.active = true;
+    data.skillPoints -= skill.pointCost;
     
-    return false;
+    this.sendLocalEvent(this.entity, ProgressionEvents.skillUnlocked, {
+      player: player,
+      skillName: skill.name,
+      skillType: skill.skillType
+    });
+    
+    this.refreshSkillEffects(player);
+    this.sendSkillsUpdate(player);
+    this.savePlayerData(player);
+    return true;
+  }
+
+  // Refunds every spent skill point and locks all skills again
+  public respecSkills(player: hz.Player) {
+    const data = this.getPlayerData(player);
+    data.skills.forEach(skill => {
+      if (skill.unlocked) {
+        data.skillPoints += skill.pointCost;
+        skill.unlocked = false;
+        skill.active = false;
+      }
+    });
+    console.log(`[ProgressionSystem] ${player.name.get()} reset their skills, ${data.skillPoints} points available`);
+    this.refreshSkillEffects(player);
+    this.sendSkillsUpdate(player);
+    this.savePlayerData(player);
+  }
+
+  public getSkillPoints(player: hz.Player): number {
+    return this.getPlayerData(player).skillPoints;
+  }
+
+  public registerSkillEffect(effectType: string, handler: SkillEffectHandler) {
+    this.skillEffectHandlers.set(effectType, handler);
+  }
+
+  // Recomputes every effect from the player's active skills
+  public refreshSkillEffects(player: hz.Player) {
+    const data = this.getPlayerData(player);
+    const activeEffects: Map<string, SkillEffect[]> = new Map();
+    data.skills.forEach(skill => {
+      if (!skill.unlocked || !skill.active) return;
+      for (const effect of skill.effects) {
+        if (!this.skillEffectHandlers.has(effect.type)) {
+          console.warn(`[ProgressionSystem] No handler registered for skill effect "${effect.type}" (skill "${skill.id}")`);
+          continue;
+        }
+        const effects = activeEffects.get(effect.type) ?? [];
+        effects.push(effect);
+        activeEffects.set(effect.type, effects);
+      }
+    });
+
+    const handlers: Set<SkillEffectHandler> = new Set();
+    this.skillEffectHandlers.forEach((handler, effectType) => {
+      handler.apply(player, activeEffects.get(effectType) ?? []);
+      handlers.add(handler);
+    });
+    handlers.forEach(handler => handler.flush?.(player));
   }
 
   public getSkillLevel(player: hz.Player, skillType: string): number {
@@ -379,33 +677,68 @@ export class ProgressionSystem extends hz.Component<typeof ProgressionSystem> {
           return 0;
       }
       
-      const xpForCurrentLevel = this.getXPForLevel(currentLevel);
-      const xpForNextLevel = this.getXPForLevel(currentLevel + 1);
-      return currentXP / (xpForNextLevel - xpForCurrentLevel);
+      if (currentLevel >= this.props.maxLevel) {
+        return 1.0;
+      }
+      
+      // Track XP is cumulative, overall XP is reset on every level-up
+      const xpIntoLevel = currentXP - this.getTotalXPForLevel(currentLevel, skillType);
+      return xpIntoLevel / this.getXPForLevel(currentLevel + 1, skillType);
     } else {
       if (data.overallLevel >= this.props.maxLevel) {
         return 1.0;
       }
       
-      const xpForCurrentLevel = this.getXPForLevel(data.overallLevel);
-      const xpForNextLevel = this.getXPForLevel(data.overallLevel + 1);
-      return data.overallXP / (xpForNextLevel - xpForCurrentLevel);
+      return data.overallXP / this.getXPForLevel(data.overallLevel + 1);
     }
   }
 
   public getCurrentTier(player: hz.Player): string {
-    const data = this.getPlayerData(player);
+    return this.getTierForLevel(this.getPlayerData(player).overallLevel).name;
+  }
+
+  public hasReachedTier(player: hz.Player, tierName: string): boolean {
+    const tier = this.TIERS.find(t => t.name === tierName);
+    return tier !== undefined && this.getPlayerData(player).overallLevel >= tier.minLevel;
+  }
+
+  private getTierForLevel(level: number) {
     let currentTier = this.TIERS[0];
     
     for (const tier of this.TIERS) {
-      if (data.overallLevel >= tier.minLevel) {
+      if (level >= tier.minLevel) {
         currentTier = tier;
       } else {
         break;
       }
     }
     
-    return currentTier.name;
+    return currentTier;
+  }
+
+  public hasAchievement(player: hz.Player, achievementId: string): boolean {
+    return this.getPlayerData(player).achievements.has(achievementId);
+  }
+
+  // Records the achievement, returns false if the player already had it
+  public unlockAchievement(player: hz.Player, achievementId: string): boolean {
+    const data = this.getPlayerData(player);
+    if (data.achievements.has(achievementId)) {
+      return false;
+    }
+    data.achievements.add(achievementId);
+    data.achievementProgress.delete(achievementId);
+    this.savePlayerData(player);
+    return true;
+  }
+
+  public getAchievementProgress(player: hz.Player, achievementId: string): number {
+    return this.getPlayerData(player).achievementProgress.get(achievementId) ?? 0;
+  }
+
+  // Progress is saved with the next auto-save or unlock
+  public setAchievementProgress(player: hz.Player, achievementId: string, value: number) {
+    this.getPlayerData(player).achievementProgress.set(achievementId, value);
   }
 
   public getAvailableSkills(player: hz.Player): SkillData[] {
@@ -413,7 +746,7 @@ export class ProgressionSystem extends hz.Component<typeof ProgressionSystem> {
     const available: SkillData[] = [];
     
     for (const skill of Array.from(data.skills.values())) {
-      if (data.overallLevel >= skill.levelRequired && !skill.unlocked) {
+      if (!skill.unlocked && this.canUnlockSkill(data, skill)) {
         available.push(skill);
       }
     }
@@ -427,64 +760,214 @@ export class ProgressionSystem extends hz.Component<typeof ProgressionSystem> {
   }
 
   private checkSkillLevelUp(player: hz.Player, skillType: string, currentXP: number, currentLevel: number) {
-    const xpNeededForNextLevel = this.getXPForLevel(currentLevel + 1);
-    if (currentXP >= xpNeededForNextLevel) {
-      const data = this.getPlayerData(player);
-      
-      switch (skillType) {
-        case 'movement':
-          data.movementLevel++;
-          break;
-        case 'exploration':
-          data.explorationLevel++;
-          break;
-        case 'combat':
-          data.combatLevel++;
-          break;
-      }
-      
-      this.sendLocalEvent(this.entity, ProgressionEvents.levelUp, {
-        player: player,
-        newLevel: data.overallLevel,
-        previousLevel: currentLevel,
-        skillType: skillType
-      });
+    let newLevel = currentLevel;
+    while (newLevel < this.props.maxLevel && currentXP >= this.getTotalXPForLevel(newLevel + 1, skillType)) {
+      newLevel++;
+    }
+    if (newLevel === currentLevel) {
+      return;
+    }
+    
+    const data = this.getPlayerData(player);
+    switch (skillType) {
+      case 'movement':
+        data.movementLevel = newLevel;
+        break;
+      case 'exploration':
+        data.explorationLevel = newLevel;
+        break;
+      case 'combat':
+        data.combatLevel = newLevel;
+        break;
     }
+    
+    this.announceLevelUp(player, newLevel, currentLevel, skillType);
+  }
+
+  // Overall level-ups have no skillType, track level-ups carry their track
+  private announceLevelUp(player: hz.Player, newLevel: number, previousLevel: number, skillType?: string) {
+    const levelUp = {
+      player: player,
+      newLevel: newLevel,
+      previousLevel: previousLevel,
+      skillType: skillType,
+      prestigeRank: this.getPlayerData(player).prestigeRank
+    };
+    this.sendLocalEvent(this.entity, ProgressionEvents.levelUp, levelUp);
+    this.sendNetworkEvent(player, ProgressionEvents.levelUpNotified, levelUp);
   }
 
-  private checkTierUpgrade(player: hz.Player, newLevel: number) {
-    const currentTier = this.getCurrentTier(player);
-    const previousTier = this.getCurrentTier(player); // This would need to be tracked
+  private checkTierUpgrade(player: hz.Player, previousLevel: number, newLevel: number) {
+    const currentTier = this.getTierForLevel(newLevel).name;
+    const previousTier = this.getTierForLevel(previousLevel).name;
     
     if (currentTier !== previousTier) {
+      const data = this.getPlayerData(player);
       this.sendLocalEvent(this.entity, ProgressionEvents.tierUpgraded, {
         player: player,
         newTier: currentTier,
-        previousTier: previousTier
+        previousTier: previousTier,
+        prestigeRank: data.prestigeRank
+      });
+      this.sendNetworkEvent(player, ProgressionEvents.tierUpgradeNotified, {
+        player: player,
+        newTier: currentTier,
+        previousTier: previousTier,
+        tierColor: this.getTierColor(data),
+        prestigeRank: data.prestigeRank
       });
     }
   }
 
-  private checkSkillUnlocks(player: hz.Player, data: ProgressionData) {
-    for (const [skillId, skill] of Array.from(data.skills.entries())) {
-      if (!skill.unlocked && data.overallLevel >= skill.levelRequired) {
-        // Auto-unlock skills when level requirement is met
-        this.unlockSkill(player, skillId);
+  // Prestiged players keep the color of the last tier as a cosmetic after their level is reset
+  private getTierColor(data: ProgressionData): string {
+    if (data.prestigeRank > 0) {
+      return this.TIERS[this.TIERS.length - 1].color;
+    }
+    return this.getTierForLevel(data.overallLevel).color;
+  }
+
+  private canUnlockSkill(data: ProgressionData, skill: SkillData): boolean {
+    if (data.overallLevel < skill.levelRequired || data.skillPoints < skill.pointCost) {
+      return false;
+    }
+    
+    for (const prerequisite of skill.prerequisites) {
+      if (!data.skills.get(prerequisite)?.unlocked) {
+        return false;
+      }
+    }
+    
+    // Only one skill per branch can be picked until the player respecs
+    if (skill.branch) {
+      for (const other of Array.from(data.skills.values())) {
+        if (other.unlocked && other.branch === skill.branch) {
+          return false;
+        }
+      }
+    }
+    
+    return true;
+  }
+
+  private buildSkills(): Map<string, SkillData> {
+    const skills: Map<string, SkillData> = new Map();
+    for (const definition of this.skillDefinitions) {
+      skills.set(definition.id, {
+        ...definition,
+        unlocked: false,
+        active: false
+      });
+    }
+    return skills;
+  }
+
+  private async loadSkillDefinitions() {
+    try {
+      let raw: unknown = null;
+      if (this.props.skillConfigAsset) {
+        raw = (await this.props.skillConfigAsset.fetchAsData()).asJSON();
+      } else if (this.props.skillConfigJson) {
+        raw = JSON.parse(this.props.skillConfigJson);
+      }
+      if (raw === null) {
+        return;
+      }
+      this.skillDefinitions = parseSkillDefinitions(raw);
+      console.log(`[ProgressionSystem] Loaded ${this.skillDefinitions.length} skill definitions`);
+    } catch (error) {
+      console.error(`[ProgressionSystem] Invalid skill config, using the built-in skill tree: ${error}`);
+      return;
+    }
+
+    // Players who joined while the config was loading keep their unlocks under the new definitions,
+    // including the custom skills their save had that the built-in skill tree did not know
+    this.playerData.forEach((data, player) => {
+      const previous: SkillSnapshot[] = [
+        ...Array.from(data.skills.values()).map(skill => ({ id: skill.id, unlocked: skill.unlocked, active: skill.active })),
+        ...data.unknownSkills
+      ];
+      data.skills = this.buildSkills();
+      data.unknownSkills = [];
+      this.applySkills(data, previous);
+      this.refreshSkillEffects(player);
+    });
+  }
+
+  // XP needed to go from level - 1 to level on the given track (the overall level when no track is given)
+  public getXPForLevel(level: number, skillType?: string): number {
+    return this.getXpCurve(skillType).getXPForLevel(level);
+  }
+
+  // XP needed to go from level 1 to level, skill tracks store their XP this way
+  public getTotalXPForLevel(level: number, skillType?: string): number {
+    let total = 0;
+    for (let l = 2; l <= level; l++) {
+      total += this.getXPForLevel(l, skillType);
+    }
+    return total;
+  }
+
+  private getXpCurve(skillType?: string): XpCurve {
+    return this.xpCurves.get(skillType ?? 'overall') ?? this.xpCurves.get('overall')!;
+  }
+
+  private loadXpCurves() {
+    const specs: { [track: string]: string } = {
+      overall: this.props.xpCurve,
+      movement: this.props.movementXpCurve,
+      exploration: this.props.explorationXpCurve,
+      combat: this.props.combatXpCurve,
+    };
+    this.xpCurves.clear();
+    for (const track of Object.keys(specs)) {
+      if (!specs[track]) continue;
+      try {
+        this.xpCurves.set(track, parseXpCurve(specs[track], this.props.xpPerLevel));
+      } catch (error) {
+        console.error(`[ProgressionSystem] Invalid ${track} XP curve: ${error}`);
       }
     }
+    if (!this.xpCurves.has('overall')) {
+      this.xpCurves.set('overall', parseXpCurve('{"type": "exponential", "growth": 1.5}', this.props.xpPerLevel));
+    }
   }
 
-  public getXPForLevel(level: number): number {
-    // Exponential XP curve: each level requires 1.5x more XP than the previous
-    return Math.floor(this.props.xpPerLevel * Math.pow(1.5, level - 1));
+  // Estimated XP per hour of a track from the XP props, used by the curve preview.
+  // Jumps level movement, islands and items exploration, and everything levels the overall track.
+  public getEstimatedXPPerHour(skillType?: string): number {
+    const movement = this.props.xpPerJump * this.props.previewJumpsPerHour;
+    const exploration = this.props.xpPerIsland * this.props.previewIslandsPerHour
+      + this.props.xpPerItem * this.props.previewItemsPerHour;
+    switch (skillType ?? 'overall') {
+      case 'overall': return this.props.xpPerMinute * 60 + movement + exploration;
+      case 'movement': return movement;
+      case 'exploration': return exploration;
+      default: return 0;
+    }
+  }
+
+  public logXpCurvePreview(skillType?: string) {
+    const track = skillType ?? 'overall';
+    const xpPerHour = this.getEstimatedXPPerHour(track);
+    const fallback = this.xpCurves.has(track) ? '' : ' (overall curve)';
+    console.log(`[ProgressionSystem] ${track} XP curve preview${fallback} at ~${xpPerHour} XP/hour:`);
+    for (const row of previewXpCurve(this.getXpCurve(skillType), this.props.maxLevel, xpPerHour)) {
+      console.log(`  Level ${row.level}: ${row.xpForLevel} XP (${row.totalXP} total), ${row.hoursToLevel.toFixed(2)}h (${row.totalHours.toFixed(1)}h total)`);
+    }
   }
 
   private savePlayerData(player: hz.Player) {
     const data = this.getPlayerData(player);
-    // Save to persistent variable for leaderboard linkage
     if (this.world.persistentStorage && this.world.persistentStorage.setPlayerVariable) {
-      this.world.persistentStorage.setPlayerVariable(player, "PlayerGr:Level", data.overallLevel);
+      // Full snapshot
+      if (this.props.persistentObjectVariableKey) {
+        this.world.persistentStorage.setPlayerVariable<ProgressionSnapshot>(player, this.props.persistentObjectVariableKey, this.toSnapshot(player, data));
+      }
+      // Save to persistent variable for leaderboard linkage
+      this.world.persistentStorage.setPlayerVariable(player, LEGACY_LEVEL_VARIABLE, data.overallLevel);
     }
+    data.lastSaveTime = Date.now();
     console.log(`[ProgressionSystem] Saved data for ${player.name.get()}:`, {
       overallLevel: data.overallLevel,
       overallXP: data.overallXP,
@@ -494,6 +977,131 @@ export class ProgressionSystem extends hz.Component<typeof ProgressionSystem> {
     });
   }
 
+  private toSnapshot(player: hz.Player, data: ProgressionData): ProgressionSnapshot {
+    return {
+      version: PROGRESSION_SNAPSHOT_VERSION,
+      overallLevel: data.overallLevel,
+      overallXP: data.overallXP,
+      totalPlayTime: data.totalPlayTime,
+      movementXP: data.movementXP,
+      movementLevel: data.movementLevel,
+      explorationXP: data.explorationXP,
+      explorationLevel: data.explorationLevel,
+      combatXP: data.combatXP,
+      combatLevel: data.combatLevel,
+      discoveredIslands: Array.from(data.discoveredIslands),
+      collectedItems: Array.from(data.collectedItems),
+      itemCollection: Array.from(data.itemCollection.values()),
+      achievements: Array.from(data.achievements),
+      achievementProgress: Array.from(data.achievementProgress.entries()).map(([id, value]) => ({ id, value })),
+      skillPoints: data.skillPoints,
+      skills: Array.from(data.skills.entries()).map(([id, skill]) => ({
+        id: id,
+        unlocked: skill.unlocked,
+        active: skill.active
+      })).concat(data.unknownSkills),
+      prestigeRank: data.prestigeRank,
+      xpDailyUsage: this.xpPolicy.getDailyUsage(player)
+    };
+  }
+
+  private applySnapshot(data: ProgressionData, snapshot: ProgressionSnapshot) {
+    data.overallLevel = snapshot.overallLevel;
+    data.overallXP = snapshot.overallXP;
+    data.totalPlayTime = snapshot.totalPlayTime;
+    data.movementXP = snapshot.movementXP;
+    data.movementLevel = snapshot.movementLevel;
+    data.explorationXP = snapshot.explorationXP;
+    data.explorationLevel = snapshot.explorationLevel;
+    data.combatXP = snapshot.combatXP;
+    data.combatLevel = snapshot.combatLevel;
+    data.discoveredIslands = new Set(snapshot.discoveredIslands);
+    data.collectedItems = new Set(snapshot.collectedItems);
+    data.itemCollection = new Map(snapshot.itemCollection.map(item => [item.name, { ...item }]));
+    data.achievements = new Set(snapshot.achievements);
+    data.achievementProgress = new Map(snapshot.achievementProgress.map(entry => [entry.id, entry.value]));
+    data.skillPoints = snapshot.skillPoints;
+    data.prestigeRank = snapshot.prestigeRank;
+    this.applySkills(data, snapshot.skills);
+  }
+
+  private applySkills(data: ProgressionData, skills: SkillSnapshot[]) {
+    for (const saved of skills) {
+      const skill = data.skills.get(saved.id);
+      if (skill) {
+        skill.unlocked = saved.unlocked;
+        skill.active = saved.active;
+      } else if (saved.unlocked) {
+        // Kept rather than dropped, its points were spent: the definitions may not be loaded yet, or the skill may come back
+        data.unknownSkills.push({ ...saved });
+      }
+    }
+  }
+
+  private loadSnapshot(player: hz.Player): ProgressionSnapshot | null {
+    if (!this.world.persistentStorage || !this.world.persistentStorage.getPlayerVariable) {
+      return null;
+    }
+
+    let saved: Partial<ProgressionSnapshot> | null = null;
+    if (this.props.persistentObjectVariableKey) {
+      saved = this.world.persistentStorage.getPlayerVariable<Partial<ProgressionSnapshot>>(player, this.props.persistentObjectVariableKey);
+    }
+    if (saved && typeof saved === 'object' && typeof saved.version === 'number') {
+      return this.migrateSnapshot(saved);
+    }
+
+    // Players from before the full snapshot only have their overall level saved
+    const legacyLevel = this.world.persistentStorage.getPlayerVariable(player, LEGACY_LEVEL_VARIABLE);
+    if (typeof legacyLevel === 'number' && !isNaN(legacyLevel) && legacyLevel > 0) {
+      console.log(`[ProgressionSystem] Migrating legacy level ${legacyLevel} for ${player.name.get()}`);
+      return this.migrateSnapshot({ version: 0, overallLevel: legacyLevel });
+    }
+
+    return null;
+  }
+
+  private migrateSnapshot(saved: Partial<ProgressionSnapshot>): ProgressionSnapshot {
+    // Version 0 is the legacy level-only save, every other field starts from its default
+    const overallLevel = saved.overallLevel ?? 1;
+    const skills = saved.skills ?? [];
+    return {
+      version: PROGRESSION_SNAPSHOT_VERSION,
+      overallLevel: overallLevel,
+      overallXP: saved.overallXP ?? 0,
+      totalPlayTime: saved.totalPlayTime ?? 0,
+      movementXP: saved.movementXP ?? 0,
+      movementLevel: saved.movementLevel ?? 1,
+      explorationXP: saved.explorationXP ?? 0,
+      explorationLevel: saved.explorationLevel ?? 1,
+      combatXP: saved.combatXP ?? 0,
+      combatLevel: saved.combatLevel ?? 1,
+      discoveredIslands: saved.discoveredIslands ?? [],
+      collectedItems: saved.collectedItems ?? [],
+      // Before version 5 only the names were kept: assume one common pickup each
+      itemCollection: saved.itemCollection ?? (saved.collectedItems ?? []).map(name => ({ name: name, rarity: 'common', count: 1 })),
+      achievements: saved.achievements ?? [],
+      achievementProgress: saved.achievementProgress ?? [],
+      // Version 1 had no skill points: grant what the player would have earned minus the skills they already own
+      skillPoints: saved.skillPoints ?? Math.max(0, (overallLevel - 1) * this.props.skillPointsPerLevel - this.getSkillCost(skills)),
+      skills: skills,
+      prestigeRank: saved.prestigeRank ?? 0,
+      // Before version 6 the daily XP caps were not saved
+      xpDailyUsage: saved.xpDailyUsage ?? { day: 0, granted: {} }
+    };
+  }
+
+  private getSkillCost(skills: SkillSnapshot[]): number {
+    let cost = 0;
+    for (const saved of skills) {
+      const definition = this.skillDefinitions.find(skill => skill.id === saved.id);
+      if (saved.unlocked && definition) {
+        cost += definition.pointCost;
+      }
+    }
+    return cost;
+  }
+
   dispose() {
     this.saveTimer?.disconnect();
     this.timeTrackingTimer?.disconnect();
@@ -1,6 +1,6 @@
 import * as hz from 'horizon/core';
 import { TextGizmo } from 'horizon/core';
-import { WorldInventory } from 'horizon/core';
+import { exchangeItems, executeExchange, queueTransaction } from 'ShopTransactions';
 
 export const PurchaseableItemEvents = {
   OnConsumeItem: new hz.NetworkEvent<{ player: hz.Player, itemSKU: string, itemAmount: number }>('OnConsumeItem'),
@@ -21,6 +21,9 @@ export class PurchaseableItem<T> extends hz.Component<typeof PurchaseableItem &
     errorTxt: {type: hz.PropTypes.Entity},
   };
 
+  // Players whose purchase is still going through, so that a second trigger does not buy twice
+  private purchasing: Set<hz.Player> = new Set();
+
   preStart() {
 
   }
@@ -30,21 +33,32 @@ export class PurchaseableItem<T> extends hz.Component<typeof PurchaseableItem &
   }
 
   protected onAttemptPurchase(player: hz.Player) {
-    WorldInventory.getPlayerEntitlementQuantity(player, this.props.priceSKU).then((quantity) => {
-      if (quantity >= this.props.priceAmount) {
+    if (this.purchasing.has(player)) {
+      return;
+    }
+    this.purchasing.add(player);
+
+    // Trade the price item (e.g., Apple Pie) for the purchased item (e.g., Gems)
+    exchangeItems(this, {
+      player: player,
+      costSKU: this.props.priceSKU,
+      costQuantity: this.props.priceAmount,
+      rewardSKU: this.props.itemSKU,
+      rewardQuantity: this.props.itemAmount
+    }).then((result) => {
+      this.purchasing.delete(player);
+      if (result.success) {
         this.onPurchaseSuccess(player);
+      } else if (result.failure === 'insufficientCost') {
+        this.onPurchaseFail(player, result.shortfall);
       } else {
-        const shortfall = this.props.priceAmount - Number(quantity);
-        this.onPurchaseFail(player, shortfall);
+        this.updateFailText("Purchase failed, please try again");
       }
     });
   }
 
+  // Called once the price was taken and the item granted
   protected onPurchaseSuccess(player: hz.Player) {
-    // Consume the price item (e.g., Apple Pie) from the player's inventory
-    WorldInventory.consumeItemForPlayer(player, this.props.priceSKU, this.props.priceAmount);
-    // Grant the purchased item (e.g., Gems)
-    WorldInventory.grantItemToPlayer(player, this.props.itemSKU, this.props.itemAmount);
     this.sendNetworkBroadcastEvent(PurchaseableItemEvents.OnReceiveItem, { player: player, itemSKU: this.props.itemSKU, itemAmount: this.props.itemAmount });
     this.updateText("", false);
   }
@@ -78,19 +92,27 @@ export class PurchaseableItem<T> extends hz.Component<typeof PurchaseableItem &
   public sellAllPies(player: hz.Player) {
     // Only applies if this item is a pie-to-gem trade
     if (this.props.priceSKU && this.props.itemSKU) {
-      hz.WorldInventory.getPlayerEntitlementQuantity(player, this.props.priceSKU).then((pieCount) => {
-        const piesToSell = Number(pieCount);
-        if (piesToSell > 0) {
-          // Consume all pies
-          hz.WorldInventory.consumeItemForPlayer(player, this.props.priceSKU, piesToSell);
-          // Grant gems (gems per pie = this.props.itemAmount / this.props.priceAmount)
-          const gemsPerPie = this.props.itemAmount / this.props.priceAmount;
-          const gemsToGrant = piesToSell * gemsPerPie;
-          hz.WorldInventory.grantItemToPlayer(player, this.props.itemSKU, gemsToGrant);
+      // Counted inside the transaction, so pies baked or spent meanwhile are not miscounted
+      queueTransaction(player, async () => {
+        const piesToSell = Number(await hz.WorldInventory.getPlayerEntitlementQuantity(player, this.props.priceSKU));
+        if (piesToSell <= 0) {
+          return;
+        }
+        // Grant gems (gems per pie = this.props.itemAmount / this.props.priceAmount)
+        const gemsPerPie = this.props.itemAmount / this.props.priceAmount;
+        const gemsToGrant = piesToSell * gemsPerPie;
+        const result = await executeExchange(this, {
+          player: player,
+          costSKU: this.props.priceSKU,
+          costQuantity: piesToSell,
+          rewardSKU: this.props.itemSKU,
+          rewardQuantity: gemsToGrant
+        });
+        if (result.success) {
           this.sendNetworkBroadcastEvent(PurchaseableItemEvents.OnReceiveItem, { player: player, itemSKU: this.props.itemSKU, itemAmount: gemsToGrant });
           this.sendNetworkBroadcastEvent(PurchaseableItemEvents.OnInventoryChanged, { player: player });
         }
-      });
+      }).catch(error => console.error(`[PurchaseableItem] Could not sell the pies of ${player.name.get()}: ${error}`));
     }
   }
 }
@@ -1,5 +1,6 @@
 import * as hz from 'horizon/core';
 import * as hzui from 'horizon/ui';
+import { DiscoveryEvents } from './DiscoveryZone';
 import { ProgressionEvents } from './ProgressionSystem';
 
 export class RankUI extends hzui.UIComponent<typeof RankUI> {
@@ -11,6 +12,24 @@ export class RankUI extends hzui.UIComponent<typeof RankUI> {
   private currentXP = new hzui.Binding<string>('0');
   private xpToNextLevel = new hzui.Binding<string>('100');
   private progress = new hzui.Binding<number>(0);
+  private tierColor = new hzui.Binding<string>('#FFD700');
+  private tierName = new hzui.Binding<string>('Novice');
+  private prestigeRank = new hzui.Binding<number>(0);
+
+  // Per-track level and progress (movement / exploration / combat)
+  private trackLevels = new Map<string, hzui.Binding<string>>();
+  private trackProgress = new Map<string, hzui.Binding<number>>();
+
+  // Skills
+  private skillPoints = new hzui.Binding<string>('0');
+  private unlockedSkills = new hzui.Binding<string>('-');
+  private availableSkills = new hzui.Binding<string>('-');
+
+  // Level-up banner
+  private bannerText = new hzui.Binding<string>('');
+  private bannerColor = new hzui.Binding<string>('#FFD700');
+  private bannerOpacity = new hzui.AnimatedBinding(0);
+  private bannerScale = new hzui.AnimatedBinding(0.5);
 
   start() {
     // Transfer UI ownership to the player on join (local mode)
@@ -40,22 +59,114 @@ export class RankUI extends hzui.UIComponent<typeof RankUI> {
         const total = xp + toNext;
         this.progress.set(total > 0 ? xp / total : 0);
         console.log('[RankUI] Set progress:', total > 0 ? xp / total : 0);
+        this.tierColor.set(data.tierColor);
+        this.tierName.set(data.tierName);
+        this.prestigeRank.set(data.prestigeRank);
+      }
+    );
+    this.connectNetworkEvent(
+      this.world.getLocalPlayer(),
+      ProgressionEvents.trackProgressUpdated,
+      (data) => {
+        for (const track of data.tracks) {
+          this.trackLevels.get(track.skillType)?.set(String(track.level));
+          this.trackProgress.get(track.skillType)?.set(Math.max(0, Math.min(1, track.progress)));
+        }
+      }
+    );
+    this.connectNetworkEvent(
+      this.world.getLocalPlayer(),
+      ProgressionEvents.skillsUpdated,
+      (data) => {
+        this.skillPoints.set(String(data.skillPoints));
+        this.unlockedSkills.set(data.unlocked.length > 0 ? data.unlocked.map(skill => skill.name).join(', ') : '-');
+        this.availableSkills.set(data.available.length > 0 ? data.available.map(skill => `${skill.name} (${skill.pointCost})`).join(', ') : '-');
+      }
+    );
+    this.connectNetworkEvent(
+      this.world.getLocalPlayer(),
+      ProgressionEvents.levelUpNotified,
+      (data) => {
+        const track = data.skillType ? `${data.skillType.charAt(0).toUpperCase()}${data.skillType.slice(1)} ` : '';
+        this.showBanner(`${track}Level ${data.newLevel}!`);
+      }
+    );
+    this.connectNetworkEvent(
+      this.world.getLocalPlayer(),
+      ProgressionEvents.tierUpgradeNotified,
+      (data) => {
+        this.showBanner(`${data.newTier} tier reached!`, data.tierColor);
       }
     );
-    // Award 1 XP every 2 seconds
-    this.async.setInterval(() => {
-      if (this.props.progressionSystem) {
-        this.sendNetworkEvent(
-          this.props.progressionSystem,
-          ProgressionEvents.xpGained,
-          {
-            player: this.world.getLocalPlayer(),
-            amount: 1,
-            source: 'time_played'
+    this.connectNetworkEvent(
+      this.world.getLocalPlayer(),
+      DiscoveryEvents.islandDiscovered,
+      (data) => {
+        this.showBanner(`${data.island.name} discovered!`, '#4FC3F7');
+      }
+    );
+
+    // Ask for the current state, the server only pushes updates when something changes
+    if (this.world.getLocalPlayer() !== this.world.getServerPlayer()) {
+      this.sendNetworkEvent(this.props.progressionSystem, ProgressionEvents.requestProgression, { player: this.world.getLocalPlayer() });
+    }
+  }
+
+  private showBanner(text: string, color?: string) {
+    this.bannerText.set(text);
+    this.bannerColor.set(color ?? '#FFD700');
+    this.bannerOpacity.set(hzui.Animation.sequence(
+      hzui.Animation.timing(1, { duration: 200, easing: hzui.Easing.ease }),
+      hzui.Animation.delay(2000, hzui.Animation.timing(0, { duration: 400, easing: hzui.Easing.ease }))
+    ));
+    this.bannerScale.set(hzui.Animation.sequence(
+      hzui.Animation.timing(1.2, { duration: 200, easing: hzui.Easing.ease }),
+      hzui.Animation.timing(1, { duration: 150, easing: hzui.Easing.ease }),
+      hzui.Animation.delay(1850, hzui.Animation.timing(0.5, { duration: 400, easing: hzui.Easing.ease }))
+    ));
+  }
+
+  private constructTrackBar(label: string, skillType: string): hzui.UINode {
+    const level = new hzui.Binding<string>('1');
+    const progress = new hzui.Binding<number>(0);
+    this.trackLevels.set(skillType, level);
+    this.trackProgress.set(skillType, progress);
+    return hzui.View({
+      children: [
+        hzui.Text({
+          text: level.derive(lvl => `${label} ${lvl}`),
+          style: {
+            fontSize: 12,
+            color: '#CCC',
+            width: 100
+          }
+        }),
+        hzui.View({
+          children: [
+            hzui.View({
+              style: {
+                width: progress.derive(p => 80 * p),
+                height: 8,
+                backgroundColor: '#4FC3F7',
+                borderRadius: 4
+              }
+            })
+          ],
+          style: {
+            width: 80,
+            height: 8,
+            backgroundColor: '#444',
+            borderRadius: 4
           }
-        );
+        })
+      ],
+      style: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        width: 180,
+        marginTop: 2
       }
-    }, 2000);
+    });
   }
 
   initializeUI(): hzui.UINode {
@@ -77,7 +188,8 @@ export class RankUI extends hzui.UIComponent<typeof RankUI> {
       if (lvl >= 5) return '🥉';
       return '🔰';
     });
-    return hzui.View({
+    const prestigeText = this.prestigeRank.derive(rank => rank > 0 ? `✦${rank}` : '');
+    const panel = hzui.View({
       children: [
         hzui.View({
           children: [
@@ -95,10 +207,20 @@ export class RankUI extends hzui.UIComponent<typeof RankUI> {
               style: {
                 fontSize: 28,
                 fontWeight: 'bold',
-                color: '#FFD700',
+                color: this.tierColor,
                 textAlign: 'center',
                 marginBottom: 8
               }
+            }),
+            // Prestige rank, hidden until the first prestige
+            hzui.Text({
+              text: prestigeText,
+              style: {
+                fontSize: 18,
+                fontWeight: 'bold',
+                color: this.tierColor,
+                marginLeft: 8
+              }
             })
           ],
           style: {
@@ -108,6 +230,20 @@ export class RankUI extends hzui.UIComponent<typeof RankUI> {
             marginBottom: 4
           }
         }),
+        // Tier badge
+        hzui.Text({
+          text: this.tierName,
+          style: {
+            fontSize: 12,
+            fontWeight: 'bold',
+            color: '#FFF',
+            backgroundColor: this.tierColor,
+            borderRadius: 6,
+            paddingLeft: 8,
+            paddingRight: 8,
+            marginBottom: 6
+          }
+        }),
         // Progress bar background
         hzui.View({
           children: [
@@ -116,7 +252,7 @@ export class RankUI extends hzui.UIComponent<typeof RankUI> {
               style: {
                 width: progressWidth,
                 height: 18,
-                backgroundColor: '#FFD700',
+                backgroundColor: this.tierColor,
                 borderRadius: 6
               }
             })
@@ -138,11 +274,40 @@ export class RankUI extends hzui.UIComponent<typeof RankUI> {
             textAlign: 'right',
             width: 180
           }
+        }),
+        // Skill track bars
+        this.constructTrackBar('Movement', 'movement'),
+        this.constructTrackBar('Exploration', 'exploration'),
+        this.constructTrackBar('Combat', 'combat'),
+        // Skills
+        hzui.Text({
+          text: this.skillPoints.derive(points => `Skill points: ${points}`),
+          style: {
+            fontSize: 12,
+            color: '#FFD700',
+            width: 180,
+            marginTop: 6
+          }
+        }),
+        hzui.Text({
+          text: this.unlockedSkills.derive(skills => `Unlocked: ${skills}`),
+          style: {
+            fontSize: 11,
+            color: '#FFF',
+            width: 180
+          }
+        }),
+        hzui.Text({
+          text: this.availableSkills.derive(skills => `Available: ${skills}`),
+          style: {
+            fontSize: 11,
+            color: '#AAA',
+            width: 180
+          }
         })
       ],
       style: {
         width: 240,
-        height: 90,
         backgroundColor: '#222',
         borderRadius: 12,
         alignItems: 'center',
@@ -155,6 +320,29 @@ export class RankUI extends hzui.UIComponent<typeof RankUI> {
         zIndex: 1000
       }
     });
+    // Level-up banner, invisible until showBanner() animates it
+    const banner = hzui.Text({
+      text: this.bannerText,
+      style: {
+        fontSize: 36,
+        fontWeight: 'bold',
+        color: this.bannerColor,
+        textAlign: 'center',
+        position: 'absolute',
+        top: '35%',
+        alignSelf: 'center',
+        opacity: this.bannerOpacity,
+        transform: [{ scale: this.bannerScale }],
+        zIndex: 1001
+      }
+    });
+    return hzui.View({
+      children: [panel, banner],
+      style: {
+        width: '100%',
+        height: '100%'
+      }
+    });
   }
 }
 
@@ -1,4 +1,7 @@
 import * as hz from 'horizon/core';
+import { ProgressionSystem } from './ProgressionSystem';
+import { PurchaseableItemEvents } from './PurchaseableItem';
+import { queueGrant } from './ShopTransactions';
 
 export const ResourceEvents = {
   resourceCollected: new hz.NetworkEvent<{resourceId: string, player: hz.Player, resourceType: string, quantity: number}>('resourceCollected'),
@@ -21,7 +24,10 @@ export class ResourceComponent extends hz.Component<typeof ResourceComponent> {
     rarity: { type: hz.PropTypes.String, default: "common" },
     respawnTime: { type: hz.PropTypes.Number, default: 30000 }, // 30 seconds
     pveZoneManager: { type: hz.PropTypes.Entity },
+    progressionSystem: { type: hz.PropTypes.Entity },
     debugMode: { type: hz.PropTypes.Boolean, default: false },
+    // Inventory item granted to the collecting player, e.g. an ingredient baked in ovens
+    itemSKU: { type: hz.PropTypes.String, default: "" },
     
     // Collection settings
     collectionRange: { type: hz.PropTypes.Number, default: 2.0 },
@@ -75,6 +81,16 @@ export class ResourceComponent extends hz.Component<typeof ResourceComponent> {
     this.entity.tags.add(this.props.resourceType);
     this.entity.tags.add(this.props.rarity);
     this.entity.interactionMode.set(hz.EntityInteractionMode.Grabbable);
+
+    // Grabbing the resource collects it, letting go early cancels
+    this.connectCodeBlockEvent(this.entity, hz.CodeBlockEvents.OnGrabStart, (isRightHand: boolean, player: hz.Player) => {
+      this.startCollection(player);
+    });
+    this.connectCodeBlockEvent(this.entity, hz.CodeBlockEvents.OnGrabEnd, (player: hz.Player) => {
+      if (this.collectingPlayer === player) {
+        this.cancelCollection();
+      }
+    });
     
     // Start idle effects
     this.startIdleEffects();
@@ -176,9 +192,15 @@ export class ResourceComponent extends hz.Component<typeof ResourceComponent> {
     // Play collection effects
     this.playCollectionEffects();
 
-    // Hide the resource
+    // Drop and hide the resource
+    this.entity.as(hz.GrabbableEntity).forceRelease();
     this.entity.visible.set(false);
 
+    if (this.props.itemSKU) {
+      queueGrant(player, this.props.itemSKU, this.currentQuantity);
+      this.sendNetworkBroadcastEvent(PurchaseableItemEvents.OnReceiveItem, { player: player, itemSKU: this.props.itemSKU, itemAmount: this.currentQuantity });
+    }
+
     // Send collection event
     this.sendNetworkEvent(this.entity, ResourceEvents.resourceCollected, {
       resourceId: this.resourceId,
@@ -191,6 +213,9 @@ export class ResourceComponent extends hz.Component<typeof ResourceComponent> {
       console.log(`[ResourceComponent] ${this.props.resourceType} collected by ${player.name.get()}`);
     }
 
+    // Record the pickup in the player's codex
+    this.props.progressionSystem?.getComponents(ProgressionSystem)[0]?.collectItem(player, this.props.resourceType, this.props.rarity, this.currentQuantity);
+
     // Schedule respawn
     this.scheduleRespawn();
   }
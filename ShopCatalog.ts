@@ -0,0 +1,239 @@
+import * as hz from 'horizon/core';
+import { ShopItem } from './ShopComponent';
+
+export const ShopCatalogEvents = {
+  // Broadcast to make every ShopComponent (or only the one with shopId) reload its catalog
+  reloadCatalog: new hz.LocalEvent<{ shopId?: string }>('ShopCatalogEvents.reloadCatalog'),
+};
+
+/**
+ * Catalog of every shop in the world, e.g.
+ *   {"shared": [{"sku": "health_potion", "name": "Health Potion", "buyPrice": 25, "sellPrice": 10, "maxQuantity": 10,
+ *                "category": "consumables", "rarity": "common"}],
+ *    "shops": {"blacksmith": {"include": ["health_potion"],
+ *                             "items": [{"sku": "health_potion", "buyPrice": 30},
+ *                                       {"sku": "steel_sword", "name": "Steel Sword", "buyPrice": 150, "sellPrice": 75,
+ *                                        "category": "weapons", "rarity": "uncommon", "stock": 5,
+ *                                        "availableFrom": "2026-12-01T00:00:00Z", "availableUntil": "2027-01-01T00:00:00Z"},
+ *                                       {"sku": "iron_ore", "name": "Iron Ore", "buyPrice": 15, "sellPrice": 8,
+ *                                        "maxStock": 50, "restockMinutes": 60, "dailyLimit": 20,
+ *                                        "priceDrift": 0.02, "minPriceFactor": 0.5, "maxPriceFactor": 3}]}}}
+ * A shop lists the shared entries named in "include" ("*" for all of them), then its own "items".
+ * A restocked item starts with maxStock when it sets no stock of its own.
+ * An item with the SKU of an included shared entry overrides only the fields it sets.
+ */
+export interface ShopCatalog {
+  shared: ShopItem[];
+  shops: { [shopId: string]: { include: string[] | '*', items: Partial<ShopItem>[] } };
+}
+
+export const SHOP_RARITIES = ['common', 'uncommon', 'rare', 'epic', 'legendary'];
+
+// Used when no catalog is configured, so a shop dropped in a world still sells something
+export function createDefaultShopItems(): ShopItem[] {
+  return [
+    { sku: "health_potion", name: "Health Potion", description: "Restores 50 health points", buyPrice: 25, sellPrice: 10, maxQuantity: 10, category: "consumables", rarity: "common", isAvailable: true },
+    { sku: "mana_potion", name: "Mana Potion", description: "Restores 50 mana points", buyPrice: 30, sellPrice: 12, maxQuantity: 10, category: "consumables", rarity: "common", isAvailable: true },
+    { sku: "steel_sword", name: "Steel Sword", description: "A reliable steel sword", buyPrice: 150, sellPrice: 75, maxQuantity: 1, category: "weapons", rarity: "uncommon", isAvailable: true },
+    { sku: "magical_staff", name: "Magical Staff", description: "A staff imbued with magical power", buyPrice: 300, sellPrice: 150, maxQuantity: 1, category: "weapons", rarity: "rare", isAvailable: true },
+    { sku: "iron_ore", name: "Iron Ore", description: "Raw iron ore for crafting", buyPrice: 15, sellPrice: 8, maxQuantity: 20, category: "materials", rarity: "common", isAvailable: true },
+    { sku: "gold_ore", name: "Gold Ore", description: "Raw gold ore for crafting", buyPrice: 50, sellPrice: 25, maxQuantity: 10, category: "materials", rarity: "uncommon", isAvailable: true },
+    { sku: "crystal_shard", name: "Crystal Shard", description: "A magical crystal shard", buyPrice: 100, sellPrice: 50, maxQuantity: 5, category: "materials", rarity: "rare", isAvailable: true },
+  ];
+}
+
+// Whether an item can be traded at the given time: enabled, in stock and within its availability window
+export function isShopItemAvailable(item: ShopItem, now: number = Date.now()): boolean {
+  return item.isAvailable
+    && (item.stock === undefined || item.stock > 0)
+    && (item.availableFrom === undefined || now >= item.availableFrom)
+    && (item.availableUntil === undefined || now < item.availableUntil);
+}
+
+function parseDate(value: unknown, field: string, sku: string): number | undefined {
+  if (value === undefined || value === null) return undefined;
+  const date = typeof value === 'number' ? value : Date.parse(String(value));
+  if (isNaN(date)) {
+    throw Error(`Shop item "${sku}" has an invalid ${field} date "${value}".`);
+  }
+  return date;
+}
+
+function parseNumber(value: unknown, field: string, sku: string, whole: boolean): number | undefined {
+  if (value === undefined) return undefined;
+  if (typeof value !== 'number' || value < 0 || (whole && !Number.isInteger(value))) {
+    throw Error(`Shop item "${sku}" needs a ${whole ? 'whole ' : ''}non-negative ${field}, got "${value}".`);
+  }
+  return value;
+}
+
+// Reads the fields of an entry that are set, leaving the others undefined so that overrides stay partial
+function parseItemFields(entry: any, index: number, where: string): Partial<ShopItem> {
+  if (!entry || typeof entry !== 'object' || typeof entry.sku !== 'string' || entry.sku === '') {
+    throw Error(`Shop item #${index} of ${where} is missing a SKU.`);
+  }
+  const sku: string = entry.sku;
+
+  for (const field of ['name', 'description', 'category']) {
+    if (entry[field] !== undefined && typeof entry[field] !== 'string') {
+      throw Error(`Shop item "${sku}" needs a text ${field}.`);
+    }
+  }
+  if (entry.isAvailable !== undefined && typeof entry.isAvailable !== 'boolean') {
+    throw Error(`Shop item "${sku}" needs isAvailable to be true or false.`);
+  }
+
+  let rarity: string | undefined = undefined;
+  if (entry.rarity !== undefined) {
+    rarity = String(entry.rarity).toLowerCase();
+    if (!SHOP_RARITIES.includes(rarity)) {
+      throw Error(`Shop item "${sku}" has unknown rarity "${entry.rarity}", expected one of ${SHOP_RARITIES.join(', ')}.`);
+    }
+  }
+
+  const fields: Partial<ShopItem> = {
+    sku: sku,
+    name: entry.name,
+    description: entry.description,
+    buyPrice: parseNumber(entry.buyPrice, 'buy price', sku, true),
+    sellPrice: parseNumber(entry.sellPrice, 'sell price', sku, true),
+    maxQuantity: parseNumber(entry.maxQuantity, 'max quantity', sku, true),
+    category: entry.category,
+    rarity: rarity,
+    isAvailable: entry.isAvailable,
+    stock: parseNumber(entry.stock, 'stock', sku, true),
+    maxStock: parseNumber(entry.maxStock, 'max stock', sku, true),
+    restockMinutes: parseNumber(entry.restockMinutes, 'restock period', sku, false),
+    dailyLimit: parseNumber(entry.dailyLimit, 'daily limit', sku, true),
+    priceDrift: parseNumber(entry.priceDrift, 'price drift', sku, false),
+    minPriceFactor: parseNumber(entry.minPriceFactor, 'min price factor', sku, false),
+    maxPriceFactor: parseNumber(entry.maxPriceFactor, 'max price factor', sku, false),
+    availableFrom: parseDate(entry.availableFrom, 'availableFrom', sku),
+    availableUntil: parseDate(entry.availableUntil, 'availableUntil', sku),
+  };
+  for (const key of Object.keys(fields) as (keyof ShopItem)[]) {
+    if (fields[key] === undefined) delete fields[key];
+  }
+  return fields;
+}
+
+// Fills in the optional fields and checks that the result is a complete ShopItem
+function completeItem(fields: Partial<ShopItem>): ShopItem {
+  const sku = fields.sku!;
+  if (!fields.name) {
+    throw Error(`Shop item "${sku}" is missing a name.`);
+  }
+  if (fields.buyPrice === undefined || fields.sellPrice === undefined) {
+    throw Error(`Shop item "${sku}" needs both a buy and a sell price.`);
+  }
+  if (fields.availableFrom !== undefined && fields.availableUntil !== undefined && fields.availableUntil <= fields.availableFrom) {
+    throw Error(`Shop item "${sku}" stops being available before it starts.`);
+  }
+
+  const item: ShopItem = {
+    sku: sku,
+    name: fields.name,
+    description: fields.description ?? '',
+    buyPrice: fields.buyPrice,
+    sellPrice: fields.sellPrice,
+    maxQuantity: fields.maxQuantity ?? 1,
+    category: fields.category ?? 'misc',
+    rarity: fields.rarity ?? 'common',
+    isAvailable: fields.isAvailable ?? true,
+  };
+  if (item.maxQuantity < 1) {
+    throw Error(`Shop item "${sku}" needs a max quantity of at least 1.`);
+  }
+  if (fields.restockMinutes !== undefined) {
+    if (fields.restockMinutes <= 0 || (fields.maxStock ?? fields.stock) === undefined) {
+      throw Error(`Shop item "${sku}" needs a positive restock period and a max stock to restock to.`);
+    }
+    item.restockMinutes = fields.restockMinutes;
+    item.maxStock = fields.maxStock ?? fields.stock;
+  } else if (fields.maxStock !== undefined) {
+    item.maxStock = fields.maxStock;
+  }
+  if (fields.dailyLimit !== undefined) {
+    if (fields.dailyLimit < 1) {
+      throw Error(`Shop item "${sku}" needs a daily limit of at least 1.`);
+    }
+    item.dailyLimit = fields.dailyLimit;
+  }
+  if (fields.minPriceFactor !== undefined && fields.minPriceFactor > 1) {
+    throw Error(`Shop item "${sku}" needs a min price factor of at most 1.`);
+  }
+  if (fields.maxPriceFactor !== undefined && fields.maxPriceFactor < 1) {
+    throw Error(`Shop item "${sku}" needs a max price factor of at least 1.`);
+  }
+  if (fields.priceDrift !== undefined) item.priceDrift = fields.priceDrift;
+  if (fields.minPriceFactor !== undefined) item.minPriceFactor = fields.minPriceFactor;
+  if (fields.maxPriceFactor !== undefined) item.maxPriceFactor = fields.maxPriceFactor;
+  if (fields.stock !== undefined || item.maxStock !== undefined) item.stock = fields.stock ?? item.maxStock;
+  if (fields.availableFrom !== undefined) item.availableFrom = fields.availableFrom;
+  if (fields.availableUntil !== undefined) item.availableUntil = fields.availableUntil;
+  return item;
+}
+
+function parseItemList(raw: unknown, where: string): Partial<ShopItem>[] {
+  if (raw === undefined) return [];
+  if (!Array.isArray(raw)) {
+    throw Error(`Items of ${where} must be an array.`);
+  }
+  const skus = new Set<string>();
+  return raw.map((entry, index) => {
+    const fields = parseItemFields(entry, index, where);
+    if (skus.has(fields.sku!)) {
+      throw Error(`Shop item "${fields.sku}" is listed more than once in ${where}.`);
+    }
+    skus.add(fields.sku!);
+    return fields;
+  });
+}
+
+/**
+ * Parses and validates a shop catalog, see ShopCatalog for the format.
+ * Every shop is resolved once here, so a catalog with a broken shop is rejected as a whole.
+ */
+export function parseShopCatalog(raw: any): ShopCatalog {
+  if (!raw || typeof raw !== 'object' || !raw.shops || typeof raw.shops !== 'object') {
+    throw Error('Shop catalog must be an object with a "shops" map.');
+  }
+
+  const shared = parseItemList(raw.shared, 'the shared items').map(completeItem);
+  const catalog: ShopCatalog = { shared: shared, shops: {} };
+
+  for (const shopId of Object.keys(raw.shops)) {
+    const shop = raw.shops[shopId] ?? {};
+    const include = shop.include ?? [];
+    if (include !== '*' && (!Array.isArray(include) || include.some((sku: unknown) => typeof sku !== 'string'))) {
+      throw Error(`Shop "${shopId}" must include "*" or a list of shared SKUs.`);
+    }
+    const unknown = include === '*' ? undefined : include.find((sku: string) => !shared.some(item => item.sku === sku));
+    if (unknown !== undefined) {
+      throw Error(`Shop "${shopId}" includes unknown shared item "${unknown}".`);
+    }
+
+    catalog.shops[shopId] = { include: include, items: parseItemList(shop.items, `shop "${shopId}"`) };
+    resolveShopItems(catalog, shopId);
+  }
+
+  return catalog;
+}
+
+// The items of a shop, with its own entries overriding the shared ones. Unknown shops sell nothing.
+export function resolveShopItems(catalog: ShopCatalog, shopId: string): ShopItem[] {
+  const shop = catalog.shops[shopId];
+  if (!shop) return [];
+
+  const items = new Map<string, ShopItem>();
+  for (const item of catalog.shared) {
+    if (shop.include === '*' || shop.include.includes(item.sku)) {
+      items.set(item.sku, { ...item });
+    }
+  }
+  for (const fields of shop.items) {
+    const base = items.get(fields.sku!);
+    items.set(fields.sku!, completeItem({ ...base, ...fields }));
+  }
+  return Array.from(items.values());
+}
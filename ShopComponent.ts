@@ -1,4 +1,8 @@
 import * as hz from 'horizon/core';
+import { PanelEvents } from './inventory_ui';
+import { createDefaultShopItems, isShopItemAvailable, parseShopCatalog, resolveShopItems, ShopCatalogEvents } from './ShopCatalog';
+import { createMarketEntry, decayVolume, getPriceFactor, parseMarketSnapshot, recordVolume, restockItem, SHOP_MARKET_SNAPSHOT_VERSION, ShopMarketEntry, ShopMarketSnapshot, ShopPricing } from './ShopMarket';
+import { executeExchange, queueTransaction } from './ShopTransactions';
 
 export const ShopEvents = {
   shopOpened: new hz.NetworkEvent<{player: hz.Player, shopId: string}>('shopOpened'),
@@ -6,8 +10,33 @@ export const ShopEvents = {
   itemPurchased: new hz.NetworkEvent<{player: hz.Player, itemSKU: string, quantity: number, cost: number}>('itemPurchased'),
   itemSold: new hz.NetworkEvent<{player: hz.Player, itemSKU: string, quantity: number, price: number}>('itemSold'),
   transactionFailed: new hz.NetworkEvent<{player: hz.Player, reason: string, itemSKU?: string}>('transactionFailed'),
+
+  // Broadcast by a ShopUI whose id is the shopId, the shop answers with sendShop
+  requestShop: new hz.NetworkEvent<{player: hz.Player, shopId: string}>('requestShop'),
+  sendShop: new hz.NetworkEvent<{player: hz.Player, shopId: string, shopName: string, currencySKU: string, balance: number, items: ShopItem[], owned: ShopOwnedItem[]}>('sendShop'),
+  requestPurchase: new hz.NetworkEvent<{player: hz.Player, shopId: string, itemSKU: string, quantity: number}>('requestPurchase'),
+  requestSell: new hz.NetworkEvent<{player: hz.Player, shopId: string, itemSKU: string, quantity: number}>('requestSell'),
+  requestClose: new hz.NetworkEvent<{player: hz.Player, shopId: string}>('requestClose'),
+};
+
+// How many of a shop item the player holds, so the UI knows what can be sold, and how many they bought today
+export type ShopOwnedItem = {
+  sku: string;
+  quantity: number;
+  boughtToday: number;
+};
+
+// What a player bought on `day`, keyed by "<shopId>:<sku>" so that every shop can share the variable
+type DailyPurchases = {
+  day: string;
+  counts: { [key: string]: number };
 };
 
+// How often restocks are checked and prices recover
+const MARKET_UPDATE_INTERVAL_MS = 30 * 1000;
+// Transactions come in bursts, they are saved together this long after the first one
+const MARKET_SAVE_DELAY_MS = 5 * 1000;
+
 export interface ShopItem {
   sku: string;
   name: string;
@@ -18,6 +47,20 @@ export interface ShopItem {
   category: string;
   rarity: string;
   isAvailable: boolean;
+  // Remaining stock, shared by every player, unlimited when undefined
+  stock?: number;
+  // Every restockMinutes the stock is refilled to maxStock
+  maxStock?: number;
+  restockMinutes?: number;
+  // Most a single player may buy per (UTC) day, unlimited when undefined
+  dailyLimit?: number;
+  // Dynamic pricing overrides of the shop-wide settings, see ShopMarket
+  priceDrift?: number;
+  minPriceFactor?: number;
+  maxPriceFactor?: number;
+  // Availability window as timestamps, open-ended when undefined
+  availableFrom?: number;
+  availableUntil?: number;
 }
 
 export interface ShopInventory {
@@ -33,10 +76,29 @@ export class ShopComponent extends hz.Component<typeof ShopComponent> {
     currencySKU: { type: hz.PropTypes.String, default: "pve_currency" },
     maxInventorySize: { type: hz.PropTypes.Number, default: 50 },
     debugMode: { type: hz.PropTypes.Boolean, default: false },
+
+    // Catalog shared by every shop, this shop sells the entries listed under its shopId.
+    // The asset takes precedence over the JSON string, the default items are used when neither is set.
+    catalogAsset: { type: hz.PropTypes.Asset },
+    catalogJson: { type: hz.PropTypes.String, default: "" },
     
     // Shop interaction
     interactionRange: { type: hz.PropTypes.Number, default: 3.0 },
     autoOpenOnApproach: { type: hz.PropTypes.Boolean, default: false },
+
+    // Dynamic pricing: every unit bought raises the prices by priceDrift, every unit sold lowers them,
+    // within the min and max factors of the catalog prices. Half of the effect wears off every priceRecoveryMinutes.
+    dynamicPricing: { type: hz.PropTypes.Boolean, default: false },
+    priceDrift: { type: hz.PropTypes.Number, default: 0.01 },
+    minPriceFactor: { type: hz.PropTypes.Number, default: 0.5 },
+    maxPriceFactor: { type: hz.PropTypes.Number, default: 2 },
+    priceRecoveryMinutes: { type: hz.PropTypes.Number, default: 60 },
+
+    // World persistent variable keeping the stock and prices of this shop across restarts, each shop needs its own.
+    // Player persistent variable keeping daily purchase limits across sessions, it can be shared by every shop.
+    // Nothing is persisted when empty.
+    marketVariableKey: { type: hz.PropTypes.String, default: "" },
+    dailyPurchasesVariableKey: { type: hz.PropTypes.String, default: "" },
     
     // Visual/audio effects
     openVFX: { type: hz.PropTypes.Entity },
@@ -51,6 +113,11 @@ export class ShopComponent extends hz.Component<typeof ShopComponent> {
 
   private inventory: Map<string, ShopItem> = new Map();
   private playersInShop: Set<hz.Player> = new Set();
+  private playersInRange: Set<hz.Player> = new Set();
+  private market: Map<string, ShopMarketEntry> = new Map();
+  private basePrices: Map<string, { buyPrice: number, sellPrice: number }> = new Map();
+  private dailyPurchases: Map<hz.Player, DailyPurchases> = new Map();
+  private saveTimeoutId: number = -1;
   private openVFX?: hz.ParticleGizmo;
   private closeVFX?: hz.ParticleGizmo;
   private purchaseVFX?: hz.ParticleGizmo;
@@ -72,12 +139,42 @@ export class ShopComponent extends hz.Component<typeof ShopComponent> {
     this.purchaseSFX = this.props.purchaseSFX?.as(hz.AudioGizmo);
     this.sellSFX = this.props.sellSFX?.as(hz.AudioGizmo);
     
-    // Initialize default shop inventory
-    this.initializeInventory();
-    
-    if (this.props.debugMode) {
-      console.log(`[ShopComponent] Initialized ${this.props.shopName} with ${this.inventory.size} items`);
-    }
+    // Load the catalog with its saved stock and prices, and reload it whenever asked to without restarting the world
+    this.loadCatalog(true);
+    this.connectLocalBroadcastEvent(ShopCatalogEvents.reloadCatalog, ({ shopId }) => {
+      if (shopId === undefined || shopId === this.props.shopId) {
+        this.loadCatalog();
+      }
+    });
+
+    // Requests from the ShopUI of this shop
+    this.connectNetworkBroadcastEvent(ShopEvents.requestShop, ({ player, shopId }) => {
+      if (shopId !== this.props.shopId) return;
+      if (this.playersInShop.has(player) || this.openShop(player)) {
+        this.sendShop(player);
+      } else {
+        this.sendTransactionFailed(player, "Too far from the shop");
+      }
+    });
+    this.connectNetworkBroadcastEvent(ShopEvents.requestPurchase, async ({ player, shopId, itemSKU, quantity }) => {
+      if (shopId !== this.props.shopId) return;
+      await this.purchaseItem(player, itemSKU, quantity);
+      this.sendShop(player);
+    });
+    this.connectNetworkBroadcastEvent(ShopEvents.requestSell, async ({ player, shopId, itemSKU, quantity }) => {
+      if (shopId !== this.props.shopId) return;
+      await this.sellItem(player, itemSKU, quantity);
+      this.sendShop(player);
+    });
+    this.connectNetworkBroadcastEvent(ShopEvents.requestClose, ({ player, shopId }) => {
+      if (shopId !== this.props.shopId) return;
+      this.closeShop(player);
+    });
+
+    this.connectCodeBlockEvent(this.entity, hz.CodeBlockEvents.OnPlayerExitWorld, (player: hz.Player) => {
+      this.playersInShop.delete(player);
+      this.playersInRange.delete(player);
+    });
   }
 
   start() {
@@ -85,6 +182,12 @@ export class ShopComponent extends hz.Component<typeof ShopComponent> {
     this.entity.tags.add("shop");
     this.entity.tags.add(this.props.shopId);
     this.entity.interactionMode.set(hz.EntityInteractionMode.Grabbable);
+
+    if (this.props.autoOpenOnApproach) {
+      this.async.setInterval(() => this.checkApproach(), 500);
+    }
+
+    this.async.setInterval(() => this.updateMarket(), MARKET_UPDATE_INTERVAL_MS);
     
     if (this.props.debugMode) {
       console.log(`[ShopComponent] ${this.props.shopName} started`);
@@ -95,93 +198,242 @@ export class ShopComponent extends hz.Component<typeof ShopComponent> {
     super.dispose();
   }
 
-  private initializeInventory() {
-    // Add default shop items
-    const defaultItems: ShopItem[] = [
-      {
-        sku: "health_potion",
-        name: "Health Potion",
-        description: "Restores 50 health points",
-        buyPrice: 25,
-        sellPrice: 10,
-        maxQuantity: 10,
-        category: "consumables",
-        rarity: "common",
-        isAvailable: true
-      },
-      {
-        sku: "mana_potion",
-        name: "Mana Potion",
-        description: "Restores 50 mana points",
-        buyPrice: 30,
-        sellPrice: 12,
-        maxQuantity: 10,
-        category: "consumables",
-        rarity: "common",
-        isAvailable: true
-      },
-      {
-        sku: "steel_sword",
-        name: "Steel Sword",
-        description: "A reliable steel sword",
-        buyPrice: 150,
-        sellPrice: 75,
-        maxQuantity: 1,
-        category: "weapons",
-        rarity: "uncommon",
-        isAvailable: true
-      },
-      {
-        sku: "magical_staff",
-        name: "Magical Staff",
-        description: "A staff imbued with magical power",
-        buyPrice: 300,
-        sellPrice: 150,
-        maxQuantity: 1,
-        category: "weapons",
-        rarity: "rare",
-        isAvailable: true
-      },
-      {
-        sku: "iron_ore",
-        name: "Iron Ore",
-        description: "Raw iron ore for crafting",
-        buyPrice: 15,
-        sellPrice: 8,
-        maxQuantity: 20,
-        category: "materials",
-        rarity: "common",
-        isAvailable: true
-      },
-      {
-        sku: "gold_ore",
-        name: "Gold Ore",
-        description: "Raw gold ore for crafting",
-        buyPrice: 50,
-        sellPrice: 25,
-        maxQuantity: 10,
-        category: "materials",
-        rarity: "uncommon",
-        isAvailable: true
-      },
-      {
-        sku: "crystal_shard",
-        name: "Crystal Shard",
-        description: "A magical crystal shard",
-        buyPrice: 100,
-        sellPrice: 50,
-        maxQuantity: 5,
-        category: "materials",
-        rarity: "rare",
-        isAvailable: true
+  // Reloading replaces the items, the SKUs still sold keep their stock, restock schedule and price history.
+  // Only the first load restores the saved ones.
+  public async loadCatalog(restore: boolean = false) {
+    let items = createDefaultShopItems();
+    try {
+      let raw: unknown = null;
+      if (this.props.catalogAsset) {
+        raw = (await this.props.catalogAsset.fetchAsData()).asJSON();
+      } else if (this.props.catalogJson) {
+        raw = JSON.parse(this.props.catalogJson);
+      }
+      if (raw !== null) {
+        const catalog = parseShopCatalog(raw);
+        if (!catalog.shops[this.props.shopId]) {
+          console.error(`[ShopComponent] Catalog has no shop "${this.props.shopId}"`);
+        }
+        items = resolveShopItems(catalog, this.props.shopId);
       }
-    ];
+    } catch (error) {
+      // Keep selling the current items rather than emptying the shop
+      console.error(`[ShopComponent] Invalid catalog for ${this.props.shopName}, keeping the current items: ${error}`);
+      if (this.inventory.size > 0) return;
+    }
 
-    for (const item of defaultItems) {
-      this.inventory.set(item.sku, item);
+    if (items.length > this.props.maxInventorySize) {
+      console.error(`[ShopComponent] ${this.props.shopName} lists ${items.length} items, only the first ${this.props.maxInventorySize} are sold`);
+      items = items.slice(0, this.props.maxInventorySize);
+    }
+
+    const previousInventory = this.inventory;
+    const previousMarket = this.market;
+    this.inventory = new Map(items.map(item => [item.sku, item]));
+    this.basePrices = new Map(items.map(item => [item.sku, { buyPrice: item.buyPrice, sellPrice: item.sellPrice }]));
+    this.market = new Map();
+    for (const item of items) {
+      const previous = previousInventory.get(item.sku);
+      // Stock held by purchases in flight is given back to the new item
+      if (previous?.stock !== undefined && item.stock !== undefined) {
+        item.stock = item.maxStock !== undefined ? Math.min(previous.stock, item.maxStock) : previous.stock;
+      }
+      const entry = previousMarket.get(item.sku);
+      if (entry) {
+        this.market.set(item.sku, entry);
+      }
+    }
+
+    if (restore) {
+      await this.restoreMarket();
+    } else {
+      this.saveMarket();
+    }
+    this.updateMarket();
+
+    if (this.props.debugMode) {
+      console.log(`[ShopComponent] Loaded ${this.props.shopName} with ${this.inventory.size} items`);
     }
   }
 
+  private async restoreMarket() {
+    const storage = this.world.persistentStorageWorld;
+    if (!this.props.marketVariableKey || !storage) return;
+
+    try {
+      const snapshot = parseMarketSnapshot(await storage.fetchWorldVariableAsync<ShopMarketSnapshot>(this.props.marketVariableKey));
+      if (!snapshot) return;
+
+      for (const sku of Object.keys(snapshot.items)) {
+        const item = this.inventory.get(sku);
+        if (!item) continue;
+        const { stock, ...entry } = snapshot.items[sku];
+        this.market.set(sku, entry);
+        // Items the catalog no longer limits stay unlimited
+        if (item.stock !== undefined && stock !== undefined) {
+          item.stock = stock;
+        }
+      }
+    } catch (error) {
+      console.error(`[ShopComponent] Could not restore the stock and prices of ${this.props.shopName}: ${error}`);
+    }
+  }
+
+  private saveMarket() {
+    if (!this.props.marketVariableKey || this.saveTimeoutId !== -1) return;
+
+    this.saveTimeoutId = this.async.setTimeout(() => {
+      this.saveTimeoutId = -1;
+      this.writeMarket();
+    }, MARKET_SAVE_DELAY_MS);
+  }
+
+  // Instances of the world share the variable, the last one to save wins
+  private async writeMarket() {
+    const storage = this.world.persistentStorageWorld;
+    if (!storage) return;
+
+    const snapshot: ShopMarketSnapshot = { version: SHOP_MARKET_SNAPSHOT_VERSION, items: {} };
+    for (const item of this.inventory.values()) {
+      snapshot.items[item.sku] = { ...this.getMarketEntry(item.sku) };
+      if (item.stock !== undefined) {
+        snapshot.items[item.sku].stock = item.stock;
+      }
+    }
+
+    try {
+      await storage.setWorldVariableAcrossAllInstancesAsync(this.props.marketVariableKey, snapshot);
+    } catch (error) {
+      console.error(`[ShopComponent] Could not save the stock and prices of ${this.props.shopName}: ${error}`);
+    }
+  }
+
+  private getMarketEntry(itemSKU: string): ShopMarketEntry {
+    let entry = this.market.get(itemSKU);
+    if (!entry) {
+      entry = createMarketEntry(Date.now());
+      this.market.set(itemSKU, entry);
+    }
+    return entry;
+  }
+
+  private getPricing(): ShopPricing {
+    return {
+      drift: this.props.priceDrift,
+      minFactor: this.props.minPriceFactor,
+      maxFactor: this.props.maxPriceFactor,
+      recoveryMs: this.props.priceRecoveryMinutes * 60 * 1000
+    };
+  }
+
+  // Restocks the items that are due and lets prices recover
+  private updateMarket() {
+    const now = Date.now();
+    const pricing = this.getPricing();
+    let restocked = false;
+
+    for (const item of this.inventory.values()) {
+      const entry = this.getMarketEntry(item.sku);
+      if (restockItem(item, entry, now)) {
+        restocked = true;
+        if (this.props.debugMode) {
+          console.log(`[ShopComponent] Restocked ${item.name} to ${item.stock}`);
+        }
+      }
+      if (this.props.dynamicPricing) {
+        decayVolume(entry, now, pricing.recoveryMs);
+        this.applyPrice(item, entry, pricing);
+      }
+    }
+
+    if (restocked) {
+      this.saveMarket();
+    }
+  }
+
+  // Moves the prices of an item after units of it were bought (positive) or sold (negative)
+  private recordTrade(item: ShopItem, units: number) {
+    const pricing = this.getPricing();
+    const entry = this.getMarketEntry(item.sku);
+    recordVolume(entry, units, Date.now(), pricing.recoveryMs);
+    if (this.props.dynamicPricing) {
+      this.applyPrice(item, entry, pricing);
+    }
+    this.saveMarket();
+  }
+
+  private applyPrice(item: ShopItem, entry: ShopMarketEntry, pricing: ShopPricing) {
+    const base = this.basePrices.get(item.sku) ?? { buyPrice: item.buyPrice, sellPrice: item.sellPrice };
+    const factor = getPriceFactor(item, entry, pricing);
+    item.buyPrice = Math.round(base.buyPrice * factor);
+    // The shop never buys an item back for more than it sells it
+    item.sellPrice = Math.min(Math.round(base.sellPrice * factor), item.buyPrice);
+  }
+
+  private getDailyPurchases(player: hz.Player): DailyPurchases {
+    const today = new Date().toISOString().slice(0, 10);
+    let purchases = this.dailyPurchases.get(player);
+    if (!purchases && this.props.dailyPurchasesVariableKey && this.world.persistentStorage) {
+      purchases = this.world.persistentStorage.getPlayerVariable<DailyPurchases>(player, this.props.dailyPurchasesVariableKey) ?? undefined;
+    }
+    if (!purchases || purchases.day !== today || typeof purchases.counts !== 'object') {
+      purchases = { day: today, counts: {} };
+    }
+    this.dailyPurchases.set(player, purchases);
+    return purchases;
+  }
+
+  public getBoughtToday(player: hz.Player, itemSKU: string): number {
+    return this.getDailyPurchases(player).counts[`${this.props.shopId}:${itemSKU}`] ?? 0;
+  }
+
+  // A negative quantity gives back units that were counted for a purchase that failed
+  private addBoughtToday(player: hz.Player, itemSKU: string, quantity: number) {
+    const purchases = this.getDailyPurchases(player);
+    const key = `${this.props.shopId}:${itemSKU}`;
+    purchases.counts[key] = Math.max(0, (purchases.counts[key] ?? 0) + quantity);
+
+    if (this.props.dailyPurchasesVariableKey && this.world.persistentStorage) {
+      this.world.persistentStorage.setPlayerVariable<DailyPurchases>(player, this.props.dailyPurchasesVariableKey, purchases);
+    }
+  }
+
+  // Opens the shop for players walking into range and closes it for players walking away
+  private checkApproach() {
+    for (const player of this.world.getPlayers()) {
+      const inRange = this.canPlayerAccess(player);
+      if (inRange && !this.playersInRange.has(player)) {
+        this.playersInRange.add(player);
+        this.openShop(player);
+      } else if (!inRange && this.playersInRange.has(player)) {
+        this.playersInRange.delete(player);
+        this.closeShop(player);
+      }
+    }
+  }
+
+  private async sendShop(player: hz.Player) {
+    const items = this.getInventory();
+    const owned: ShopOwnedItem[] = [];
+    for (const item of items) {
+      owned.push({
+        sku: item.sku,
+        quantity: Number(await this.getPlayerItemQuantity(player, item.sku)),
+        boughtToday: this.getBoughtToday(player, item.sku)
+      });
+    }
+
+    this.sendNetworkBroadcastEvent(ShopEvents.sendShop, {
+      player: player,
+      shopId: this.props.shopId,
+      shopName: this.props.shopName,
+      currencySKU: this.props.currencySKU,
+      balance: Number(await this.getPlayerCurrency(player)),
+      items: items,
+      owned: owned
+    });
+  }
+
   public canPlayerAccess(player: hz.Player): boolean {
     const playerPosition = player.position.get();
     const shopPosition = this.entity.position.get();
@@ -206,6 +458,9 @@ export class ShopComponent extends hz.Component<typeof ShopComponent> {
       shopId: this.props.shopId
     });
 
+    // Show the ShopUI of this shop, its id is the shopId
+    this.sendNetworkBroadcastEvent(PanelEvents.ShowPanel, { player: player, id: this.props.shopId });
+
     if (this.props.debugMode) {
       console.log(`[ShopComponent] ${player.name.get()} opened ${this.props.shopName}`);
     }
@@ -229,6 +484,8 @@ export class ShopComponent extends hz.Component<typeof ShopComponent> {
       shopId: this.props.shopId
     });
 
+    this.sendNetworkBroadcastEvent(PanelEvents.HidePanel, { player: player, id: this.props.shopId });
+
     if (this.props.debugMode) {
       console.log(`[ShopComponent] ${player.name.get()} closed ${this.props.shopName}`);
     }
@@ -242,9 +499,19 @@ export class ShopComponent extends hz.Component<typeof ShopComponent> {
       return false;
     }
 
+    if (!Number.isInteger(quantity) || quantity < 1) {
+      this.sendTransactionFailed(player, "Invalid quantity", itemSKU);
+      return false;
+    }
+
     const item = this.inventory.get(itemSKU);
-    if (!item || !item.isAvailable) {
-      this.sendTransactionFailed(player, "Item not available", itemSKU);
+    if (!item || !isShopItemAvailable(item)) {
+      this.sendTransactionFailed(player, item?.stock === 0 ? "Out of stock" : "Item not available", itemSKU);
+      return false;
+    }
+
+    if (item.stock !== undefined && quantity > item.stock) {
+      this.sendTransactionFailed(player, "Not enough stock", itemSKU);
       return false;
     }
 
@@ -253,43 +520,70 @@ export class ShopComponent extends hz.Component<typeof ShopComponent> {
       return false;
     }
 
-    const totalCost = item.buyPrice * quantity;
-    
-    // Check if player has enough currency
-    try {
-      const playerCurrency = await hz.WorldInventory.getPlayerEntitlementQuantity(player, this.props.currencySKU);
-      if (playerCurrency < totalCost) {
-        this.sendTransactionFailed(player, "Insufficient currency", itemSKU);
-        return false;
-      }
-
-      // Deduct currency and grant item
-      hz.WorldInventory.consumeItemForPlayer(player, this.props.currencySKU, totalCost);
-      hz.WorldInventory.grantItemToPlayer(player, itemSKU, quantity);
+    if (item.dailyLimit !== undefined && this.getBoughtToday(player, itemSKU) + quantity > item.dailyLimit) {
+      this.sendTransactionFailed(player, "Daily limit reached", itemSKU);
+      return false;
+    }
 
-      // Play purchase effects
-      this.playPurchaseEffects();
+    // Hold the stock and the daily limit while the transaction waits its turn, so that nobody can buy them meanwhile
+    if (item.stock !== undefined) {
+      item.stock -= quantity;
+    }
+    if (item.dailyLimit !== undefined) {
+      this.addBoughtToday(player, itemSKU, quantity);
+    }
 
-      // Send purchase event
-      this.sendNetworkEvent(this.entity, ShopEvents.itemPurchased, {
+    // Queued behind the player's other transactions, maxQuantity caps what they hold afterwards.
+    // Priced once its turn comes, dynamic prices may have moved while it waited.
+    let totalCost = 0;
+    const result = await queueTransaction(player, () => {
+      const priced = this.inventory.get(itemSKU) ?? item;
+      totalCost = priced.buyPrice * quantity;
+      return executeExchange(this, {
         player: player,
-        itemSKU: itemSKU,
-        quantity: quantity,
-        cost: totalCost
+        costSKU: this.props.currencySKU,
+        costQuantity: totalCost,
+        rewardSKU: itemSKU,
+        rewardQuantity: quantity,
+        maxOwned: priced.maxQuantity
       });
-
-      if (this.props.debugMode) {
-        console.log(`[ShopComponent] ${player.name.get()} purchased ${quantity}x ${item.name} for ${totalCost} currency`);
+    });
+    // The catalog may have been reloaded meanwhile, the item is looked up again
+    const current = this.inventory.get(itemSKU);
+    if (!result.success) {
+      if (current?.stock !== undefined) {
+        current.stock += quantity;
       }
-
-      return true;
-    } catch (error) {
-      if (this.props.debugMode) {
-        console.error(`[ShopComponent] Purchase failed:`, error);
+      if (item.dailyLimit !== undefined) {
+        this.addBoughtToday(player, itemSKU, -quantity);
       }
-      this.sendTransactionFailed(player, "Transaction failed", itemSKU);
+      const reason = result.failure === 'insufficientCost' ? "Insufficient currency"
+        : result.failure === 'exceedsMaxOwned' ? "Quantity exceeds maximum"
+        : "Transaction failed";
+      this.sendTransactionFailed(player, reason, itemSKU);
       return false;
     }
+
+    if (current) {
+      this.recordTrade(current, quantity);
+    }
+
+    // Play purchase effects
+    this.playPurchaseEffects();
+
+    // Send purchase event
+    this.sendNetworkEvent(this.entity, ShopEvents.itemPurchased, {
+      player: player,
+      itemSKU: itemSKU,
+      quantity: quantity,
+      cost: totalCost
+    });
+
+    if (this.props.debugMode) {
+      console.log(`[ShopComponent] ${player.name.get()} purchased ${quantity}x ${item.name} for ${totalCost} currency`);
+    }
+
+    return true;
   }
 
   public async sellItem(player: hz.Player, itemSKU: string, quantity: number = 1): Promise<boolean> {
@@ -298,49 +592,55 @@ export class ShopComponent extends hz.Component<typeof ShopComponent> {
       return false;
     }
 
+    if (!Number.isInteger(quantity) || quantity < 1) {
+      this.sendTransactionFailed(player, "Invalid quantity", itemSKU);
+      return false;
+    }
+
     const item = this.inventory.get(itemSKU);
     if (!item) {
       this.sendTransactionFailed(player, "Item not available for sale", itemSKU);
       return false;
     }
 
-    // Check if player has the item
-    try {
-      const playerItemQuantity = await hz.WorldInventory.getPlayerEntitlementQuantity(player, itemSKU);
-      if (playerItemQuantity < quantity) {
-        this.sendTransactionFailed(player, "Insufficient items", itemSKU);
-        return false;
-      }
-
-      const totalPrice = item.sellPrice * quantity;
-
-      // Consume item and grant currency
-      hz.WorldInventory.consumeItemForPlayer(player, itemSKU, quantity);
-      hz.WorldInventory.grantItemToPlayer(player, this.props.currencySKU, totalPrice);
-
-      // Play sell effects
-      this.playSellEffects();
-
-      // Send sell event
-      this.sendNetworkEvent(this.entity, ShopEvents.itemSold, {
+    // The same transaction as a purchase, with the item as the cost and the currency as the reward
+    let totalPrice = 0;
+    const result = await queueTransaction(player, () => {
+      totalPrice = (this.inventory.get(itemSKU) ?? item).sellPrice * quantity;
+      return executeExchange(this, {
         player: player,
-        itemSKU: itemSKU,
-        quantity: quantity,
-        price: totalPrice
+        costSKU: itemSKU,
+        costQuantity: quantity,
+        rewardSKU: this.props.currencySKU,
+        rewardQuantity: totalPrice
       });
+    });
+    if (!result.success) {
+      this.sendTransactionFailed(player, result.failure === 'insufficientCost' ? "Insufficient items" : "Transaction failed", itemSKU);
+      return false;
+    }
 
-      if (this.props.debugMode) {
-        console.log(`[ShopComponent] ${player.name.get()} sold ${quantity}x ${item.name} for ${totalPrice} currency`);
-      }
+    const current = this.inventory.get(itemSKU);
+    if (current) {
+      this.recordTrade(current, -quantity);
+    }
 
-      return true;
-    } catch (error) {
-      if (this.props.debugMode) {
-        console.error(`[ShopComponent] Sale failed:`, error);
-      }
-      this.sendTransactionFailed(player, "Transaction failed", itemSKU);
-      return false;
+    // Play sell effects
+    this.playSellEffects();
+
+    // Send sell event
+    this.sendNetworkEvent(this.entity, ShopEvents.itemSold, {
+      player: player,
+      itemSKU: itemSKU,
+      quantity: quantity,
+      price: totalPrice
+    });
+
+    if (this.props.debugMode) {
+      console.log(`[ShopComponent] ${player.name.get()} sold ${quantity}x ${item.name} for ${totalPrice} currency`);
     }
+
+    return true;
   }
 
   private sendTransactionFailed(player: hz.Player, reason: string, itemSKU?: string) {
@@ -350,6 +650,13 @@ export class ShopComponent extends hz.Component<typeof ShopComponent> {
       itemSKU: itemSKU
     });
 
+    // Also tell the player, whose ShopUI explains the failure
+    this.sendNetworkEvent(player, ShopEvents.transactionFailed, {
+      player: player,
+      reason: reason,
+      itemSKU: itemSKU
+    });
+
     if (this.props.debugMode) {
       console.log(`[ShopComponent] Transaction failed for ${player.name.get()}: ${reason}`);
     }
@@ -416,6 +723,10 @@ export class ShopComponent extends hz.Component<typeof ShopComponent> {
     return Array.from(this.inventory.values()).filter(item => item.rarity === rarity);
   }
 
+  public getAvailableItems(): ShopItem[] {
+    return Array.from(this.inventory.values()).filter(item => isShopItemAvailable(item));
+  }
+
   public getPlayersInShop(): hz.Player[] {
     return Array.from(this.playersInShop);
   }
@@ -426,6 +737,7 @@ export class ShopComponent extends hz.Component<typeof ShopComponent> {
     }
 
     this.inventory.set(item.sku, item);
+    this.basePrices.set(item.sku, { buyPrice: item.buyPrice, sellPrice: item.sellPrice });
     
     if (this.props.debugMode) {
       console.log(`[ShopComponent] Added ${item.name} to inventory`);
@@ -463,8 +775,16 @@ export class ShopComponent extends hz.Component<typeof ShopComponent> {
     return this.updateItem(itemSKU, { isAvailable });
   }
 
+  // Sets the catalog prices, dynamic pricing keeps drifting around them
   public setItemPrice(itemSKU: string, buyPrice: number, sellPrice: number): boolean {
-    return this.updateItem(itemSKU, { buyPrice, sellPrice });
+    if (!this.updateItem(itemSKU, { buyPrice, sellPrice })) {
+      return false;
+    }
+    this.basePrices.set(itemSKU, { buyPrice, sellPrice });
+    if (this.props.dynamicPricing) {
+      this.applyPrice(this.inventory.get(itemSKU)!, this.getMarketEntry(itemSKU), this.getPricing());
+    }
+    return true;
   }
 
   public getCurrencySKU(): string {
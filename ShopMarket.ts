@@ -0,0 +1,86 @@
+import { ShopItem } from './ShopComponent';
+
+/**
+ * What a shop remembers of an item between server restarts, besides its stock.
+ * `volume` is the net number of units bought (positive) or sold (negative) lately,
+ * halved every price recovery period so that prices drift back to their catalog value.
+ */
+export type ShopMarketEntry = {
+  restockedAt: number;
+  volume: number;
+  volumeAt: number;
+};
+
+// Saved in the shop's world persistent variable
+export type ShopMarketSnapshot = {
+  version: number;
+  items: { [sku: string]: ShopMarketEntry & { stock?: number } };
+};
+
+export const SHOP_MARKET_SNAPSHOT_VERSION = 1;
+
+// Shop-wide pricing defaults, an item's own priceDrift, minPriceFactor and maxPriceFactor take precedence
+export type ShopPricing = {
+  drift: number;
+  minFactor: number;
+  maxFactor: number;
+  recoveryMs: number;
+};
+
+export function createMarketEntry(now: number): ShopMarketEntry {
+  return { restockedAt: now, volume: 0, volumeAt: now };
+}
+
+// Refills the stock of an item to maxStock once its restock period has passed, returns whether it was due
+export function restockItem(item: ShopItem, entry: ShopMarketEntry, now: number): boolean {
+  if (!item.restockMinutes || item.maxStock === undefined) return false;
+
+  const period = item.restockMinutes * 60 * 1000;
+  const periods = Math.floor((now - entry.restockedAt) / period);
+  if (periods < 1) return false;
+
+  // Stay on schedule, a restock missed while the server was down is not pushed back
+  entry.restockedAt += periods * period;
+  item.stock = item.maxStock;
+  return true;
+}
+
+export function decayVolume(entry: ShopMarketEntry, now: number, recoveryMs: number) {
+  if (recoveryMs > 0 && now > entry.volumeAt) {
+    entry.volume *= Math.pow(0.5, (now - entry.volumeAt) / recoveryMs);
+  }
+  entry.volumeAt = now;
+}
+
+export function recordVolume(entry: ShopMarketEntry, units: number, now: number, recoveryMs: number) {
+  decayVolume(entry, now, recoveryMs);
+  entry.volume += units;
+}
+
+// Multiplier of the catalog prices, above 1 when the item sells out fast and below 1 when players dump it
+export function getPriceFactor(item: ShopItem, entry: ShopMarketEntry, pricing: ShopPricing): number {
+  const drift = item.priceDrift ?? pricing.drift;
+  const minFactor = item.minPriceFactor ?? pricing.minFactor;
+  const maxFactor = item.maxPriceFactor ?? pricing.maxFactor;
+  return Math.max(minFactor, Math.min(maxFactor, 1 + drift * entry.volume));
+}
+
+// Reads a saved snapshot, dropping entries that do not look like one
+export function parseMarketSnapshot(raw: unknown): ShopMarketSnapshot | null {
+  if (!raw || typeof raw !== 'object') return null;
+  const saved = raw as Partial<ShopMarketSnapshot>;
+  if (typeof saved.version !== 'number' || !saved.items || typeof saved.items !== 'object') return null;
+
+  const items: ShopMarketSnapshot['items'] = {};
+  for (const sku of Object.keys(saved.items)) {
+    const entry = saved.items[sku];
+    if (!entry || typeof entry.restockedAt !== 'number' || typeof entry.volume !== 'number' || typeof entry.volumeAt !== 'number') {
+      continue;
+    }
+    items[sku] = { restockedAt: entry.restockedAt, volume: entry.volume, volumeAt: entry.volumeAt };
+    if (typeof entry.stock === 'number' && entry.stock >= 0) {
+      items[sku].stock = Math.floor(entry.stock);
+    }
+  }
+  return { version: saved.version, items: items };
+}
@@ -0,0 +1,205 @@
+import * as hz from 'horizon/core';
+
+/**
+ * One player paying `costQuantity` of `costSKU` to receive `rewardQuantity` of `rewardSKU`,
+ * e.g. currency for a shop item, a shop item for currency, or pies for gems.
+ */
+export type ItemExchange = {
+  player: hz.Player;
+  costSKU: string;
+  costQuantity: number;
+  rewardSKU: string;
+  rewardQuantity: number;
+  // Most of rewardSKU the player may hold once the exchange is done, unlimited when undefined
+  maxOwned?: number;
+};
+
+export type ItemExchangeResult =
+  | { success: true }
+  // insufficientCost comes with how much more of costSKU the player needs
+  | { success: false, failure: 'insufficientCost', shortfall: number }
+  | { success: false, failure: 'exceedsMaxOwned' | 'failed' };
+
+// Tail of the transaction chain of each player, every inventory change of a player waits for the previous one
+const playerQueues = new Map<hz.Player, Promise<unknown>>();
+
+// A deduction or grant is given VERIFY_RETRIES waits of VERIFY_DELAY_MS to show up
+const VERIFY_RETRIES = 10;
+const VERIFY_DELAY_MS = 500;
+
+/**
+ * Runs `work` once every transaction queued before it for the same player has settled,
+ * so that the balances it reads cannot change under it.
+ */
+export function queueTransaction<T>(player: hz.Player, work: () => Promise<T>): Promise<T> {
+  const previous = playerQueues.get(player) ?? Promise.resolve();
+  const result = previous.then(work, work);
+  const tail = result.catch(() => undefined);
+  playerQueues.set(player, tail);
+
+  // Forget players with nothing left queued
+  tail.then(() => {
+    if (playerQueues.get(player) === tail) {
+      playerQueues.delete(player);
+    }
+  });
+  return result;
+}
+
+/**
+ * Queues a grant that needs no verification, e.g. a pickup or an achievement reward.
+ * Going through the queue keeps it from landing while another transaction of the player verifies the same SKU.
+ */
+export function queueGrant(player: hz.Player, sku: string, quantity: number): Promise<void> {
+  return queueTransaction(player, () => hz.WorldInventory.grantItemToPlayer(player, sku, quantity))
+    .catch(error => console.error(`[ShopTransactions] Could not grant ${quantity}x ${sku} to ${player.name.get()}: ${error}`));
+}
+
+// Queues an exchange, see executeExchange
+export function exchangeItems(component: hz.Component<any>, exchange: ItemExchange): Promise<ItemExchangeResult> {
+  return queueTransaction(exchange.player, () => executeExchange(component, exchange));
+}
+
+/**
+ * Takes the cost, waits until the player's entitlements show it was taken, then grants the reward and waits for it too.
+ * A reward that still does not show up after a second wait is rolled back by granting the cost again.
+ * Only call it from inside queueTransaction, exchangeItems does both.
+ */
+export async function executeExchange(component: hz.Component<any>, exchange: ItemExchange): Promise<ItemExchangeResult> {
+  const { player, costSKU, costQuantity, rewardSKU, rewardQuantity } = exchange;
+  const name = player.name.get();
+
+  let costBefore: number;
+  let rewardBefore: number;
+  try {
+    costBefore = await getQuantity(player, costSKU);
+    rewardBefore = await getQuantity(player, rewardSKU);
+  } catch (error) {
+    console.error(`[ShopTransactions] Could not read the inventory of ${name}: ${error}`);
+    return { success: false, failure: 'failed' };
+  }
+
+  if (costBefore < costQuantity) {
+    return { success: false, failure: 'insufficientCost', shortfall: costQuantity - costBefore };
+  }
+  if (exchange.maxOwned !== undefined && rewardBefore + rewardQuantity > exchange.maxOwned) {
+    return { success: false, failure: 'exceedsMaxOwned' };
+  }
+
+  // Nothing was granted yet when taking the cost fails, so there is nothing to roll back
+  if (!await takeItems(component, player, costSKU, costQuantity, costBefore)) {
+    return { success: false, failure: 'failed' };
+  }
+  if (await giveItems(component, player, rewardSKU, rewardQuantity, rewardBefore)) {
+    return { success: true };
+  }
+
+  // A slow grant may still land, giving the cost back then would hand out both
+  try {
+    if (await waitForQuantity(component, player, rewardSKU, current => current >= rewardBefore + rewardQuantity)) {
+      console.warn(`[ShopTransactions] ${rewardQuantity}x ${rewardSKU} showed up late for ${name}, keeping the exchange`);
+      return { success: true };
+    }
+  } catch (error) {
+    console.error(`[ShopTransactions] Could not read the inventory of ${name}: ${error}`);
+  }
+
+  // Logged so that a grant landing after the rollback can be traced and reconciled
+  console.error(`[ShopTransactions] Rolling back ${costQuantity}x ${costSKU} -> ${rewardQuantity}x ${rewardSKU} for ${name}, held ${rewardBefore}x ${rewardSKU} before`);
+  if (await giveItems(component, player, costSKU, costQuantity)) {
+    console.warn(`[ShopTransactions] Gave ${costQuantity}x ${costSKU} back to ${name}`);
+  } else {
+    console.error(`[ShopTransactions] Could not give ${costQuantity}x ${costSKU} back to ${name}`);
+  }
+  return { success: false, failure: 'failed' };
+}
+
+/**
+ * Consumes items of a player and waits until their entitlements show it.
+ * `before` is how many they held beforehand, read again when omitted.
+ * Like executeExchange, only call it from inside queueTransaction.
+ */
+export async function takeItems(component: hz.Component<any>, player: hz.Player, sku: string, quantity: number, before?: number): Promise<boolean> {
+  const name = player.name.get();
+  try {
+    const held = before ?? await getQuantity(player, sku);
+    await hz.WorldInventory.consumeItemForPlayer(player, sku, quantity);
+    if (await waitForQuantity(component, player, sku, current => current <= held - quantity)) {
+      return true;
+    }
+    console.error(`[ShopTransactions] Taking ${quantity}x ${sku} from ${name} could not be verified`);
+  } catch (error) {
+    console.error(`[ShopTransactions] Could not take ${quantity}x ${sku} from ${name}: ${error}`);
+  }
+  return false;
+}
+
+// Grants items to a player and waits until their entitlements show it, see takeItems
+export async function giveItems(component: hz.Component<any>, player: hz.Player, sku: string, quantity: number, before?: number): Promise<boolean> {
+  const name = player.name.get();
+  try {
+    const held = before ?? await getQuantity(player, sku);
+    await hz.WorldInventory.grantItemToPlayer(player, sku, quantity);
+    if (await waitForQuantity(component, player, sku, current => current >= held + quantity)) {
+      return true;
+    }
+    console.error(`[ShopTransactions] Granting ${quantity}x ${sku} to ${name} could not be verified`);
+  } catch (error) {
+    console.error(`[ShopTransactions] Could not grant ${quantity}x ${sku} to ${name}: ${error}`);
+  }
+  return false;
+}
+
+// One verified consume (give false) or grant (give true) of a transaction spanning several items or players
+export type ItemStep = {
+  player: hz.Player;
+  sku: string;
+  quantity: number;
+  give: boolean;
+};
+
+/**
+ * Runs the steps in order. A step that fails undoes every step before it, most recent first,
+ * so that either every step went through or, unless an undo fails too, nothing changed.
+ * Only call it from inside queueTransaction, for every player of the steps.
+ */
+export async function executeSteps(component: hz.Component<any>, steps: ItemStep[]): Promise<boolean> {
+  const done: ItemStep[] = [];
+  for (const step of steps) {
+    const succeeded = step.give
+      ? await giveItems(component, step.player, step.sku, step.quantity)
+      : await takeItems(component, step.player, step.sku, step.quantity);
+    if (succeeded) {
+      done.push(step);
+      continue;
+    }
+
+    for (const undo of done.reverse()) {
+      const undone = undo.give
+        ? await takeItems(component, undo.player, undo.sku, undo.quantity)
+        : await giveItems(component, undo.player, undo.sku, undo.quantity);
+      if (!undone) {
+        console.error(`[ShopTransactions] Could not undo ${undo.give ? 'granting' : 'taking'} ${undo.quantity}x ${undo.sku} for ${undo.player.name.get()}`);
+      }
+    }
+    return false;
+  }
+  return true;
+}
+
+async function getQuantity(player: hz.Player, sku: string): Promise<number> {
+  return Number(await hz.WorldInventory.getPlayerEntitlementQuantity(player, sku));
+}
+
+// The backend applies consumes and grants in its own time, so they are verified by polling the entitlements
+async function waitForQuantity(component: hz.Component<any>, player: hz.Player, sku: string, done: (quantity: number) => boolean): Promise<boolean> {
+  for (let retry = 0; ; retry++) {
+    if (done(await getQuantity(player, sku))) {
+      return true;
+    }
+    if (retry >= VERIFY_RETRIES) {
+      return false;
+    }
+    await new Promise(resolve => component.async.setTimeout(resolve, VERIFY_DELAY_MS));
+  }
+}
@@ -0,0 +1,327 @@
+import * as hz from 'horizon/core';
+import { Player } from 'horizon/core';
+import { Binding, Text, UINode, View } from 'horizon/ui';
+import { isShopItemAvailable, SHOP_RARITIES } from './ShopCatalog';
+import { ShopEvents, ShopItem, ShopOwnedItem } from './ShopComponent';
+import { Button, Grid, Item, Panel, Popup, Spinner, StyleSheet } from './inventory_ui';
+
+// What the player reads for each ShopComponent failure reason
+const FRIENDLY_REASONS: { [reason: string]: string } = {
+  "Player not in shop": "Walk up to the shop first.",
+  "Too far from the shop": "Walk up to the shop first.",
+  "Item not available": "This item is not for sale right now.",
+  "Out of stock": "Sold out, come back later!",
+  "Not enough stock": "There aren't that many left.",
+  "Daily limit reached": "That's all you can buy today, come back tomorrow!",
+  "Quantity exceeds maximum": "You can't hold that many.",
+  "Insufficient currency": "You can't afford that yet.",
+  "Item not available for sale": "The shop doesn't buy this item.",
+  "Insufficient items": "You don't have that many to sell.",
+  "Invalid quantity": "Pick a quantity of at least 1.",
+  "Transaction failed": "Something went wrong, please try again.",
+};
+
+function capitalize(text: string): string {
+  return `${text.charAt(0).toUpperCase()}${text.slice(1)}`;
+}
+
+const LABEL_STYLE = {
+  fontSize: StyleSheet.TEXT_SIZE_BUTTON,
+  fontFamily: StyleSheet.TEXT_FONT_PRIMARY,
+  paddingLeft: StyleSheet.PADDING_SMALL,
+  paddingRight: StyleSheet.PADDING_SMALL,
+  alignSelf: "center" as const
+};
+
+/**
+ * A shop item with its prices, greyed out when it can neither be bought nor sold.
+ */
+class ShopItemView extends Item {
+  protected readonly owner: ShopUI;
+  public readonly item: ShopItem;
+  private readonly owned: number;
+
+  constructor({ item, owned, boughtToday, owner }: { item: ShopItem; owned: number; boughtToday: number; owner: ShopUI }) {
+    const stock = item.stock !== undefined ? ` · ${item.stock} left` : "";
+    const limit = item.dailyLimit !== undefined ? ` · ${Math.max(0, item.dailyLimit - boughtToday)} today` : "";
+    super({
+      title: owned > 0 ? `${item.name} (${owned})` : item.name,
+      description: `Buy ${item.buyPrice} · Sell ${item.sellPrice}${stock}${limit}`,
+      owner: owner
+    });
+    this.owner = owner;
+    this.item = item;
+    this.owned = owned;
+  }
+
+  protected onClick(): void {
+    this.owner.selectItem(this.item);
+  }
+
+  protected canBeClicked(): boolean {
+    return super.canBeClicked() && (isShopItemAvailable(this.item) || this.owned > 0);
+  }
+}
+
+/**
+ * Header tab that filters the shop to one category, or every category when `category` is null.
+ */
+class CategoryTab extends Button {
+  private readonly color: Binding<string> = new Binding<string>(StyleSheet.TEXT_COLOR_SECONDARY);
+
+  constructor(private readonly owner: ShopUI, public readonly category: string | null) {
+    super();
+  }
+
+  protected constructContent(): UINode[] {
+    return [Text({ text: this.category ? capitalize(this.category) : "All", style: { ...LABEL_STYLE, color: this.color } })];
+  }
+
+  protected onClick(_: Player): void {
+    this.owner.selectCategory(this.category);
+  }
+
+  public setSelected(selected: boolean) {
+    this.color.set(selected ? StyleSheet.TEXT_COLOR_BRIGHT : StyleSheet.TEXT_COLOR_SECONDARY);
+  }
+}
+
+/**
+ * Header button cycling the rarity filter through every rarity and back to none.
+ */
+class RarityFilterButton extends Button {
+  private readonly label: Binding<string> = new Binding<string>("Any rarity");
+
+  constructor(private readonly owner: ShopUI) {
+    super();
+  }
+
+  protected constructContent(): UINode[] {
+    return [Text({ text: this.label, style: { ...LABEL_STYLE, color: StyleSheet.TEXT_COLOR_PRIMARY } })];
+  }
+
+  protected onClick(_: Player): void {
+    const options = [null, ...SHOP_RARITIES];
+    const next = options[(options.indexOf(this.owner.SelectedRarity) + 1) % options.length];
+    this.label.set(next ? capitalize(next) : "Any rarity");
+    this.owner.selectRarity(next);
+  }
+}
+
+/**
+ * Footer button, used for the quantity stepper and the buy and sell actions.
+ */
+class FooterButton extends Button {
+  constructor(private readonly owner: ShopUI, private readonly label: string, private readonly action: () => void) {
+    super();
+  }
+
+  protected constructContent(): UINode[] {
+    return [Text({ text: this.label, style: { ...LABEL_STYLE, color: StyleSheet.TEXT_COLOR_BRIGHT } })];
+  }
+
+  protected canBeClicked(_: Player): boolean {
+    return !this.owner.Busy;
+  }
+
+  protected onClick(_: Player): void {
+    this.action();
+  }
+}
+
+/**
+ * Per-player panel of a ShopComponent, its id must be the shopId of the shop.
+ * Opened by the shop (on approach when autoOpenOnApproach is set) or by any PanelEvents.ShowPanel.
+ */
+export class ShopUI extends Panel {
+  private shopItems: ShopItem[] = [];
+  private owned: Map<string, ShopOwnedItem> = new Map();
+  private items: ShopItemView[] = [];
+  private tabs: CategoryTab[] = [];
+  private rarityFilter: RarityFilterButton = new RarityFilterButton(this);
+  private selectedCategory: string | null = null;
+  private selectedRarity: string | null = null;
+  private selectedItem: ShopItem | undefined = undefined;
+  private quantity = 1;
+  private opened = false;
+
+  private grid: Grid | undefined = undefined;
+  private popup: Popup | undefined = undefined;
+  private spinner: Spinner | undefined = undefined;
+  private readonly title: Binding<string> = new Binding<string>("Shop");
+  private readonly balance: Binding<string> = new Binding<string>("");
+  private readonly selection: Binding<string> = new Binding<string>("Select an item");
+  private readonly quantityText: Binding<string> = new Binding<string>("1");
+
+  public get Grid() { return this.grid; }
+  public get SelectedRarity() { return this.selectedRarity; }
+
+  protected initialize(): void {
+    if (!this.Id) {
+      console.error(`[ShopUI] ${this.entity.name.get()} needs the shopId of its shop as id`);
+    }
+
+    this.connectNetworkBroadcastEvent(ShopEvents.sendShop, ({ player, shopId, shopName, balance, items, owned }) => {
+      if (!this.isRecipient(player, shopId)) return;
+      this.onShopReceived(shopName, balance, items, owned);
+    });
+
+    this.connectNetworkEvent(this.Player, ShopEvents.transactionFailed, ({ reason }) => {
+      if (!this.opened) return;
+      this.popup?.Show(undefined, FRIENDLY_REASONS[reason] ?? reason);
+      this.setBusy(false);
+    });
+  }
+
+  private requestShop(): void {
+    if (!this.Id) return;
+    this.setBusy(true);
+    this.sendNetworkBroadcastEvent(ShopEvents.requestShop, { player: this.Player, shopId: this.Id });
+  }
+
+  private onShopReceived(shopName: string, balance: number, items: ShopItem[], owned: ShopOwnedItem[]): void {
+    this.title.set(shopName);
+    this.balance.set(`Balance: ${balance}`);
+    this.shopItems = items;
+    this.owned = new Map(owned.map(entry => [entry.sku, entry]));
+
+    // One tab per category, in catalog order
+    const categories = Array.from(new Set(items.map(item => item.category)));
+    if (this.tabs.length !== categories.length + 1 || categories.some((category, index) => this.tabs[index + 1].category !== category)) {
+      this.tabs = [new CategoryTab(this, null), ...categories.map(category => new CategoryTab(this, category))];
+      this.setButtons([...this.tabs, this.rarityFilter]);
+      if (this.selectedCategory !== null && !categories.includes(this.selectedCategory)) {
+        this.selectedCategory = null;
+      }
+    }
+    this.tabs.forEach(tab => tab.setSelected(tab.category === this.selectedCategory));
+
+    // Keep the selection when the item is still sold, with its refreshed prices and stock
+    this.selectedItem = items.find(item => item.sku === this.selectedItem?.sku);
+    this.setQuantity(this.quantity);
+
+    this.refreshItems();
+    this.setBusy(false);
+  }
+
+  public selectCategory(category: string | null): void {
+    this.selectedCategory = category;
+    this.tabs.forEach(tab => tab.setSelected(tab.category === category));
+    this.refreshItems();
+  }
+
+  public selectRarity(rarity: string | null): void {
+    this.selectedRarity = rarity;
+    this.refreshItems();
+  }
+
+  public selectItem(item: ShopItem): void {
+    this.selectedItem = item;
+    this.setQuantity(1);
+  }
+
+  // Between 1 and whatever the player could buy or sell of the selected item, maxQuantity counting what they hold
+  private setQuantity(quantity: number): void {
+    const item = this.selectedItem;
+    const owned = item ? this.owned.get(item.sku)?.quantity ?? 0 : 0;
+    const boughtToday = item ? this.owned.get(item.sku)?.boughtToday ?? 0 : 0;
+    const buyable = item ? Math.min(item.maxQuantity - owned, item.stock ?? item.maxQuantity, (item.dailyLimit ?? item.maxQuantity) - boughtToday) : 1;
+    const max = Math.max(1, buyable, owned);
+    this.quantity = Math.max(1, Math.min(max, quantity));
+    this.quantityText.set(String(this.quantity));
+    this.selection.set(item ? `${item.name} (${capitalize(item.rarity)})` : "Select an item");
+  }
+
+  private buy(): void {
+    if (!this.selectedItem || !this.Id) return;
+    this.setBusy(true);
+    this.sendNetworkBroadcastEvent(ShopEvents.requestPurchase, { player: this.Player, shopId: this.Id, itemSKU: this.selectedItem.sku, quantity: this.quantity });
+  }
+
+  private sell(): void {
+    if (!this.selectedItem || !this.Id) return;
+    this.setBusy(true);
+    this.sendNetworkBroadcastEvent(ShopEvents.requestSell, { player: this.Player, shopId: this.Id, itemSKU: this.selectedItem.sku, quantity: this.quantity });
+  }
+
+  private setBusy(busy: boolean): void {
+    this.Busy = busy;
+    if (busy) {
+      this.spinner?.Show(this.spinnerIcon);
+    } else {
+      this.spinner?.Hide();
+    }
+  }
+
+  private refreshItems(): void {
+    this.items = this.shopItems
+      .filter(item => this.selectedCategory === null || item.category === this.selectedCategory)
+      .filter(item => this.selectedRarity === null || item.rarity === this.selectedRarity)
+      .map(item => new ShopItemView({
+        item: item,
+        owned: this.owned.get(item.sku)?.quantity ?? 0,
+        boughtToday: this.owned.get(item.sku)?.boughtToday ?? 0,
+        owner: this
+      }));
+
+    this.grid?.setItems(this.items);
+    this.refreshBindings();
+  }
+
+  protected refreshBindings(): void {
+    for (const item of this.items) {
+      item.refreshBindings();
+    }
+  }
+
+  protected onShow() {
+    super.onShow();
+    this.opened = true;
+    this.requestShop();
+  }
+
+  // Leaving through the exit button closes the shop on the server too
+  protected onHide() {
+    super.onHide();
+    if (!this.opened || !this.Id) return;
+    this.opened = false;
+    this.sendNetworkBroadcastEvent(ShopEvents.requestClose, { player: this.Player, shopId: this.Id });
+  }
+
+  protected construct(): UINode {
+    const header = this.constructHeader(this.title, undefined);
+
+    this.grid = new Grid(false, StyleSheet.SCROLLVIEW_WIDTH, StyleSheet.SCROLLVIEW_TWO_LINES_HEIGHT);
+    const grid = this.grid.toUINode();
+
+    const textStyle = {
+      color: StyleSheet.TEXT_COLOR_PRIMARY,
+      fontSize: StyleSheet.TEXT_SIZE_BUTTON,
+      fontFamily: StyleSheet.TEXT_FONT_PRIMARY,
+      marginRight: StyleSheet.GAP_SMALL,
+      alignSelf: "center" as const
+    };
+    this.spinner = new Spinner();
+    const footer = this.constructFooter(View({
+      children: [
+        Text({ text: this.balance, style: textStyle }),
+        View({ style: { flex: 1 } }),
+        Text({ text: this.selection, style: textStyle }),
+        new FooterButton(this, "-", () => this.setQuantity(this.quantity - 1)).toUINode(),
+        Text({ text: this.quantityText, style: textStyle }),
+        new FooterButton(this, "+", () => this.setQuantity(this.quantity + 1)).toUINode(),
+        new FooterButton(this, "Buy", () => this.buy()).toUINode(),
+        new FooterButton(this, "Sell", () => this.sell()).toUINode(),
+        this.spinner.toUINode()
+      ],
+      style: { flexDirection: "row", width: "100%" }
+    }));
+
+    this.popup = new Popup();
+    const popupNode = this.popup.toUINode();
+
+    return this.constructPanel([header, grid, footer, popupNode]);
+  }
+}
+
+hz.Component.register(ShopUI);
@@ -1,5 +1,6 @@
 import * as hz from 'horizon/core';
-import { WorldInventory } from 'horizon/core';
+import { ProgressionSystem } from './ProgressionSystem';
+import { queueGrant } from './ShopTransactions';
 
 export const SimpleLootItemEvents = {
   OnPickupLoot: new hz.NetworkEvent<{player: hz.Player, sku: string, count: number}>('OnPickupLoot'),
@@ -20,6 +21,11 @@ class SimpleLootItem extends hz.Component<typeof SimpleLootItem> {
     lootSKU: {type: hz.PropTypes.String, default: ''},
     lootCount: {type: hz.PropTypes.Number, default: 1},
 
+    // Codex entry, the name defaults to the SKU
+    progressionSystem: {type: hz.PropTypes.Entity},
+    lootName: {type: hz.PropTypes.String, default: ''},
+    lootRarity: {type: hz.PropTypes.String, default: 'common'},
+
     respawnEnabled: {type: hz.PropTypes.Boolean, default: true},
     respawnDelay: {type: hz.PropTypes.Number, default: 10},
   };
@@ -79,8 +85,9 @@ class SimpleLootItem extends hz.Component<typeof SimpleLootItem> {
 
   onTriggerEnter(player: hz.Player) {
     if (this.active) {
-      WorldInventory.grantItemToPlayer(player, this.props.lootSKU, this.props.lootCount);
+      queueGrant(player, this.props.lootSKU, this.props.lootCount);
       this.sendNetworkBroadcastEvent(SimpleLootItemEvents.OnPickupLoot, {player, sku: this.props.lootSKU, count: this.props.lootCount});
+      this.props.progressionSystem?.getComponents(ProgressionSystem)[0]?.collectItem(player, this.props.lootName || this.props.lootSKU, this.props.lootRarity, this.props.lootCount);
       this.deactivate();
     }
   }
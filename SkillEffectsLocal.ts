@@ -0,0 +1,159 @@
+import * as hz from 'horizon/core';
+import { SkillEffect, SkillEvents } from './SkillTree';
+
+// Horizon default gravity, restored when the player stops gliding
+const DEFAULT_GRAVITY = 9.81;
+
+/**
+ * Local skill controller that handles the input-driven skill effects
+ * (double jump, glide, wall jump) pushed by the ProgressionSystem
+ */
+export class SkillEffectsLocal extends hz.Component<typeof SkillEffectsLocal> {
+  static propsDefinition = {
+    progressionSystem: { type: hz.PropTypes.Entity },
+    wallRaycast: { type: hz.PropTypes.Entity },
+    wallJumpDistance: { type: hz.PropTypes.Number, default: 1.0 },
+  };
+
+  // Ability values (0 means the ability is not unlocked)
+  private extraJumps: number = 0;
+  private glideGravity: number = 0;
+  private wallJumpStrength: number = 0;
+
+  // State tracking
+  private jumpsLeft: number = 0;
+  private isJumpHeld: boolean = false;
+  private isGliding: boolean = false;
+
+  private jumpInput?: hz.PlayerInput;
+  private updateSubscription?: hz.EventSubscription;
+  private player?: hz.Player;
+
+  preStart() {
+    // Only run on local player (not server)
+    if (this.entity.owner.get() === this.world.getServerPlayer()) {
+      return;
+    }
+
+    this.player = this.entity.owner.get();
+
+    this.connectNetworkEvent(this.player, SkillEvents.abilitiesUpdated, (data) => {
+      this.onAbilitiesUpdated(data.abilities);
+    });
+
+    this.jumpInput = hz.PlayerControls.connectLocalInput(
+      hz.PlayerInputAction.Jump,
+      hz.ButtonIcon.Jump,
+      this
+    );
+    this.jumpInput.registerCallback(this.onJumpInput.bind(this));
+
+    this.updateSubscription = this.connectLocalBroadcastEvent(
+      hz.World.onUpdate,
+      this.onUpdate.bind(this)
+    );
+  }
+
+  start() {
+    // Only run on local player (not server)
+    if (this.entity.owner.get() === this.world.getServerPlayer()) {
+      return;
+    }
+
+    if (this.props.progressionSystem && this.player) {
+      this.sendNetworkEvent(this.props.progressionSystem, SkillEvents.requestAbilities, { player: this.player });
+    }
+  }
+
+  private onAbilitiesUpdated(abilities: SkillEffect[]) {
+    this.extraJumps = 0;
+    this.glideGravity = 0;
+    this.wallJumpStrength = 0;
+
+    for (const ability of abilities) {
+      switch (ability.type) {
+        case 'doubleJump':
+          this.extraJumps += ability.value;
+          break;
+        case 'glide':
+          this.glideGravity = ability.value;
+          break;
+        case 'wallJump':
+          this.wallJumpStrength = Math.max(this.wallJumpStrength, ability.value);
+          break;
+      }
+    }
+
+    if (this.glideGravity === 0) {
+      this.stopGliding();
+    }
+    console.log(`[SkillEffectsLocal] Abilities updated: extraJumps=${this.extraJumps}, glide=${this.glideGravity}, wallJump=${this.wallJumpStrength}`);
+  }
+
+  private onJumpInput(action: hz.PlayerInputAction, pressed: boolean) {
+    this.isJumpHeld = pressed;
+    if (!pressed || !this.player || this.player.isGrounded.get()) return;
+
+    if (this.wallJumpStrength > 0 && this.tryWallJump()) {
+      return;
+    }
+
+    if (this.jumpsLeft > 0) {
+      this.jumpsLeft--;
+      const velocity = this.player.velocity.get();
+      this.player.velocity.set(new hz.Vec3(velocity.x, this.player.jumpSpeed.get(), velocity.z));
+    }
+  }
+
+  private tryWallJump(): boolean {
+    if (!this.player || !this.props.wallRaycast) return false;
+
+    const raycast = this.props.wallRaycast.as(hz.RaycastGizmo);
+    if (!raycast) return false;
+
+    const hit = raycast.raycast(this.player.position.get(), this.player.forward.get(), { maxDistance: this.props.wallJumpDistance });
+    if (!hit) return false;
+
+    // Push away from the wall and upwards
+    const push = hz.Vec3.add(hz.Vec3.mul(hit.normal, this.wallJumpStrength), hz.Vec3.mul(hz.Vec3.up, this.wallJumpStrength));
+    this.player.velocity.set(push);
+    return true;
+  }
+
+  private onUpdate(data: { deltaTime: number }) {
+    if (!this.player) return;
+
+    if (this.player.isGrounded.get()) {
+      this.jumpsLeft = this.extraJumps;
+      this.stopGliding();
+      return;
+    }
+
+    const isFalling = this.player.velocity.get().y < 0;
+    if (this.glideGravity > 0 && this.isJumpHeld && isFalling) {
+      this.startGliding();
+    } else {
+      this.stopGliding();
+    }
+  }
+
+  private startGliding() {
+    if (this.isGliding || !this.player) return;
+    this.isGliding = true;
+    this.player.gravity.set(DEFAULT_GRAVITY * this.glideGravity);
+  }
+
+  private stopGliding() {
+    if (!this.isGliding || !this.player) return;
+    this.isGliding = false;
+    this.player.gravity.set(DEFAULT_GRAVITY);
+  }
+
+  dispose() {
+    this.stopGliding();
+    this.updateSubscription?.disconnect();
+    this.jumpInput?.disconnect();
+  }
+}
+
+hz.Component.register(SkillEffectsLocal);
@@ -0,0 +1,202 @@
+import * as hz from 'horizon/core';
+
+export const SkillEvents = {
+  // Client asks the progression system to spend skill points on a skill
+  requestUnlock: new hz.NetworkEvent<{player: hz.Player, skillId: string}>('requestSkillUnlock'),
+  // Client asks the progression system to refund every unlocked skill
+  requestRespec: new hz.NetworkEvent<{player: hz.Player}>('requestSkillRespec'),
+  // Client asks for its current abilities once its local component is ready
+  requestAbilities: new hz.NetworkEvent<{player: hz.Player}>('requestSkillAbilities'),
+  // Server pushes the abilities that need local input handling (glide, wall jump, double jump)
+  abilitiesUpdated: new hz.NetworkEvent<{player: hz.Player, abilities: SkillEffect[]}>('skillAbilitiesUpdated'),
+};
+
+export interface SkillEffect {
+  type: string;
+  value: number;
+}
+
+/**
+ * A single node of the skill tree as written in the config asset / JSON prop.
+ * Skills sharing the same branch are mutually exclusive: unlocking one locks the others out until a respec.
+ */
+export interface SkillDefinition {
+  id: string;
+  name: string;
+  description: string;
+  levelRequired: number;
+  pointCost: number;
+  skillType: string;
+  prerequisites: string[];
+  branch?: string;
+  effects: SkillEffect[];
+}
+
+export const DEFAULT_SKILL_DEFINITIONS: SkillDefinition[] = [
+  {
+    id: "doubleJump",
+    name: "Double Jump",
+    description: "Jump again while in the air",
+    levelRequired: 5,
+    pointCost: 1,
+    skillType: "movement",
+    prerequisites: [],
+    effects: [{ type: "doubleJump", value: 1 }]
+  },
+  {
+    id: "enhancedJump",
+    name: "Enhanced Jump",
+    description: "Jump 50% higher",
+    levelRequired: 10,
+    pointCost: 2,
+    skillType: "movement",
+    prerequisites: ["doubleJump"],
+    effects: [{ type: "jumpSpeed", value: 1.5 }]
+  },
+  {
+    id: "sprintSpeed",
+    name: "Sprint Speed",
+    description: "Move 25% faster",
+    levelRequired: 15,
+    pointCost: 2,
+    skillType: "movement",
+    prerequisites: [],
+    effects: [{ type: "locomotionSpeed", value: 1.25 }]
+  },
+  {
+    id: "glideAbility",
+    name: "Glide",
+    description: "Slowly descend while holding jump",
+    levelRequired: 20,
+    pointCost: 3,
+    skillType: "movement",
+    prerequisites: ["enhancedJump"],
+    branch: "aerial",
+    effects: [{ type: "glide", value: 0.15 }]
+  },
+  {
+    id: "wallJump",
+    name: "Wall Jump",
+    description: "Jump off walls",
+    levelRequired: 25,
+    pointCost: 3,
+    skillType: "movement",
+    prerequisites: ["enhancedJump"],
+    branch: "aerial",
+    effects: [{ type: "wallJump", value: 8 }]
+  }
+];
+
+/**
+ * Parses and validates a skill tree config.
+ * Throws with a descriptive message when the config is malformed so the world creator sees it in the console.
+ */
+export function parseSkillDefinitions(raw: unknown): SkillDefinition[] {
+  if (!Array.isArray(raw)) {
+    throw Error('Skill config must be an array of skill definitions.');
+  }
+
+  const definitions: SkillDefinition[] = raw.map((entry: any, index: number) => {
+    if (!entry || typeof entry.id !== 'string' || entry.id === '') {
+      throw Error(`Skill #${index} is missing an id.`);
+    }
+    return {
+      id: entry.id,
+      name: entry.name ?? entry.id,
+      description: entry.description ?? '',
+      levelRequired: Number(entry.levelRequired ?? 1),
+      pointCost: Number(entry.pointCost ?? 1),
+      skillType: entry.skillType ?? 'movement',
+      prerequisites: Array.isArray(entry.prerequisites) ? entry.prerequisites : [],
+      branch: entry.branch,
+      effects: Array.isArray(entry.effects) ? entry.effects.map((effect: any) => ({ type: String(effect.type), value: Number(effect.value) })) : []
+    };
+  });
+
+  const ids = new Set<string>();
+  for (const definition of definitions) {
+    if (ids.has(definition.id)) {
+      throw Error(`Duplicate skill id "${definition.id}".`);
+    }
+    ids.add(definition.id);
+  }
+
+  for (const definition of definitions) {
+    for (const prerequisite of definition.prerequisites) {
+      if (!ids.has(prerequisite)) {
+        throw Error(`Skill "${definition.id}" requires unknown skill "${prerequisite}".`);
+      }
+    }
+  }
+
+  // Reject prerequisite cycles, they would make a skill impossible to unlock
+  const visiting = new Set<string>();
+  const visited = new Set<string>();
+  const byId = new Map(definitions.map(definition => [definition.id, definition]));
+  const visit = (id: string) => {
+    if (visited.has(id)) return;
+    if (visiting.has(id)) {
+      throw Error(`Skill "${id}" is part of a prerequisite cycle.`);
+    }
+    visiting.add(id);
+    byId.get(id)!.prerequisites.forEach(visit);
+    visiting.delete(id);
+    visited.add(id);
+  };
+  definitions.forEach(definition => visit(definition.id));
+
+  return definitions;
+}
+
+/**
+ * Applies the gameplay side of a skill effect type.
+ * apply() receives every active effect of its type for the player (an empty array when none are active),
+ * so handlers recompute the player state from scratch and never need an explicit undo.
+ * flush() is called once per refresh, after every handler has been applied.
+ */
+export interface SkillEffectHandler {
+  apply(player: hz.Player, effects: SkillEffect[]): void;
+  flush?(player: hz.Player): void;
+}
+
+/**
+ * Multiplies a numeric player property (jump speed, locomotion speed...) by every active effect value.
+ */
+export class PlayerStatEffectHandler implements SkillEffectHandler {
+  constructor(private readonly property: (player: hz.Player) => hz.HorizonProperty<number>, private readonly baseValue: number) {
+  }
+
+  apply(player: hz.Player, effects: SkillEffect[]) {
+    const multiplier = effects.reduce((total, effect) => total * effect.value, 1);
+    this.property(player).set(this.baseValue * multiplier);
+  }
+}
+
+/**
+ * Forwards input-driven abilities (glide, wall jump, double jump) to the player's SkillEffectsLocal component.
+ * Register the same instance for every local ability type: effects are gathered during apply()
+ * and sent to the player in a single event on flush().
+ */
+export class LocalAbilityEffectHandler implements SkillEffectHandler {
+  private pending: Map<hz.Player, SkillEffect[]> = new Map();
+
+  constructor(private readonly owner: hz.Component) {
+  }
+
+  apply(player: hz.Player, effects: SkillEffect[]) {
+    const abilities = this.pending.get(player) ?? [];
+    abilities.push(...effects);
+    this.pending.set(player, abilities);
+  }
+
+  flush(player: hz.Player) {
+    const abilities = this.pending.get(player);
+    if (abilities === undefined) return;
+    this.pending.delete(player);
+    this.owner.sendNetworkEvent(player, SkillEvents.abilitiesUpdated, { player, abilities });
+  }
+}
+
+// Horizon defaults for the player stats the built-in handlers scale
+export const DEFAULT_JUMP_SPEED = 4.3;
+export const DEFAULT_LOCOMOTION_SPEED = 4.5;
@@ -0,0 +1,397 @@
+import * as hz from 'horizon/core';
+import { PanelEvents } from './inventory_ui';
+import { PurchaseableItemEvents } from './PurchaseableItem';
+import { executeSteps, ItemStep, queueTransaction } from './ShopTransactions';
+
+export type TradeOffer = {
+  sku: string;
+  quantity: number;
+};
+
+// The trade a player is in, as their TradeUI shows it
+export type TradeView = {
+  partner: hz.Player;
+  // Until the partner accepts the request
+  pending: boolean;
+  requestedByMe: boolean;
+  myOffer: TradeOffer[];
+  partnerOffer: TradeOffer[];
+  myConfirmed: boolean;
+  partnerConfirmed: boolean;
+  // While the items are being swapped
+  executing: boolean;
+};
+
+export type TradeHistoryEntry = {
+  partner: string;
+  gave: TradeOffer[];
+  received: TradeOffer[];
+  time: number;
+};
+
+export const TradeEvents = {
+  requestTrade: new hz.NetworkEvent<{ player: hz.Player, partner: hz.Player }>('TradeEvents.requestTrade'),
+  respondTrade: new hz.NetworkEvent<{ player: hz.Player, accept: boolean }>('TradeEvents.respondTrade'),
+  // A quantity of 0 takes the SKU off the offer
+  setOffer: new hz.NetworkEvent<{ player: hz.Player, sku: string, quantity: number }>('TradeEvents.setOffer'),
+  confirmTrade: new hz.NetworkEvent<{ player: hz.Player }>('TradeEvents.confirmTrade'),
+  cancelTrade: new hz.NetworkEvent<{ player: hz.Player }>('TradeEvents.cancelTrade'),
+
+  requestTradeState: new hz.NetworkEvent<{ player: hz.Player }>('TradeEvents.requestTradeState'),
+  // `message` explains what just happened to the trade, empty when nothing did
+  sendTradeState: new hz.NetworkEvent<{ player: hz.Player, trade: TradeView | null, partners: hz.Player[], entitlements: TradeOffer[], history: TradeHistoryEntry[], message: string }>('TradeEvents.sendTradeState'),
+
+  // Sent on the TradeManager entity once a trade went through, for gameplay scripts
+  tradeCompleted: new hz.NetworkEvent<{ from: hz.Player, to: hz.Player, fromOffer: TradeOffer[], toOffer: TradeOffer[] }>('TradeEvents.tradeCompleted'),
+};
+
+type Trade = {
+  from: hz.Player;
+  to: hz.Player;
+  accepted: boolean;
+  offers: Map<hz.Player, TradeOffer[]>;
+  confirmed: Set<hz.Player>;
+  requestedAt: number;
+  changedAt: number;
+  executing: boolean;
+};
+
+// Entries kept per player, the most recent first
+const HISTORY_SIZE = 20;
+// Entries sent to the TradeUI
+const HISTORY_SHOWN = 5;
+
+function describeOffer(offer: TradeOffer[]): string {
+  return offer.length > 0 ? offer.map(entry => `${entry.quantity}x ${entry.sku}`).join(', ') : 'nothing';
+}
+
+/**
+ * Server side of player-to-player trading.
+ * One player requests a trade, both add items to their offer, and once both confirmed the items are swapped.
+ * Any change to an offer clears both confirmations, so nobody can swap an offer right before the other side confirms.
+ */
+export class TradeManager extends hz.Component<typeof TradeManager> {
+  static propsDefinition = {
+    // Id of the TradeUI panels, the requested player's panel opens by itself
+    panelId: { type: hz.PropTypes.String, default: "trade" },
+    // Comma-separated SKUs that can be traded, every entitlement when empty
+    tradeableSkus: { type: hz.PropTypes.String, default: "" },
+    // Players further apart than this cannot start a trade, and a trade ends when they walk apart
+    maxTradeDistance: { type: hz.PropTypes.Number, default: 5 },
+    requestTimeoutSeconds: { type: hz.PropTypes.Number, default: 30 },
+    // After an offer changed, confirming is refused for this long so both sides can look at it
+    confirmDelaySeconds: { type: hz.PropTypes.Number, default: 3 },
+    // Player persistent variable keeping the trade history across sessions, not persisted when empty
+    historyVariableKey: { type: hz.PropTypes.String, default: "" },
+  };
+
+  private trades: Map<hz.Player, Trade> = new Map();
+  private history: Map<hz.Player, TradeHistoryEntry[]> = new Map();
+  private skusOfInterest: Set<string> | null = null;
+
+  preStart() {
+    const skus = this.props.tradeableSkus.split(',').map(sku => sku.trim()).filter(sku => sku !== '');
+    this.skusOfInterest = skus.length > 0 ? new Set(skus) : null;
+
+    this.connectNetworkBroadcastEvent(TradeEvents.requestTrade, ({ player, partner }) => this.requestTrade(player, partner));
+    this.connectNetworkBroadcastEvent(TradeEvents.respondTrade, ({ player, accept }) => this.respondTrade(player, accept));
+    this.connectNetworkBroadcastEvent(TradeEvents.setOffer, ({ player, sku, quantity }) => this.setOffer(player, sku, quantity));
+    this.connectNetworkBroadcastEvent(TradeEvents.confirmTrade, ({ player }) => this.confirmTrade(player));
+    this.connectNetworkBroadcastEvent(TradeEvents.cancelTrade, ({ player }) => {
+      const trade = this.trades.get(player);
+      if (trade && !trade.executing) {
+        this.endTrade(trade, `${player.name.get()} cancelled the trade`);
+      } else {
+        this.sendState(player);
+      }
+    });
+    this.connectNetworkBroadcastEvent(TradeEvents.requestTradeState, ({ player }) => this.sendState(player));
+
+    this.connectCodeBlockEvent(this.entity, hz.CodeBlockEvents.OnPlayerExitWorld, (player: hz.Player) => {
+      const trade = this.trades.get(player);
+      // A swap in progress finishes on its own
+      if (trade && !trade.executing) {
+        this.endTrade(trade, `${player.name.get()} left`);
+      }
+      this.history.delete(player);
+    });
+  }
+
+  start() {
+    this.async.setInterval(() => this.checkTrades(), 1000);
+  }
+
+  // Every request is answered with the state of the player, their TradeUI waits for it
+  private requestTrade(player: hz.Player, partner: hz.Player) {
+    if (player === partner || this.trades.has(player)) {
+      this.sendState(player);
+      return;
+    }
+
+    if (this.trades.has(partner)) {
+      this.sendState(player, `${partner.name.get()} is already trading`);
+      return;
+    }
+    if (!this.inRange(player, partner)) {
+      this.sendState(player, `${partner.name.get()} is too far away`);
+      return;
+    }
+
+    const now = Date.now();
+    const trade: Trade = {
+      from: player,
+      to: partner,
+      accepted: false,
+      offers: new Map([[player, []], [partner, []]]),
+      confirmed: new Set(),
+      requestedAt: now,
+      changedAt: now,
+      executing: false
+    };
+    this.trades.set(player, trade);
+    this.trades.set(partner, trade);
+
+    this.sendState(player);
+    this.sendState(partner, `${player.name.get()} wants to trade`);
+    this.sendNetworkBroadcastEvent(PanelEvents.ShowPanel, { player: partner, id: this.props.panelId });
+  }
+
+  private respondTrade(player: hz.Player, accept: boolean) {
+    const trade = this.trades.get(player);
+    if (!trade || trade.accepted || trade.to !== player) {
+      this.sendState(player);
+      return;
+    }
+
+    if (!accept) {
+      this.endTrade(trade, `${player.name.get()} declined the trade`);
+      return;
+    }
+
+    trade.accepted = true;
+    this.sendState(trade.from, `${player.name.get()} accepted the trade`);
+    this.sendState(trade.to);
+  }
+
+  private async setOffer(player: hz.Player, sku: string, quantity: number) {
+    const trade = this.trades.get(player);
+    if (!trade || !trade.accepted || trade.executing) {
+      this.sendState(player);
+      return;
+    }
+
+    if (!Number.isInteger(quantity) || quantity < 0 || (this.skusOfInterest && !this.skusOfInterest.has(sku))) {
+      this.sendState(player, "That can't be traded");
+      return;
+    }
+    const owned = (await this.getTradeableEntitlements(player)).find(entry => entry.sku === sku)?.quantity ?? 0;
+    if (quantity > owned) {
+      this.sendState(player, `You only have ${owned}x ${sku}`);
+      return;
+    }
+    // The trade may have ended while the entitlements were fetched
+    if (this.trades.get(player) !== trade || trade.executing) {
+      this.sendState(player);
+      return;
+    }
+
+    const offer = trade.offers.get(player)!.filter(entry => entry.sku !== sku);
+    if (quantity > 0) {
+      offer.push({ sku: sku, quantity: quantity });
+    }
+    trade.offers.set(player, offer);
+
+    // Both sides confirm again, whatever they confirmed was not this offer
+    const hadConfirmations = trade.confirmed.size > 0;
+    trade.confirmed.clear();
+    trade.changedAt = Date.now();
+
+    const partner = this.getPartner(trade, player);
+    this.sendState(player, hadConfirmations ? "Your offer changed, both of you need to confirm again" : "");
+    this.sendState(partner, `${player.name.get()} changed their offer, check it again`);
+  }
+
+  private confirmTrade(player: hz.Player) {
+    const trade = this.trades.get(player);
+    if (!trade || !trade.accepted || trade.executing) {
+      this.sendState(player);
+      return;
+    }
+
+    if (Date.now() < trade.changedAt + this.props.confirmDelaySeconds * 1000) {
+      this.sendState(player, "The offer just changed, check it before confirming");
+      return;
+    }
+    if (Array.from(trade.offers.values()).every(offer => offer.length === 0)) {
+      this.sendState(player, "Nothing to trade yet");
+      return;
+    }
+
+    trade.confirmed.add(player);
+    if (trade.confirmed.size < 2) {
+      const partner = this.getPartner(trade, player);
+      this.sendState(player);
+      this.sendState(partner, `${player.name.get()} confirmed the trade`);
+      return;
+    }
+
+    this.executeTrade(trade);
+  }
+
+  // Ends trades whose players walked apart and requests nobody answered
+  private checkTrades() {
+    const now = Date.now();
+    for (const trade of new Set(this.trades.values())) {
+      if (trade.executing) continue;
+
+      if (!this.inRange(trade.from, trade.to)) {
+        this.endTrade(trade, "You walked too far apart, the trade was cancelled");
+      } else if (!trade.accepted && now > trade.requestedAt + this.props.requestTimeoutSeconds * 1000) {
+        this.endTrade(trade, `${trade.to.name.get()} did not answer the trade request`);
+      }
+    }
+  }
+
+  private async executeTrade(trade: Trade) {
+    trade.executing = true;
+    this.sendState(trade.from);
+    this.sendState(trade.to);
+
+    // Both inventories stay untouched by any other transaction until the swap is over
+    const failure = await queueTransaction(trade.from, () => queueTransaction(trade.to, () => this.swap(trade)));
+    if (failure) {
+      console.error(`[TradeManager] Trade between ${trade.from.name.get()} and ${trade.to.name.get()} failed: ${failure}`);
+      this.endTrade(trade, failure);
+      return;
+    }
+
+    const fromOffer = trade.offers.get(trade.from)!;
+    const toOffer = trade.offers.get(trade.to)!;
+    console.log(`[TradeManager] ${trade.from.name.get()} traded ${describeOffer(fromOffer)} for ${describeOffer(toOffer)} of ${trade.to.name.get()}`);
+
+    this.addHistory(trade.from, { partner: trade.to.name.get(), gave: fromOffer, received: toOffer, time: Date.now() });
+    this.addHistory(trade.to, { partner: trade.from.name.get(), gave: toOffer, received: fromOffer, time: Date.now() });
+
+    for (const [player, received] of [[trade.from, toOffer], [trade.to, fromOffer]] as [hz.Player, TradeOffer[]][]) {
+      for (const entry of received) {
+        this.sendNetworkBroadcastEvent(PurchaseableItemEvents.OnReceiveItem, { player: player, itemSKU: entry.sku, itemAmount: entry.quantity });
+      }
+      this.sendNetworkBroadcastEvent(PurchaseableItemEvents.OnInventoryChanged, { player: player });
+    }
+    this.sendNetworkEvent(this.entity, TradeEvents.tradeCompleted, { from: trade.from, to: trade.to, fromOffer: fromOffer, toOffer: toOffer });
+
+    this.endTrade(trade, "Trade complete!");
+  }
+
+  /**
+   * Takes both offers, then grants each to the other player, every step verified.
+   * A step that fails undoes every step before it, so either both players get their items or nothing changes.
+   * @returns Why the trade failed, or null when it went through
+   */
+  private async swap(trade: Trade): Promise<string | null> {
+    // The players may have spent offered items since offering them
+    for (const player of [trade.from, trade.to]) {
+      const owned = await this.getTradeableEntitlements(player);
+      for (const entry of trade.offers.get(player)!) {
+        if ((owned.find(item => item.sku === entry.sku)?.quantity ?? 0) < entry.quantity) {
+          return `${player.name.get()} no longer has ${entry.quantity}x ${entry.sku}`;
+        }
+      }
+    }
+
+    const steps: ItemStep[] = [];
+    for (const player of [trade.from, trade.to]) {
+      for (const entry of trade.offers.get(player)!) {
+        steps.push({ player: player, sku: entry.sku, quantity: entry.quantity, give: false });
+      }
+    }
+    for (const player of [trade.from, trade.to]) {
+      for (const entry of trade.offers.get(player)!) {
+        steps.push({ player: this.getPartner(trade, player), sku: entry.sku, quantity: entry.quantity, give: true });
+      }
+    }
+
+    return await executeSteps(this, steps) ? null : "The trade could not go through, nothing was exchanged";
+  }
+
+  private endTrade(trade: Trade, message: string) {
+    this.trades.delete(trade.from);
+    this.trades.delete(trade.to);
+    this.sendState(trade.from, message);
+    this.sendState(trade.to, message);
+  }
+
+  private getPartner(trade: Trade, player: hz.Player): hz.Player {
+    return trade.from === player ? trade.to : trade.from;
+  }
+
+  private inRange(player: hz.Player, other: hz.Player): boolean {
+    return player.position.get().sub(other.position.get()).magnitude() <= this.props.maxTradeDistance;
+  }
+
+  // The tradeable items of a player, fetched the way InventoryLogic.getPlayerEntitlements does
+  public async getTradeableEntitlements(player: hz.Player): Promise<TradeOffer[]> {
+    try {
+      const entitlements = await hz.WorldInventory.getPlayerEntitlements(player);
+      return entitlements
+        .filter(entitlement => !this.skusOfInterest || this.skusOfInterest.has(entitlement.sku))
+        .map(entitlement => ({ sku: entitlement.sku, quantity: Number(entitlement.quantity) }))
+        .filter(entry => entry.quantity > 0);
+    } catch (error) {
+      console.error(`[TradeManager] Could not fetch the inventory of ${player.name.get()}: ${error}`);
+      return [];
+    }
+  }
+
+  public getHistory(player: hz.Player): TradeHistoryEntry[] {
+    let history = this.history.get(player);
+    if (!history && this.props.historyVariableKey && this.world.persistentStorage) {
+      const saved = this.world.persistentStorage.getPlayerVariable<{ entries: TradeHistoryEntry[] }>(player, this.props.historyVariableKey);
+      history = Array.isArray(saved?.entries) ? saved!.entries : undefined;
+    }
+    history = history ?? [];
+    this.history.set(player, history);
+    return history;
+  }
+
+  private addHistory(player: hz.Player, entry: TradeHistoryEntry) {
+    const history = [entry, ...this.getHistory(player)].slice(0, HISTORY_SIZE);
+    this.history.set(player, history);
+    if (this.props.historyVariableKey && this.world.persistentStorage) {
+      this.world.persistentStorage.setPlayerVariable(player, this.props.historyVariableKey, { entries: history });
+    }
+  }
+
+  private describe(trade: Trade, player: hz.Player): TradeView {
+    const partner = this.getPartner(trade, player);
+    return {
+      partner: partner,
+      pending: !trade.accepted,
+      requestedByMe: trade.from === player,
+      myOffer: trade.offers.get(player)!,
+      partnerOffer: trade.offers.get(partner)!,
+      myConfirmed: trade.confirmed.has(player),
+      partnerConfirmed: trade.confirmed.has(partner),
+      executing: trade.executing
+    };
+  }
+
+  private async sendState(player: hz.Player, message: string = "") {
+    const entitlements = await this.getTradeableEntitlements(player);
+    const trade = this.trades.get(player);
+    // Players close enough to trade with, when not trading already
+    const partners = trade ? [] : this.world.getPlayers()
+      .filter(other => other !== player && !this.trades.has(other) && this.inRange(player, other));
+
+    this.sendNetworkBroadcastEvent(TradeEvents.sendTradeState, {
+      player: player,
+      trade: trade ? this.describe(trade, player) : null,
+      partners: partners,
+      entitlements: entitlements,
+      history: this.getHistory(player).slice(0, HISTORY_SHOWN),
+      message: message
+    });
+  }
+}
+
+hz.Component.register(TradeManager);
@@ -0,0 +1,231 @@
+import * as hz from 'horizon/core';
+import { Player } from 'horizon/core';
+import { Binding, Text, UINode } from 'horizon/ui';
+import { TradeEvents, TradeHistoryEntry, TradeOffer, TradeView } from './TradeManager';
+import { Button, Grid, Item, Panel, Popup, StyleSheet } from './inventory_ui';
+
+function describeOffer(offer: TradeOffer[]): string {
+  return offer.length > 0 ? offer.map(entry => `${entry.quantity}x ${entry.sku}`).join(", ") : "nothing";
+}
+
+/**
+ * One of the player's tradeable items, clicking it offers one more until everything is offered, then none.
+ */
+class TradeItemView extends Item {
+  protected readonly owner: TradeUI;
+  private readonly entry: TradeOffer;
+  private readonly offered: number;
+
+  constructor({ entry, offered, owner }: { entry: TradeOffer; offered: number; owner: TradeUI }) {
+    super({
+      title: entry.sku,
+      description: offered > 0 ? `Offering ${offered} of ${entry.quantity}` : `${entry.quantity} owned`,
+      owner: owner
+    });
+    this.owner = owner;
+    this.entry = entry;
+    this.offered = offered;
+  }
+
+  protected onClick(): void {
+    this.owner.setOffer(this.entry.sku, this.offered < this.entry.quantity ? this.offered + 1 : 0);
+  }
+
+  protected canBeClicked(): boolean {
+    return super.canBeClicked() && this.owner.CanEditOffer;
+  }
+}
+
+/**
+ * Header button running an action of the trade, e.g. requesting one with a nearby player or confirming it.
+ */
+class TradeButton extends Button {
+  constructor(private readonly owner: TradeUI, private readonly label: string, private readonly action: () => void) {
+    super();
+  }
+
+  protected constructContent(): UINode[] {
+    return [Text({
+      text: this.label,
+      style: {
+        color: StyleSheet.TEXT_COLOR_BRIGHT,
+        fontSize: StyleSheet.TEXT_SIZE_BUTTON,
+        fontFamily: StyleSheet.TEXT_FONT_PRIMARY,
+        paddingLeft: StyleSheet.PADDING_SMALL,
+        paddingRight: StyleSheet.PADDING_SMALL,
+        alignSelf: "center"
+      }
+    })];
+  }
+
+  protected canBeClicked(_: Player): boolean {
+    return !this.owner.Busy;
+  }
+
+  protected onClick(_: Player): void {
+    this.action();
+  }
+}
+
+/**
+ * Per-player trade window of a TradeManager, its id must be the panelId of the manager.
+ * Lists nearby players to trade with, then both offers side by side until the trade is confirmed or cancelled.
+ */
+export class TradeUI extends Panel {
+  private trade: TradeView | null = null;
+  private entitlements: TradeOffer[] = [];
+  private items: TradeItemView[] = [];
+
+  private grid: Grid | undefined = undefined;
+  private popup: Popup | undefined = undefined;
+  private readonly title: Binding<string> = new Binding<string>("Trade");
+  private readonly summary: Binding<string> = new Binding<string>("");
+
+  public get Grid() { return this.grid; }
+  public get CanEditOffer() { return this.trade !== null && !this.trade.pending && !this.trade.executing; }
+
+  protected initialize(): void {
+    this.connectNetworkBroadcastEvent(TradeEvents.sendTradeState, ({ player, trade, partners, entitlements, history, message }) => {
+      if (player !== this.Player) return;
+      this.onStateReceived(trade, partners, entitlements, history, message);
+    });
+  }
+
+  private requestState(): void {
+    this.Busy = true;
+    this.sendNetworkBroadcastEvent(TradeEvents.requestTradeState, { player: this.Player });
+  }
+
+  private onStateReceived(trade: TradeView | null, partners: Player[], entitlements: TradeOffer[], history: TradeHistoryEntry[], message: string): void {
+    this.trade = trade;
+    this.entitlements = entitlements;
+
+    if (message) {
+      this.popup?.Show(undefined, message);
+    }
+
+    this.title.set(trade ? `Trade with ${trade.partner.name.get()}` : "Trade");
+    this.summary.set(trade ? this.describeTrade(trade) : this.describeHistory(history));
+    this.setButtons(this.getButtons(trade, partners));
+    this.refreshItems();
+    this.Busy = trade?.executing ?? false;
+  }
+
+  private getButtons(trade: TradeView | null, partners: Player[]): Button[] {
+    if (!trade) {
+      return partners.map(partner => new TradeButton(this, partner.name.get(), () => this.requestTrade(partner)));
+    }
+    if (trade.executing) {
+      return [];
+    }
+    if (trade.pending && !trade.requestedByMe) {
+      return [
+        new TradeButton(this, "Accept", () => this.respond(true)),
+        new TradeButton(this, "Decline", () => this.respond(false))
+      ];
+    }
+    const cancel = new TradeButton(this, "Cancel", () => this.cancel());
+    if (trade.pending) {
+      return [cancel];
+    }
+    return [new TradeButton(this, trade.myConfirmed ? "Confirmed" : "Confirm", () => this.confirm()), cancel];
+  }
+
+  // Every request is answered with a fresh state, which clears Busy
+  private requestTrade(partner: Player): void {
+    this.Busy = true;
+    this.sendNetworkBroadcastEvent(TradeEvents.requestTrade, { player: this.Player, partner: partner });
+  }
+
+  private respond(accept: boolean): void {
+    this.Busy = true;
+    this.sendNetworkBroadcastEvent(TradeEvents.respondTrade, { player: this.Player, accept: accept });
+  }
+
+  public setOffer(sku: string, quantity: number): void {
+    this.Busy = true;
+    this.sendNetworkBroadcastEvent(TradeEvents.setOffer, { player: this.Player, sku: sku, quantity: quantity });
+  }
+
+  private confirm(): void {
+    this.Busy = true;
+    this.sendNetworkBroadcastEvent(TradeEvents.confirmTrade, { player: this.Player });
+  }
+
+  private cancel(): void {
+    this.Busy = true;
+    this.sendNetworkBroadcastEvent(TradeEvents.cancelTrade, { player: this.Player });
+  }
+
+  private describeTrade(trade: TradeView): string {
+    const partner = trade.partner.name.get();
+    let status: string;
+    if (trade.pending) {
+      status = trade.requestedByMe ? `Waiting for ${partner} to accept` : `${partner} wants to trade with you`;
+    } else if (trade.executing) {
+      status = "Trading...";
+    } else if (trade.myConfirmed) {
+      status = `Waiting for ${partner} to confirm`;
+    } else if (trade.partnerConfirmed) {
+      status = `${partner} confirmed, check their offer and confirm`;
+    } else {
+      status = "Click your items to offer them";
+    }
+    return [`You give: ${describeOffer(trade.myOffer)}`, `${partner} gives: ${describeOffer(trade.partnerOffer)}`, status].join("\n");
+  }
+
+  private describeHistory(history: TradeHistoryEntry[]): string {
+    if (history.length === 0) {
+      return "Walk up to a player and pick them above to trade";
+    }
+    return history.map(entry => `Gave ${describeOffer(entry.gave)} to ${entry.partner} for ${describeOffer(entry.received)}`).join("\n");
+  }
+
+  private refreshItems(): void {
+    const offer = this.trade && !this.trade.pending ? this.trade.myOffer : [];
+    this.items = this.trade && !this.trade.pending
+      ? this.entitlements.map(entry => new TradeItemView({
+        entry: entry,
+        offered: offer.find(offered => offered.sku === entry.sku)?.quantity ?? 0,
+        owner: this
+      }))
+      : [];
+
+    this.grid?.setItems(this.items);
+    this.refreshBindings();
+  }
+
+  protected refreshBindings(): void {
+    for (const item of this.items) {
+      item.refreshBindings();
+    }
+  }
+
+  protected onShow() {
+    super.onShow();
+    this.requestState();
+  }
+
+  protected construct(): UINode {
+    const header = this.constructHeader(this.title, undefined);
+
+    this.grid = new Grid(false, StyleSheet.SCROLLVIEW_WIDTH, StyleSheet.SCROLLVIEW_ONE_LINE_HEIGHT);
+    const grid = this.grid.toUINode();
+
+    const footer = this.constructFooter(Text({
+      text: this.summary,
+      style: {
+        color: StyleSheet.TEXT_COLOR_PRIMARY,
+        fontSize: StyleSheet.TEXT_SIZE_DESCRIPTION,
+        fontFamily: StyleSheet.TEXT_FONT_PRIMARY
+      }
+    }));
+
+    this.popup = new Popup();
+    const popupNode = this.popup.toUINode();
+
+    return this.constructPanel([header, grid, footer, popupNode]);
+  }
+}
+
+hz.Component.register(TradeUI);
@@ -0,0 +1,145 @@
+/**
+ * XP needed to go from `level - 1` to `level`.
+ * Curves are written in terms of step = level - 1, so the first level-up (level 2) is step 1.
+ */
+export interface XpCurve {
+  getXPForLevel(level: number): number;
+}
+
+// base, base + increment, base + 2 * increment...
+export class LinearXpCurve implements XpCurve {
+  constructor(private readonly base: number, private readonly increment: number) {
+  }
+
+  getXPForLevel(level: number): number {
+    return Math.floor(this.base + this.increment * (Math.max(1, level - 1) - 1));
+  }
+}
+
+// base * step^exponent
+export class PolynomialXpCurve implements XpCurve {
+  constructor(private readonly base: number, private readonly exponent: number) {
+  }
+
+  getXPForLevel(level: number): number {
+    return Math.floor(this.base * Math.pow(Math.max(1, level - 1), this.exponent));
+  }
+}
+
+// base * growth^step, never more than cap (0 means uncapped)
+export class ExponentialXpCurve implements XpCurve {
+  constructor(private readonly base: number, private readonly growth: number, private readonly cap: number) {
+  }
+
+  getXPForLevel(level: number): number {
+    const xp = Math.floor(this.base * Math.pow(this.growth, Math.max(1, level - 1)));
+    return this.cap > 0 ? Math.min(xp, this.cap) : xp;
+  }
+}
+
+// values[step - 1], the last value repeats for every level past the end of the table
+export class TableXpCurve implements XpCurve {
+  constructor(private readonly values: number[]) {
+  }
+
+  getXPForLevel(level: number): number {
+    const step = Math.max(1, level - 1);
+    return this.values[Math.min(step, this.values.length) - 1];
+  }
+}
+
+/**
+ * Builds a curve from its JSON spec, for example:
+ *   {"type": "linear", "base": 100, "increment": 25}
+ *   {"type": "polynomial", "base": 100, "exponent": 1.5}
+ *   {"type": "exponential", "base": 100, "growth": 1.5, "cap": 5000}
+ *   {"type": "table", "values": [100, 150, 250, 400]}  (a bare array is read as a table too)
+ * `base` defaults to defaultBase (the xpPerLevel prop).
+ */
+export function parseXpCurve(json: string, defaultBase: number): XpCurve {
+  const spec = JSON.parse(json);
+
+  if (Array.isArray(spec)) {
+    return createTableCurve(spec);
+  }
+  if (!spec || typeof spec !== 'object') {
+    throw Error('XP curve must be a JSON object or an array of XP values.');
+  }
+
+  const base = Number(spec.base ?? defaultBase);
+  if (!isFinite(base) || base < 1) {
+    throw Error('XP curve base must be a number of at least 1.');
+  }
+
+  // Every level has to cost at least base, so the curves may only grow
+  switch (spec.type) {
+    case 'linear': {
+      const increment = Number(spec.increment ?? 0);
+      if (!isFinite(increment) || increment < 0) {
+        throw Error('XP curve increment must be a number of at least 0.');
+      }
+      return new LinearXpCurve(base, increment);
+    }
+    case 'polynomial': {
+      const exponent = Number(spec.exponent ?? 2);
+      if (!isFinite(exponent) || exponent < 0) {
+        throw Error('XP curve exponent must be a number of at least 0.');
+      }
+      return new PolynomialXpCurve(base, exponent);
+    }
+    case 'exponential': {
+      const growth = Number(spec.growth ?? 1.5);
+      if (!isFinite(growth) || growth < 1) {
+        throw Error('XP curve growth must be a number of at least 1.');
+      }
+      const cap = Number(spec.cap ?? 0);
+      if (!isFinite(cap) || (cap !== 0 && cap < base)) {
+        throw Error('XP curve cap must be 0 (uncapped) or a number of at least base.');
+      }
+      return new ExponentialXpCurve(base, growth, cap);
+    }
+    case 'table':
+      return createTableCurve(spec.values);
+    default:
+      throw Error(`Unknown XP curve type "${spec.type}", expected linear, polynomial, exponential or table.`);
+  }
+}
+
+function createTableCurve(values: unknown): XpCurve {
+  if (!Array.isArray(values) || values.length === 0) {
+    throw Error('XP table must be a non-empty array of XP values.');
+  }
+  const numbers = values.map(Number);
+  if (numbers.some(value => !isFinite(value) || value <= 0)) {
+    throw Error('XP table values must be positive numbers.');
+  }
+  return new TableXpCurve(numbers);
+}
+
+export interface XpCurvePreviewRow {
+  level: number;
+  xpForLevel: number;
+  totalXP: number;
+  hoursToLevel: number;
+  totalHours: number;
+}
+
+/**
+ * Tabulates a curve up to maxLevel with the time needed at a steady xpPerHour.
+ */
+export function previewXpCurve(curve: XpCurve, maxLevel: number, xpPerHour: number): XpCurvePreviewRow[] {
+  const rows: XpCurvePreviewRow[] = [];
+  let totalXP = 0;
+  for (let level = 2; level <= maxLevel; level++) {
+    const xpForLevel = curve.getXPForLevel(level);
+    totalXP += xpForLevel;
+    rows.push({
+      level: level,
+      xpForLevel: xpForLevel,
+      totalXP: totalXP,
+      hoursToLevel: xpPerHour > 0 ? xpForLevel / xpPerHour : Infinity,
+      totalHours: xpPerHour > 0 ? totalXP / xpPerHour : Infinity
+    });
+  }
+  return rows;
+}
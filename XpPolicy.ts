@@ -0,0 +1,197 @@
+import * as hz from 'horizon/core';
+
+/**
+ * Limits for one XP source.
+ * maxPerGrant clamps a single grant, maxGrantsPerMinute rejects grants past the rate,
+ * dailyCap clamps the total granted per UTC day.
+ */
+export interface XpSourcePolicy {
+  maxPerGrant: number;
+  maxGrantsPerMinute: number;
+  dailyCap: number;
+}
+
+export interface XpGrantRecord {
+  timestamp: number;
+  source: string;
+  requested: number;
+  granted: number;
+  reason?: string;
+}
+
+// Every XP source the server grants from, anything else is rejected
+export const DEFAULT_XP_SOURCE_POLICIES: { [source: string]: XpSourcePolicy } = {
+  time_played: { maxPerGrant: 60, maxGrantsPerMinute: 12, dailyCap: 2000 },
+  island_discovery: { maxPerGrant: 500, maxGrantsPerMinute: 10, dailyCap: 5000 },
+  item_collection: { maxPerGrant: 1000, maxGrantsPerMinute: 30, dailyCap: 5000 },
+  jump_pad: { maxPerGrant: 100, maxGrantsPerMinute: 20, dailyCap: 2000 },
+  orb_consumption: { maxPerGrant: 100, maxGrantsPerMinute: 30, dailyCap: 5000 },
+  achievement: { maxPerGrant: 5000, maxGrantsPerMinute: 10, dailyCap: 20000 },
+  codex_set: { maxPerGrant: 5000, maxGrantsPerMinute: 10, dailyCap: 20000 },
+  crafting: { maxPerGrant: 500, maxGrantsPerMinute: 30, dailyCap: 10000 },
+};
+
+const MS_PER_MINUTE = 60 * 1000;
+const MS_PER_DAY = 24 * 60 * MS_PER_MINUTE;
+
+type SourceUsage = {
+  recentGrants: number[];
+  day: number;
+  grantedToday: number;
+};
+
+// XP granted per source on a UTC day, saved with the player's data so that daily caps hold across sessions and instances
+export type XpDailyUsage = {
+  day: number;
+  granted: { [source: string]: number };
+};
+
+/**
+ * Server-side gate in front of ProgressionSystem.addXP.
+ * Keeps per-player, per-source usage in memory and an audit trail of the latest grant decisions,
+ * until the player is forgotten. The daily usage is saved and restored through getDailyUsage and restoreDailyUsage.
+ */
+export class XpPolicy {
+  private usage: Map<hz.Player, Map<string, SourceUsage>> = new Map();
+  private audit: Map<hz.Player, XpGrantRecord[]> = new Map();
+
+  constructor(private readonly policies: { [source: string]: XpSourcePolicy }, private readonly auditLogSize: number) {
+  }
+
+  /**
+   * Returns how much of the requested XP may be granted (0 when rejected) and records the decision.
+   */
+  public authorize(player: hz.Player, source: string, amount: number, now: number = Date.now()): number {
+    const policy = this.policies[source];
+    if (!policy) {
+      return this.record(player, now, source, amount, 0, 'unknown source');
+    }
+    if (!(amount > 0)) {
+      return this.record(player, now, source, amount, 0, 'invalid amount');
+    }
+
+    const usage = this.getUsage(player, source, now);
+    usage.recentGrants = usage.recentGrants.filter(time => now - time < MS_PER_MINUTE);
+    if (usage.recentGrants.length >= policy.maxGrantsPerMinute) {
+      return this.record(player, now, source, amount, 0, 'rate limited');
+    }
+
+    const remainingToday = policy.dailyCap - usage.grantedToday;
+    if (remainingToday <= 0) {
+      return this.record(player, now, source, amount, 0, 'daily cap reached');
+    }
+
+    const granted = Math.min(amount, policy.maxPerGrant, remainingToday);
+    usage.recentGrants.push(now);
+    usage.grantedToday += granted;
+    return this.record(player, now, source, amount, granted, granted < amount ? 'clamped' : undefined);
+  }
+
+  /**
+   * Records an XP request that never reached authorize(), e.g. one sent by a client.
+   */
+  public reject(player: hz.Player, source: string, amount: number, reason: string, now: number = Date.now()) {
+    this.record(player, now, source, amount, 0, reason);
+  }
+
+  // Most recent decisions first
+  public getAuditTrail(player: hz.Player): XpGrantRecord[] {
+    return [...(this.audit.get(player) ?? [])].reverse();
+  }
+
+  public getGrantedToday(player: hz.Player, source: string, now: number = Date.now()): number {
+    return this.getUsage(player, source, now).grantedToday;
+  }
+
+  public getDailyUsage(player: hz.Player, now: number = Date.now()): XpDailyUsage {
+    const day = Math.floor(now / MS_PER_DAY);
+    const granted: { [source: string]: number } = {};
+    this.usage.get(player)?.forEach((usage, source) => {
+      if (usage.day === day && usage.grantedToday > 0) {
+        granted[source] = usage.grantedToday;
+      }
+    });
+    return { day, granted };
+  }
+
+  // Usage saved on another day is ignored, like the in-memory one
+  public restoreDailyUsage(player: hz.Player, saved: XpDailyUsage | undefined, now: number = Date.now()) {
+    if (!saved || saved.day !== Math.floor(now / MS_PER_DAY) || !saved.granted || typeof saved.granted !== 'object') {
+      return;
+    }
+    for (const source of Object.keys(saved.granted)) {
+      const usage = this.getUsage(player, source, now);
+      usage.grantedToday = Math.max(usage.grantedToday, Number(saved.granted[source]) || 0);
+    }
+  }
+
+  // Drops the usage and audit trail of a player who left
+  public forget(player: hz.Player) {
+    this.usage.delete(player);
+    this.audit.delete(player);
+  }
+
+  private getUsage(player: hz.Player, source: string, now: number): SourceUsage {
+    let sources = this.usage.get(player);
+    if (!sources) {
+      sources = new Map();
+      this.usage.set(player, sources);
+    }
+
+    const day = Math.floor(now / MS_PER_DAY);
+    let usage = sources.get(source);
+    if (!usage) {
+      usage = { recentGrants: [], day: day, grantedToday: 0 };
+      sources.set(source, usage);
+    }
+    if (usage.day !== day) {
+      usage.day = day;
+      usage.grantedToday = 0;
+    }
+    return usage;
+  }
+
+  private record(player: hz.Player, timestamp: number, source: string, requested: number, granted: number, reason?: string): number {
+    const records = this.audit.get(player) ?? [];
+    records.push({ timestamp, source, requested, granted, reason });
+    if (records.length > this.auditLogSize) {
+      records.splice(0, records.length - this.auditLogSize);
+    }
+    this.audit.set(player, records);
+    return granted;
+  }
+}
+
+/**
+ * Parses a JSON object of source policies, e.g. {"jump_pad": {"maxPerGrant": 10, "maxGrantsPerMinute": 20, "dailyCap": 2000}}.
+ * Listed sources override the defaults, a null policy removes a source from the whitelist.
+ */
+export function parseXpSourcePolicies(json: string): { [source: string]: XpSourcePolicy } {
+  const policies = { ...DEFAULT_XP_SOURCE_POLICIES };
+  if (!json) {
+    return policies;
+  }
+
+  const raw = JSON.parse(json);
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    throw Error('XP source policies must be a JSON object keyed by source.');
+  }
+  for (const source of Object.keys(raw)) {
+    const entry = raw[source];
+    if (entry === null) {
+      delete policies[source];
+      continue;
+    }
+    const defaults = policies[source];
+    const policy: XpSourcePolicy = {
+      maxPerGrant: Number(entry.maxPerGrant ?? defaults?.maxPerGrant),
+      maxGrantsPerMinute: Number(entry.maxGrantsPerMinute ?? defaults?.maxGrantsPerMinute),
+      dailyCap: Number(entry.dailyCap ?? defaults?.dailyCap),
+    };
+    if (isNaN(policy.maxPerGrant) || isNaN(policy.maxGrantsPerMinute) || isNaN(policy.dailyCap)) {
+      throw Error(`XP source "${source}" needs maxPerGrant, maxGrantsPerMinute and dailyCap.`);
+    }
+    policies[source] = policy;
+  }
+  return policies;
+}
@@ -7,6 +7,7 @@
 import * as hz from 'horizon/core';
 import { Component } from 'horizon/core';
 import { ImageSource } from 'horizon/ui';
+import { queueTransaction, takeItems } from './ShopTransactions';
 
 /**
  * Metadata for the Daily Rewards UI display
@@ -34,10 +35,38 @@ type DailyRewardsGiftCollection = {
  * Persistent data stored for tracking a player's daily rewards progress
  * @property startDate - Timestamp when the player started the daily rewards sequence
  * @property lastCollection - Information about the player's most recent reward collection, or null if none
+ * @property currentStreak - Number of consecutive days the player claimed a reward, across series (optional in older saves)
+ * @property longestStreak - Longest streak the player ever reached (optional in older saves)
+ * @property streakDate - Timestamp of the last claim counted in the streak (optional in older saves)
+ * @property pendingGrant - Claim whose grant has been issued but not verified yet, if any
  */
 type DailyRewardsPersistentData = {
   startDate: number;
   lastCollection: DailyRewardsGiftCollection | null;
+  currentStreak?: number;
+  longestStreak?: number;
+  streakDate?: number;
+  pendingGrant?: DailyRewardsPendingGrant;
+};
+
+/**
+ * Write-ahead record of a claim, saved before the reward is granted and cleared once the grant is verified.
+ * The collection is only committed once the player's entitlements show the reward.
+ * Claims run in the player's transaction queue, so other queued inventory changes cannot be mistaken for the grant while it is verified.
+ * @property sku - The SKU of the granted reward
+ * @property quantity - The amount of the reward granted
+ * @property quantityBefore - The entitlement quantity the player had when the grant was issued (optional in older saves)
+ * @property expectedQuantity - The entitlement quantity the player should have once the grant lands
+ * @property collection - The collection to commit once the grant is verified
+ * @property streak - The streak to commit once the grant is verified
+ */
+type DailyRewardsPendingGrant = {
+  sku: string;
+  quantity: number;
+  quantityBefore?: number;
+  expectedQuantity: number;
+  collection: DailyRewardsGiftCollection;
+  streak: number;
 };
 
 /**
@@ -46,12 +75,20 @@ type DailyRewardsPersistentData = {
  * @property expired - Whether the rewards event has expired
  * @property hasCollectedToday - Whether the player has already collected today's reward
  * @property nextCollectionDate - Timestamp when the next reward will be available, or null if not applicable
+ * @property missedDays - Number of days skipped since the last collection
+ * @property canCatchUp - Whether the player can buy back the next missed day
+ * @property currentStreak - Number of consecutive days the player claimed a reward, 0 once a day is missed
+ * @property longestStreak - Longest streak the player ever reached
  */
 type DailyRewardsEventState = {
   currentDay: number;
   expired: boolean;
   hasCollectedToday: boolean;
   nextCollectionDate: number | null;
+  missedDays: number;
+  canCatchUp: boolean;
+  currentStreak: number;
+  longestStreak: number;
 }
 
 /**
@@ -61,7 +98,7 @@ type DailyRewardsEventState = {
  * @property thumbnailId - The ID of the thumbnail image for the reward
  * @property thumbnailVersionId - The version ID of the thumbnail image
  */
-type RewardData = {
+export type RewardData = {
   sku: string,
   quantity: number,
   thumbnailId: bigint,
@@ -80,19 +117,174 @@ type RewardEnrichedData = RewardData & {
   day: number
 }
 
+/**
+ * A single entry of the reward schedule, as written in the schedule JSON
+ * @property day - The day in the sequence when this reward is given (1-indexed)
+ * @property sku - The unique identifier for the reward item
+ * @property quantity - The amount of the item to give (defaults to 1)
+ * @property thumbnail - The asset ID of the thumbnail image for the reward, as a string since asset IDs exceed the safe integer range (optional)
+ * @property thumbnailVersion - The version ID of the thumbnail image (optional)
+ */
+type RewardScheduleEntry = {
+  day: number,
+  sku: string,
+  quantity?: number,
+  thumbnail?: string | number,
+  thumbnailVersion?: string | number
+}
+
+/**
+ * A seasonal campaign, as written in the campaigns JSON
+ * @property id - Unique identifier of the campaign, used to key its events
+ * @property title - The title of the campaign tab
+ * @property start - When the campaign starts, as an ISO 8601 date or a timestamp in milliseconds
+ * @property end - When the campaign ends, as an ISO 8601 date or a timestamp in milliseconds
+ * @property persistentKey - Persistent object variable holding the players' progress in the campaign
+ * @property rewards - The reward schedule of the campaign, in the same format as the main schedule
+ */
+type CampaignEntry = {
+  id: string,
+  title?: string,
+  start: string | number,
+  end: string | number,
+  persistentKey: string,
+  rewards: RewardScheduleEntry[]
+}
+
+/**
+ * A validated seasonal campaign
+ * @property id - Unique identifier of the campaign
+ * @property title - The title of the campaign tab
+ * @property startDate - Timestamp when the campaign starts
+ * @property endDate - Timestamp when the campaign ends
+ * @property persistentObjectVariableKey - Key used to store player progress in the campaign
+ * @property rewards - Array of rewards to be given in sequence
+ */
+type DailyRewardsCampaignConfig = {
+  id: string,
+  title: string,
+  startDate: number,
+  endDate: number,
+  persistentObjectVariableKey: string,
+  rewards: RewardData[]
+}
+
+/**
+ * Campaign information sent to the clients along with the rewards list
+ * @property id - Unique identifier of the campaign
+ * @property title - The title of the campaign tab
+ * @property endDate - Timestamp when the campaign ends
+ * @property rewards - The rewards of the campaign
+ */
+type DailyRewardsCampaign = {
+  id: string,
+  title: string,
+  endDate: number,
+  rewards: RewardEnrichedData[]
+}
+
+/**
+ * How the daily rewards decide that a new day has started
+ * - utc: days start at midnight UTC, identical on every server instance
+ * - offset: days start at midnight in a fixed UTC offset (no daylight saving time)
+ * - rolling: a new reward becomes available 24 hours after the last claim
+ */
+export type DayBoundary = 'utc' | 'offset' | 'rolling';
+
+const DAY_BOUNDARIES: DayBoundary[] = ['utc', 'offset', 'rolling'];
+
+/**
+ * Source of the current time.
+ * All the day computations go through it so they can be driven by a fake clock.
+ */
+export interface Clock {
+  now(): number;
+}
+
+/**
+ * Clock reading the time of the server instance
+ */
+export const SystemClock: Clock = { now: () => Date.now() };
+
+/** Number of milliseconds in a day */
+const MILLISECONDS_IN_A_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Gets the number of the day a date falls in, counted from the epoch in the given day boundary.
+ * @param date - Date in milliseconds
+ * @param dayBoundary - How the start of a new day is determined
+ * @param utcOffsetMinutes - Offset from UTC of the day boundary, used by the 'offset' strategy
+ * @returns The day number
+ */
+export function getDayNumber(date: number, dayBoundary: DayBoundary, utcOffsetMinutes: number): number {
+  const offset = dayBoundary === 'offset' ? utcOffsetMinutes * 60 * 1000 : 0;
+  return Math.floor((date + offset) / MILLISECONDS_IN_A_DAY);
+}
+
+/**
+ * Calculates the number of day boundaries crossed between two dates.
+ * Days are counted on UTC-based day numbers, so daylight saving time changes never shorten or lengthen a day.
+ * A start date in the future (clock skew between server instances) counts as the same day.
+ *
+ * @param start - Start date in milliseconds
+ * @param end - End date in milliseconds
+ * @param dayBoundary - How the start of a new day is determined
+ * @param utcOffsetMinutes - Offset from UTC of the day boundary, used by the 'offset' strategy
+ * @returns Number of days between the dates, never negative
+ */
+export function getDaysBetweenDates(start: number, end: number, dayBoundary: DayBoundary, utcOffsetMinutes: number): number {
+  if (dayBoundary === 'rolling') {
+    return Math.floor(Math.max(0, end - start) / MILLISECONDS_IN_A_DAY);
+  }
+  return Math.max(0, getDayNumber(end, dayBoundary, utcOffsetMinutes) - getDayNumber(start, dayBoundary, utcOffsetMinutes));
+}
+
+/**
+ * Gets the date at which the day following a collection starts.
+ * @param collectionDate - Date of the collection in milliseconds
+ * @param dayBoundary - How the start of a new day is determined
+ * @param utcOffsetMinutes - Offset from UTC of the day boundary, used by the 'offset' strategy
+ * @returns The date of the next day boundary in milliseconds
+ */
+export function getNextDayStart(collectionDate: number, dayBoundary: DayBoundary, utcOffsetMinutes: number): number {
+  if (dayBoundary === 'rolling') {
+    return collectionDate + MILLISECONDS_IN_A_DAY;
+  }
+  const offset = dayBoundary === 'offset' ? utcOffsetMinutes * 60 * 1000 : 0;
+  return (getDayNumber(collectionDate, dayBoundary, utcOffsetMinutes) + 1) * MILLISECONDS_IN_A_DAY - offset;
+}
+
 /**
  * Configuration for the Daily Rewards system
  * @property persistentObjectVariableKey - Key used to store player progress in the persistent storage
  * @property activation - Whether the daily rewards system is active
  * @property autoRepeat - Whether the rewards sequence should automatically restart after completion
  * @property resetStreakIfDayIsMissed - Whether missing a day resets the player's streak
+ * @property dayBoundary - How the start of a new day is determined
+ * @property utcOffsetMinutes - Offset from UTC of the day boundary, used by the 'offset' strategy
+ * @property streakFreezeSku - Consumable SKU that covers one missed day when held, empty to disable
+ * @property catchUpPriceSku - SKU paid to claim a missed day, empty to disable catch-up
+ * @property catchUpPriceQuantity - Amount of catchUpPriceSku paid per missed day
+ * @property catchUpMaxMissedDays - Number of missed days after which the series can no longer be caught up
+ * @property longestStreakLeaderboard - Leaderboard receiving the longest streak, empty to disable
+ * @property startDate - Timestamp before which the rewards cannot be collected (optional, campaigns only)
+ * @property endDate - Timestamp from which the rewards cannot be collected anymore (optional, campaigns only)
  * @property rewards - Array of rewards to be given in sequence
  */
-type DailyRewardsConfig = {
+export type DailyRewardsConfig = {
   persistentObjectVariableKey: string;
   activation: boolean;
   autoRepeat: boolean;
   resetStreakIfDayIsMissed: boolean;
+  dayBoundary: DayBoundary;
+  utcOffsetMinutes: number;
+  streakFreezeSku: string;
+  catchUpPriceSku: string;
+  catchUpPriceQuantity: number;
+  catchUpMaxMissedDays: number;
+  longestStreakLeaderboard: string;
+  startDate?: number;
+  endDate?: number;
   rewards: RewardData[];
 }
 
@@ -106,8 +298,14 @@ type DailyRewardsOperationResult = {
   message?: string;
 }
 
+/**
+ * Result of a claim
+ * @property reward - The claimed reward, or null if nothing was claimed
+ * @property verified - Whether the player's entitlements confirmed the grant, an unverified grant is reconciled on the next login
+ */
 type DailyRewardsClaimResult = DailyRewardsOperationResult & {
   reward: RewardEnrichedData | null;
+  verified: boolean;
 }
 
 /**
@@ -118,26 +316,139 @@ const DailyRewardsEvents = {
   // Client requests the list of available rewards
   RequestRewardsList: new hz.NetworkEvent<{ player: hz.Player, id: string | null }>('DailyRewardsEvents.RequestRewardsList'),
 
-  // Client requests the current state of the daily rewards event
-  RequestEventState: new hz.NetworkEvent<{ player: hz.Player, id: string | null }>('DailyRewardsEvents.RequestEventState'),
+  // Client requests the current state of the daily rewards event, or of a campaign when campaignId is set
+  RequestEventState: new hz.NetworkEvent<{ player: hz.Player, id: string | null, campaignId: string | null }>('DailyRewardsEvents.RequestEventState'),
 
-  // Server sends the rewards list to a specific player
-  SendRewardsList: new hz.NetworkEvent<{ player: hz.Player, id: string | null, metadata: DailyRewardsMetadata, rewards: RewardEnrichedData[] }>('DailyRewardsEvents.SendRewardsList'),
+  // Server sends the rewards list, along with the running campaigns, to a specific player
+  SendRewardsList: new hz.NetworkEvent<{ player: hz.Player, id: string | null, metadata: DailyRewardsMetadata, rewards: RewardEnrichedData[], campaigns: DailyRewardsCampaign[] }>('DailyRewardsEvents.SendRewardsList'),
 
-  // Server broadcasts the rewards list to all players
-  BroadcastRewardsList: new hz.NetworkEvent<{ id: string | null, metadata: DailyRewardsMetadata, rewards: RewardEnrichedData[] }>('DailyRewardsEvents.BroadcastRewardsList'),
+  // Server broadcasts the rewards list, along with the running campaigns, to all players
+  BroadcastRewardsList: new hz.NetworkEvent<{ id: string | null, metadata: DailyRewardsMetadata, rewards: RewardEnrichedData[], campaigns: DailyRewardsCampaign[] }>('DailyRewardsEvents.BroadcastRewardsList'),
 
-  // Server sends the current event state to a player
-  SendEventState: new hz.NetworkEvent<{ player: hz.Player, id: string | null, eventState: DailyRewardsEventState | null }>('DailyRewardsEvents.SendEventState'),
+  // Server sends the current event state of the daily rewards, or of a campaign, to a player
+  SendEventState: new hz.NetworkEvent<{ player: hz.Player, id: string | null, campaignId: string | null, eventState: DailyRewardsEventState | null }>('DailyRewardsEvents.SendEventState'),
 
-  // Client requests to claim the current day's reward
-  ClaimReward: new hz.NetworkEvent<{ player: hz.Player, id: string | null }>('DailyRewardsEvents.ClaimReward'),
+  // Client requests to claim the current day's reward of the daily rewards, or of a campaign
+  ClaimReward: new hz.NetworkEvent<{ player: hz.Player, id: string | null, campaignId: string | null }>('DailyRewardsEvents.ClaimReward'),
 
   // Server responds to a claim request with the result and updated state
-  ClaimRewardResponse: new hz.NetworkEvent<{ player: hz.Player, id: string | null, eventState: DailyRewardsEventState | null, result: DailyRewardsClaimResult }>('DailyRewardsEvents.ClaimRewardResponse'),
+  ClaimRewardResponse: new hz.NetworkEvent<{ player: hz.Player, id: string | null, campaignId: string | null, eventState: DailyRewardsEventState | null, result: DailyRewardsClaimResult }>('DailyRewardsEvents.ClaimRewardResponse'),
 
   // Client notifies the server of a player login (to update daily rewards state)
-  RecordLogin: new hz.NetworkEvent<{ player: hz.Player, id: string | null }>('DailyRewardsEvents.RecordLogin')
+  RecordLogin: new hz.NetworkEvent<{ player: hz.Player, id: string | null }>('DailyRewardsEvents.RecordLogin'),
+
+  // Client requests to buy back the next missed day, the server responds with ClaimRewardResponse
+  ClaimCatchUp: new hz.NetworkEvent<{ player: hz.Player, id: string | null }>('DailyRewardsEvents.ClaimCatchUp')
+}
+
+/**
+ * Parses and validates a reward schedule.
+ * The schedule is an array of {day, sku, quantity, thumbnail} entries, of any length,
+ * e.g. [{"day": 1, "sku": "coins_small", "quantity": 10, "thumbnail": "1234567890"}, ...]
+ *
+ * @param raw - The parsed JSON content of the schedule
+ * @returns The rewards ordered by day
+ * @throws Error describing the first problem found (missing fields, duplicate or missing days)
+ */
+function parseRewardSchedule(raw: unknown): RewardData[] {
+  if (!Array.isArray(raw) || raw.length === 0) {
+    throw Error('Reward schedule must be a non-empty array of {day, sku, quantity, thumbnail} entries.');
+  }
+
+  const entries = raw.map((entry: RewardScheduleEntry, index: number) => {
+    if (!entry || typeof entry !== 'object') {
+      throw Error(`Reward schedule entry #${index} is not an object.`);
+    }
+    if (!Number.isInteger(entry.day) || entry.day < 1) {
+      throw Error(`Reward schedule entry #${index} needs a day number starting at 1, got "${entry.day}".`);
+    }
+    if (typeof entry.sku !== 'string' || entry.sku === '') {
+      throw Error(`Reward for day ${entry.day} is missing a SKU.`);
+    }
+    const quantity = entry.quantity ?? 1;
+    if (!Number.isInteger(quantity) || quantity < 1) {
+      throw Error(`Reward for day ${entry.day} needs a positive whole quantity, got "${entry.quantity}".`);
+    }
+
+    let thumbnailId = BigInt(0);
+    let thumbnailVersionId = BigInt(0);
+    try {
+      thumbnailId = BigInt(entry.thumbnail ?? 0);
+      thumbnailVersionId = BigInt(entry.thumbnailVersion ?? 0);
+    } catch (e) {
+      throw Error(`Reward for day ${entry.day} has an invalid thumbnail asset ID.`);
+    }
+
+    return { day: entry.day, reward: { sku: entry.sku, quantity: quantity, thumbnailId: thumbnailId, thumbnailVersionId: thumbnailVersionId } };
+  });
+
+  // Days must run from 1 to the length of the schedule without gaps or duplicates
+  entries.sort((a, b) => a.day - b.day);
+  entries.forEach((entry, index) => {
+    if (entry.day === index) {
+      throw Error(`Reward schedule has more than one reward for day ${entry.day}.`);
+    }
+    if (entry.day !== index + 1) {
+      throw Error(`Reward schedule is missing day ${index + 1}, days must run from 1 to ${entries.length}.`);
+    }
+  });
+
+  return entries.map(entry => entry.reward);
+}
+
+/**
+ * Parses and validates the seasonal campaigns.
+ * The campaigns are an array of {id, title, start, end, persistentKey, rewards} entries,
+ * e.g. [{"id": "holiday", "title": "Holiday Calendar", "start": "2026-12-01T00:00:00Z", "end": "2026-12-26T00:00:00Z",
+ *        "persistentKey": "DailyRewards:Holiday", "rewards": [{"day": 1, "sku": "candy_cane"}, ...]}]
+ *
+ * @param raw - The parsed JSON content of the campaigns
+ * @returns The validated campaigns
+ * @throws Error describing the first problem found
+ */
+function parseCampaigns(raw: unknown): DailyRewardsCampaignConfig[] {
+  if (!Array.isArray(raw)) {
+    throw Error('Campaigns must be an array of {id, title, start, end, persistentKey, rewards} entries.');
+  }
+
+  const ids = new Set<string>();
+  return raw.map((entry: CampaignEntry, index: number) => {
+    if (!entry || typeof entry.id !== 'string' || entry.id === '') {
+      throw Error(`Campaign #${index} is missing an id.`);
+    }
+    if (ids.has(entry.id)) {
+      throw Error(`Campaign "${entry.id}" is defined more than once.`);
+    }
+    ids.add(entry.id);
+
+    const startDate = typeof entry.start === 'number' ? entry.start : Date.parse(entry.start);
+    const endDate = typeof entry.end === 'number' ? entry.end : Date.parse(entry.end);
+    if (isNaN(startDate) || isNaN(endDate)) {
+      throw Error(`Campaign "${entry.id}" needs a valid start and end date.`);
+    }
+    if (endDate <= startDate) {
+      throw Error(`Campaign "${entry.id}" ends before it starts.`);
+    }
+    if (typeof entry.persistentKey !== 'string' || entry.persistentKey === '') {
+      throw Error(`Campaign "${entry.id}" needs its own persistent key.`);
+    }
+
+    let rewards: RewardData[];
+    try {
+      rewards = parseRewardSchedule(entry.rewards);
+    } catch (e) {
+      throw Error(`Campaign "${entry.id}": ${e instanceof Error ? e.message : e}`);
+    }
+
+    return {
+      id: entry.id,
+      title: entry.title ?? entry.id,
+      startDate: startDate,
+      endDate: endDate,
+      persistentObjectVariableKey: entry.persistentKey,
+      rewards: rewards
+    };
+  });
 }
 
 /**
@@ -148,7 +459,7 @@ const DailyRewardsEvents = {
  * - Determining event state (active, expired)
  * - Handling reward distribution
  */
-class DailyRewardsLogic {
+export class DailyRewardsLogic {
   private owner: Component | undefined;
 
   /** Configuration settings for the daily rewards system */
@@ -160,15 +471,20 @@ class DailyRewardsLogic {
   /** Cached data about rewards with additional display information */
   private enrichedRewardsData: RewardEnrichedData[] = [];
 
+  /** Source of the current time */
+  private readonly clock: Clock;
+
   /**
    * Creates a new instance of the daily rewards system.
    * @param world - The game world instance
    * @param config - Configuration settings for the daily rewards
+   * @param clock - Source of the current time, the server clock by default
    */
-  constructor(owner: Component | undefined, world: hz.World, config: DailyRewardsConfig) {
+  constructor(owner: Component | undefined, world: hz.World, config: DailyRewardsConfig, clock: Clock = SystemClock) {
     this.owner = owner;
     this.config = config;
     this.world = world;
+    this.clock = clock;
 
     // Automatically activate the daily rewards if specified in config
     if (this.config.activation) {
@@ -182,6 +498,17 @@ class DailyRewardsLogic {
    */
   public isActive: boolean = false;
 
+  /**
+   * Whether the rewards can be collected at the given date, i.e. the event is active and within its schedule.
+   * @param date - The date to check, defaults to now
+   * @returns Whether the event is running
+   */
+  public isRunning(date: number = this.getDate()): boolean {
+    return this.isActive
+      && (this.config.startDate === undefined || date >= this.config.startDate)
+      && (this.config.endDate === undefined || date < this.config.endDate);
+  }
+
   /**
    * Claims the reward of the current day for the player.
    * Validates eligibility, grants the reward, and updates player data.
@@ -189,51 +516,132 @@ class DailyRewardsLogic {
    * @param player - The player claiming the reward
    * @returns Operation result indicating success or failure with a message
    */
-  public async claimReward(player: hz.Player): Promise<DailyRewardsClaimResult> {
+  public claimReward(player: hz.Player): Promise<DailyRewardsClaimResult> {
+    // Claims of a player run one at a time, so two requests can never both pass the checks below
+    return queueTransaction(player, () => this.processClaim(player));
+  }
+
+  /**
+   * Claims the reward of the current day, see claimReward.
+   * Only call it from inside queueTransaction.
+   *
+   * @param player - The player claiming the reward
+   * @returns Operation result indicating success or failure with a message
+   */
+  private async processClaim(player: hz.Player): Promise<DailyRewardsClaimResult> {
+    // Read the clock once, so a claim started before a day boundary is recorded on the day it was validated
+    const claimDate = this.getDate();
+
+    // Campaigns can only be claimed while they run
+    if (!this.isRunning(claimDate)) {
+      return { success: false, message: 'Event is not running.', reward: null, verified: false };
+    }
+
+    // A previous claim still waiting for its grant blocks new claims, so it can never be granted twice
+    if (!await this.reconcilePendingGrant(player, false)) {
+      return { success: false, message: 'Your previous reward is still being delivered.', reward: null, verified: false };
+    }
+
+    // Let held streak freezes cover any missed day before looking at the state
+    await this.applyStreakFreezes(player, claimDate);
+
     // Get player's reward data from persistent storage
-    const rewardsData = this.getPlayerData(player);
+    let rewardsData = this.getPlayerData(player);
     if (!rewardsData) {
       return {
         success: false,
         message: 'No rewards data found.',
-        reward: null
+        reward: null,
+        verified: false
       };
     }
 
     // Check event state to determine if player can claim reward
-    const eventState = this.getEventState(rewardsData);
+    let eventState = this.getEventState(rewardsData, claimDate);
+
+    // Claiming instead of catching up gives up on missed days, which restarts the series if missing a day resets it
+    if (eventState.missedDays > 0 && this.config.resetStreakIfDayIsMissed && !eventState.expired) {
+      this.resetSeries(player);
+      rewardsData = this.getPlayerData(player)!;
+      eventState = this.getEventState(rewardsData, claimDate);
+    }
 
     // Prevent claiming if event has expired
     if (eventState.expired) {
-      return { success: false, message: 'Event has expired.', reward: null };
+      return { success: false, message: 'Event has expired.', reward: null, verified: false };
     }
 
     // Prevent claiming if player already claimed today's reward
     if (eventState.hasCollectedToday) {
-      return { success: false, message: 'Reward has already been claimed.', reward: null };
+      return { success: false, message: 'Reward has already been claimed.', reward: null, verified: false };
     }
 
     // Get the reward for the current day
     const reward = this.enrichedRewardsData.find(reward => reward.day == eventState.currentDay);
     if (!reward) {
-      return { success: false, message: 'No reward found for the current day.', reward: null };
+      return { success: false, message: 'No reward found for the current day.', reward: null, verified: false };
     }
 
-    // Grant the reward to the player
-    const result = await this.grantReward(player, reward)
+    // Grant the reward to the player, the new collection is saved once the grant is verified
+    return await this.grantReward(player, rewardsData, reward, { date: claimDate, index: eventState.currentDay }, this.getNextStreak(rewardsData, claimDate));
+  }
 
-    if (result.success) {
-      // Update player's reward data with the new collection
-      this.savePlayerData(player, {
-        startDate: rewardsData.startDate,
-        lastCollection: {
-          date: this.getDate(),
-          index: eventState.currentDay
-        }
-      });
+  /**
+   * Buys back the next missed day for the player: the price is consumed and the reward of that day is granted.
+   * The series and the streak continue as if the day had not been missed.
+   *
+   * @param player - The player catching up
+   * @returns Operation result indicating success or failure with a message
+   */
+  public claimCatchUp(player: hz.Player): Promise<DailyRewardsClaimResult> {
+    return queueTransaction(player, () => this.processCatchUp(player));
+  }
+
+  /**
+   * Buys back the next missed day, see claimCatchUp.
+   * Only call it from inside queueTransaction.
+   *
+   * @param player - The player catching up
+   * @returns Operation result indicating success or failure with a message
+   */
+  private async processCatchUp(player: hz.Player): Promise<DailyRewardsClaimResult> {
+    const now = this.getDate();
+
+    // Missed days can only be bought back while the event runs, like claims
+    if (!this.isRunning(now)) {
+      return { success: false, message: 'Event is not running.', reward: null, verified: false };
+    }
+
+    if (!await this.reconcilePendingGrant(player, false)) {
+      return { success: false, message: 'Your previous reward is still being delivered.', reward: null, verified: false };
+    }
+
+    const rewardsData = this.getPlayerData(player);
+    if (!rewardsData || !rewardsData.lastCollection) {
+      return { success: false, message: 'No rewards data found.', reward: null, verified: false };
+    }
+
+    const eventState = this.getEventState(rewardsData, now);
+    if (!eventState.canCatchUp) {
+      return { success: false, message: 'There is no missed day to catch up.', reward: null, verified: false };
     }
 
-    return result;
+    // The reward the player would have received on the missed day
+    const reward = this.enrichedRewardsData.find(reward => reward.day == eventState.currentDay);
+    if (!reward) {
+      return { success: false, message: 'No reward found for the missed day.', reward: null, verified: false };
+    }
+
+    // We are casting to number because the quantity returned is actually a BigInt
+    const balance = Number(await hz.WorldInventory.getPlayerEntitlementQuantity(player, this.config.catchUpPriceSku));
+    if (balance < this.config.catchUpPriceQuantity) {
+      return { success: false, message: `Catching up costs ${this.config.catchUpPriceQuantity} ${this.config.catchUpPriceSku}.`, reward: null, verified: false };
+    }
+
+    // The missed day counts as collected one day after the previous collection
+    const missedDate = rewardsData.lastCollection.date + MILLISECONDS_IN_A_DAY;
+    return await this.grantReward(player, rewardsData, reward, { date: missedDate, index: eventState.currentDay }, (rewardsData.currentStreak ?? 0) + 1,
+      () => this.owner ? takeItems(this.owner, player, this.config.catchUpPriceSku, this.config.catchUpPriceQuantity, balance) : Promise.resolve(false));
   }
 
   /**
@@ -241,15 +649,42 @@ class DailyRewardsLogic {
    * Initializes or updates the player's reward streak.
    *
    * @param player - The player who logged in
+   * @param joined - Whether the player just joined the world, only then is a pending grant that did not land issued again
    * @remarks If the DailyRewards.BEGIN_ON_PLAYER_JOIN_KEY prop is true, this method will be called when the player joins the world.
    * @returns Operation result indicating success or failure with a message
    */
-  public recordLogin(player: hz.Player): DailyRewardsOperationResult {
+  public recordLogin(player: hz.Player, joined: boolean = false): Promise<DailyRewardsOperationResult> {
+    // Settling a pending grant must not race a claim of the same player
+    return queueTransaction(player, () => this.processLogin(player, joined));
+  }
+
+  /**
+   * Records the login of the player, see recordLogin.
+   * Only call it from inside queueTransaction.
+   *
+   * @param player - The player who logged in
+   * @param joined - Whether the player just joined the world
+   * @returns Operation result indicating success or failure with a message
+   */
+  private async processLogin(player: hz.Player, joined: boolean): Promise<DailyRewardsOperationResult> {
     // Check if daily rewards are active
     if (!this.isActive) {
       return { success: false, message: 'Daily Rewards event is not active.' };
     }
 
+    // Settle a claim interrupted in a previous session before anything else looks at the collection
+    if (!await this.reconcilePendingGrant(player, joined)) {
+      return { success: false, message: 'A previous reward could not be verified yet.' };
+    }
+
+    // Campaigns only track players while they run
+    if (!this.isRunning()) {
+      return { success: false, message: 'Event is not running.' };
+    }
+
+    // Let held streak freezes cover the days missed since the last visit
+    await this.applyStreakFreezes(player, this.getDate());
+
     // Get player's reward data
     const rewardsData = this.getPlayerData(player);
 
@@ -259,6 +694,12 @@ class DailyRewardsLogic {
       return { success: true };
     }
 
+    // A series started before the schedule belongs to an earlier run of the campaign
+    if (this.config.startDate !== undefined && rewardsData.startDate < this.config.startDate) {
+      this.resetSeries(player);
+      return { success: true };
+    }
+
     // Check event state
     const eventState = this.getEventState(rewardsData);
 
@@ -270,6 +711,23 @@ class DailyRewardsLogic {
     return { success: true };
   }
 
+  /**
+   * Starts tracking the player if they have no series yet, or only one from an earlier run of the campaign.
+   * Unlike recordLogin, it never settles a pending grant, so it is safe while a claim is in progress.
+   *
+   * @param player - The player to enroll
+   */
+  public enroll(player: hz.Player) {
+    if (!this.isRunning()) {
+      return;
+    }
+
+    const rewardsData = this.getPlayerData(player);
+    if (!rewardsData || (this.config.startDate !== undefined && rewardsData.startDate < this.config.startDate && !rewardsData.pendingGrant)) {
+      this.resetSeries(player);
+    }
+  }
+
   /**
    * Resets the reward series of the player.
    * This starts a new streak from day 0.
@@ -278,10 +736,99 @@ class DailyRewardsLogic {
    */
   public resetSeries(player: hz.Player) {
     // Save new player data with current date as start and no collections
+    // The streak lives across series, it is only broken by a missed day
+    const previousData = this.getPlayerData(player);
     this.savePlayerData(player, {
       startDate: this.getDate(),
-      lastCollection: null
+      lastCollection: null,
+      currentStreak: previousData?.currentStreak,
+      longestStreak: previousData?.longestStreak,
+      streakDate: previousData?.streakDate
+    });
+  }
+
+  /**
+   * Consumes streak freezes held by the player to cover the days missed since the last collection.
+   * Freezes are only used when the player holds enough of them to cover every missed day.
+   * Only call it from inside queueTransaction, so that two calls cannot spend the same freezes.
+   *
+   * @param player - The player whose missed days to cover
+   * @param now - The current timestamp
+   */
+  private async applyStreakFreezes(player: hz.Player, now: number) {
+    if (!this.config.streakFreezeSku) {
+      return;
+    }
+
+    const rewardsData = this.getPlayerData(player);
+    if (!rewardsData || !rewardsData.lastCollection) {
+      return;
+    }
+
+    const eventState = this.getEventState(rewardsData, now);
+    if (eventState.missedDays === 0 || rewardsData.lastCollection.index >= this.config.rewards.length - 1) {
+      return;
+    }
+
+    // We are casting to number because the quantity returned is actually a BigInt
+    const freezes = Number(await hz.WorldInventory.getPlayerEntitlementQuantity(player, this.config.streakFreezeSku));
+    if (freezes < eventState.missedDays || !this.owner) {
+      return;
+    }
+
+    // The missed days are only covered once the freezes are gone from the player's inventory
+    if (!await takeItems(this.owner, player, this.config.streakFreezeSku, eventState.missedDays, freezes)) {
+      console.warn(`Streak freezes of ${player.name.get()} could not be consumed, the missed days are not covered`);
+      return;
+    }
+
+    // Move the last collection forward so that yesterday counts as collected
+    const coveredDate = rewardsData.lastCollection.date + eventState.missedDays * MILLISECONDS_IN_A_DAY;
+    this.savePlayerData(player, {
+      ...rewardsData,
+      lastCollection: { date: coveredDate, index: rewardsData.lastCollection.index },
+      streakDate: coveredDate
+    });
+  }
+
+  /**
+   * Computes the streak the player will have after claiming a reward now.
+   * @param rewardsData - The player's persistent reward data
+   * @param now - The claim timestamp
+   * @returns The new streak
+   */
+  private getNextStreak(rewardsData: DailyRewardsPersistentData, now: number): number {
+    if (rewardsData.streakDate === undefined) {
+      return 1;
+    }
+    const days = this.getDaysBetweenDates(rewardsData.streakDate, now);
+    if (days === 0) {
+      // A new series started on the day the previous one was completed
+      return rewardsData.currentStreak ?? 1;
+    }
+    return days === 1 ? (rewardsData.currentStreak ?? 0) + 1 : 1;
+  }
+
+  /**
+   * Saves a new collection along with the streak counters, and pushes the longest streak to the leaderboard.
+   * @param player - The player who collected
+   * @param rewardsData - The player's persistent reward data before the collection
+   * @param collection - The new collection
+   * @param streak - The player's streak including this collection
+   */
+  private saveCollection(player: hz.Player, rewardsData: DailyRewardsPersistentData, collection: DailyRewardsGiftCollection, streak: number) {
+    const longestStreak = Math.max(rewardsData.longestStreak ?? 0, streak);
+    this.savePlayerData(player, {
+      startDate: rewardsData.startDate,
+      lastCollection: collection,
+      currentStreak: streak,
+      longestStreak: longestStreak,
+      streakDate: collection.date
     });
+
+    if (this.config.longestStreakLeaderboard) {
+      this.world.leaderboards.setScoreForPlayer(this.config.longestStreakLeaderboard, player, longestStreak, true);
+    }
   }
 
   /**
@@ -289,48 +836,75 @@ class DailyRewardsLogic {
    * Calculates current day, collection status, and expiration status.
    *
    * @param eventData - The player's persistent reward data
+   * @param currentDate - The time to evaluate the state at, now by default
    * @returns The current state of the event for the player
    */
-  public getEventState(eventData: DailyRewardsPersistentData): DailyRewardsEventState {
-    // Normalize dates to midnight for consistent day calculations
-    const currentDate = new Date(this.getDate()).setHours(0, 0, 0, 0); // Get today's date at midnight
-    const startDate = new Date(eventData.startDate).setHours(0, 0, 0, 0); // Normalize start date to midnight
+  public getEventState(eventData: DailyRewardsPersistentData, currentDate: number = this.getDate()): DailyRewardsEventState {
+    // A claim waiting for its grant already counts as collected
+    if (eventData.pendingGrant) {
+      eventData = {
+        ...eventData,
+        lastCollection: eventData.pendingGrant.collection,
+        currentStreak: eventData.pendingGrant.streak,
+        longestStreak: Math.max(eventData.longestStreak ?? 0, eventData.pendingGrant.streak),
+        streakDate: eventData.pendingGrant.collection.date
+      };
+    }
 
     // Initialize event state with default values
     const eventState: DailyRewardsEventState = {
       expired: false,
       hasCollectedToday: false,
       currentDay: 0,
-      nextCollectionDate: null
+      nextCollectionDate: null,
+      missedDays: 0,
+      canCatchUp: false,
+      currentStreak: 0,
+      longestStreak: eventData.longestStreak ?? 0
     };
 
+    // The streak is alive as long as the last counted claim was today or yesterday
+    if (eventData.streakDate !== undefined && this.getDaysBetweenDates(eventData.streakDate, currentDate) <= 1) {
+      eventState.currentStreak = eventData.currentStreak ?? 0;
+    }
+
+    // A campaign is over once its end date has passed
+    const campaignOver = this.config.endDate !== undefined && currentDate >= this.config.endDate;
+
     // Handle case where player has never collected a reward
     if (!eventData.lastCollection) {
       eventState.currentDay = 0;
 
       // Check if streak should expire when player misses a day
-      const daysSinceStart = this.getDaysBetweenDates(startDate, currentDate);
-      eventState.expired = this.config.resetStreakIfDayIsMissed && daysSinceStart > 0;
+      const daysSinceStart = this.getDaysBetweenDates(eventData.startDate, currentDate);
+      eventState.expired = (this.config.resetStreakIfDayIsMissed && daysSinceStart > 0) || campaignOver;
 
       return eventState;
     }
 
     // Handle case where player has collected rewards before
-    const lastCollectionDate = new Date(eventData.lastCollection.date).setHours(0, 0, 0, 0);
-    eventState.hasCollectedToday = lastCollectionDate === currentDate;
-
     // Calculate days since last collection and determine current day
+    const lastCollectionDate = eventData.lastCollection.date;
     const daysSinceLastCollection = this.getDaysBetweenDates(lastCollectionDate, currentDate);
+    eventState.hasCollectedToday = daysSinceLastCollection === 0;
     eventState.currentDay = daysSinceLastCollection > 0 ? eventData.lastCollection.index + 1 : eventData.lastCollection.index;
 
-    // Determine if event has expired due to inactivity or completion
-    const expiredFromInactivity = this.config.resetStreakIfDayIsMissed && daysSinceLastCollection > 1;
+    // Missed days can be bought back one at a time, within the catch-up window
     const collectedAllRewards = eventData.lastCollection.index >= this.config.rewards.length - 1;
-    eventState.expired = expiredFromInactivity || collectedAllRewards;
+    eventState.missedDays = Math.max(0, daysSinceLastCollection - 1);
+    eventState.canCatchUp = eventState.missedDays > 0
+      && !collectedAllRewards
+      && this.config.catchUpPriceSku !== ''
+      && eventState.missedDays <= this.config.catchUpMaxMissedDays;
+
+    // Determine if event has expired due to inactivity or completion
+    // A series that can still be caught up is not expired yet
+    const expiredFromInactivity = this.config.resetStreakIfDayIsMissed && eventState.missedDays > 0 && !eventState.canCatchUp;
+    eventState.expired = expiredFromInactivity || collectedAllRewards || campaignOver;
 
     // Set next collection date if player collected today and event is still active
     if (eventState.hasCollectedToday && !eventState.expired) {
-      eventState.nextCollectionDate = currentDate + 24 * 60 * 60 * 1000; // Tomorrow at midnight
+      eventState.nextCollectionDate = this.getNextDayStart(lastCollectionDate);
     }
 
     return eventState;
@@ -345,11 +919,10 @@ class DailyRewardsLogic {
   }
 
   /**
-   * Gets the current timestamp.
-   * Abstracted to allow for easier testing and time manipulation.
+   * Gets the current timestamp from the clock.
    * @returns Current timestamp in milliseconds
    */
-  private getDate(): number { return Date.now(); }
+  private getDate(): number { return this.clock.now(); }
 
   /**
    * Retrieves the player's daily rewards data from persistent storage.
@@ -383,37 +956,140 @@ class DailyRewardsLogic {
   }
 
   /**
-   * Grants a reward to the player (and wait for it to be delivered)
+   * Grants a reward and commits the collection, through a pending grant saved beforehand.
+   * If the player leaves before the grant is verified, the pending grant is reconciled on their next login.
+   *
    * @param player - The player receiving the reward
-   * @param reward - The reward data containing SKU and quantity
+   * @param rewardsData - The player's persistent reward data before the claim
+   * @param reward - The reward to grant
+   * @param collection - The collection to save once the grant is verified
+   * @param streak - The streak to save once the grant is verified
+   * @param beforeGrant - Optional step run once the pending grant is saved, e.g. taking a price, the claim is dropped if it fails
+   * @returns Operation result telling whether the grant was verified
    */
-  private async grantReward(player: hz.Player, reward: RewardEnrichedData): Promise<DailyRewardsClaimResult> {
+  private async grantReward(player: hz.Player, rewardsData: DailyRewardsPersistentData, reward: RewardEnrichedData,
+    collection: DailyRewardsGiftCollection, streak: number, beforeGrant?: () => Promise<boolean>): Promise<DailyRewardsClaimResult> {
     // We are casting to number because the quantity returned is actually a BigInt
     const currentRewardQuantity: number = Number(await hz.WorldInventory.getPlayerEntitlementQuantity(player, reward.sku));
-    const expectedRewardQuantity = currentRewardQuantity + reward.quantity;
+    const pendingGrant: DailyRewardsPendingGrant = {
+      sku: reward.sku,
+      quantity: reward.quantity,
+      quantityBefore: currentRewardQuantity,
+      expectedQuantity: currentRewardQuantity + reward.quantity,
+      collection: collection,
+      streak: streak
+    };
+
+    // Write ahead: the claim is recorded before the grant so that neither can happen without the other
+    this.savePlayerData(player, { ...rewardsData, pendingGrant: pendingGrant });
+    if (beforeGrant) {
+      if (!await beforeGrant()) {
+        this.savePlayerData(player, rewardsData);
+        return { success: false, message: 'The price could not be taken, nothing was claimed.', reward: null, verified: false };
+      }
+
+      // The price may be paid in the reward's SKU, the grant is expected on top of what is left
+      const quantityAfterPrice = Number(await hz.WorldInventory.getPlayerEntitlementQuantity(player, reward.sku));
+      pendingGrant.quantityBefore = quantityAfterPrice;
+      pendingGrant.expectedQuantity = quantityAfterPrice + reward.quantity;
+      this.savePlayerData(player, { ...rewardsData, pendingGrant: pendingGrant });
+    }
 
     await hz.WorldInventory.grantItemToPlayer(player, reward.sku, reward.quantity);
 
+    if (!await this.waitForGrant(player, pendingGrant)) {
+      // The pending grant stays saved, the next login finds out whether it landed
+      return { success: true, message: 'Reward granted, but it could not be verified yet.', reward: reward, verified: false };
+    }
+
+    this.commitPendingGrant(player);
+    return { success: true, message: 'Reward granted.', reward: reward, verified: true };
+  }
+
+  /**
+   * Waits for the player's entitlements to show a pending grant.
+   * @param player - The player receiving the grant
+   * @param pendingGrant - The grant to verify
+   * @returns Whether the grant was verified before timing out
+   */
+  private async waitForGrant(player: hz.Player, pendingGrant: DailyRewardsPendingGrant): Promise<boolean> {
     // Because the backend doesn't support async grant, we need to manually
     // wait for validation that the purchase was successful, by waiting and comparing the entitlements
     const maxRetries = 10; // Maximum times to retry
     let retries = 0; // Number of retries so far
     while (retries++ < maxRetries
-      && !await this.hasExpectedEntitlements(player, reward.sku, expectedRewardQuantity)) {
+      && !await this.hasExpectedEntitlements(player, pendingGrant.sku, pendingGrant.expectedQuantity)) {
       // Wait for a second before checking again
       if (this.owner != undefined) {
         await new Promise(r => this.owner!.async.setTimeout(r, 1000));
       }
     }
 
-    if (retries > maxRetries) {
-      // Timing out the verification will be assumed as a success
-      // This is arguably not an ideal solution, but this is only temporary
-      // until the backend supports async grant
-      return { success: true, message: 'Timed out. Could not verify.', reward: reward };
+    return retries <= maxRetries;
+  }
+
+  /**
+   * Settles the pending grant of the player, if any.
+   * A grant that landed is committed. A grant that did not is issued again under a refreshed pending grant, when allowed.
+   * Nothing tells a grant that never landed from a slow one still on its way, so re-granting is only allowed when the player joins,
+   * and only while their balance is still the one the grant was issued on: a balance that moved means the grant most likely landed
+   * and some of it was spent since, so it is committed rather than granted twice.
+   *
+   * @param player - The player whose pending grant to settle
+   * @param regrant - Whether a grant that did not land should be issued again, only when the player just joined
+   * @returns Whether the player is left without a pending grant
+   */
+  private async reconcilePendingGrant(player: hz.Player, regrant: boolean): Promise<boolean> {
+    const rewardsData = this.getPlayerData(player);
+    const pendingGrant = rewardsData?.pendingGrant;
+    if (!rewardsData || !pendingGrant) {
+      return true;
+    }
+
+    // We are casting to number because the quantity returned is actually a BigInt
+    const currentQuantity = Number(await hz.WorldInventory.getPlayerEntitlementQuantity(player, pendingGrant.sku));
+    if (currentQuantity >= pendingGrant.expectedQuantity) {
+      console.log(`Pending daily reward ${pendingGrant.sku} of ${player.name.get()} was granted, committing it`);
+      this.commitPendingGrant(player);
+      return true;
+    }
+
+    const quantityBefore = pendingGrant.quantityBefore ?? pendingGrant.expectedQuantity - pendingGrant.quantity;
+    if (currentQuantity !== quantityBefore) {
+      console.warn(`Balance of ${pendingGrant.sku} of ${player.name.get()} moved from ${quantityBefore} to ${currentQuantity} since the pending daily reward was granted, committing it`);
+      this.commitPendingGrant(player);
+      return true;
     }
 
-    return { success: true, message: 'Reward granted.', reward: reward };
+    if (!regrant) {
+      return false;
+    }
+
+    // The grant never reached the player: issue it again, expecting it on top of what they hold now
+    console.warn(`Pending daily reward ${pendingGrant.sku} of ${player.name.get()} was not granted, granting it again`);
+    const retriedGrant: DailyRewardsPendingGrant = { ...pendingGrant, quantityBefore: currentQuantity, expectedQuantity: currentQuantity + pendingGrant.quantity };
+    this.savePlayerData(player, { ...rewardsData, pendingGrant: retriedGrant });
+
+    await hz.WorldInventory.grantItemToPlayer(player, retriedGrant.sku, retriedGrant.quantity);
+
+    if (!await this.waitForGrant(player, retriedGrant)) {
+      return false;
+    }
+
+    this.commitPendingGrant(player);
+    return true;
+  }
+
+  /**
+   * Saves the collection of the player's pending grant and clears it.
+   * @param player - The player whose pending grant was verified
+   */
+  private commitPendingGrant(player: hz.Player) {
+    const rewardsData = this.getPlayerData(player);
+    if (!rewardsData?.pendingGrant) {
+      return;
+    }
+    this.saveCollection(player, rewardsData, rewardsData.pendingGrant.collection, rewardsData.pendingGrant.streak);
   }
 
   /**
@@ -426,29 +1102,44 @@ class DailyRewardsLogic {
   private async hasExpectedEntitlements(player: hz.Player, expectedItemSku: string, expectedItemQuantity: number) {
     // We are casting to number because the quantity returned is actually a BigInt
     const quantity = Number(await hz.WorldInventory.getPlayerEntitlementQuantity(player, expectedItemSku));
-    return quantity === expectedItemQuantity;
+    // Checks run in the player's transaction queue, so the grants and consumes queued by the world's scripts cannot land in the meantime.
+    // Changes made outside the queue, e.g. purchases, still can.
+    return quantity >= expectedItemQuantity;
   }
 
   /**
-   * Calculates the number of days between two dates.
+   * Calculates the number of day boundaries crossed between two dates in the configured day boundary.
    * @param start - Start date in milliseconds
    * @param end - End date in milliseconds
-   * @returns Number of days between the dates
+   * @returns Number of days between the dates, never negative
    */
   private getDaysBetweenDates(start: number, end: number): number {
-    const millisecondsInADay = 24 * 60 * 60 * 1000;
-    return Math.floor((end - start) / millisecondsInADay);
+    return getDaysBetweenDates(start, end, this.config.dayBoundary, this.config.utcOffsetMinutes);
+  }
+
+  /**
+   * Gets the date at which the day following a collection starts in the configured day boundary.
+   * @param collectionDate - Date of the collection in milliseconds
+   * @returns The date of the next day boundary in milliseconds
+   */
+  private getNextDayStart(collectionDate: number): number {
+    return getNextDayStart(collectionDate, this.config.dayBoundary, this.config.utcOffsetMinutes);
   }
 
   /**
    * Fetches additional information about rewards from the world inventory.
    * Enriches the basic reward data with names, descriptions, and other display information.
+   *
+   * @returns The SKUs of the schedule that the world inventory does not know about,
+   * or null if the world inventory could not be reached
    */
-  public async fetchEnrichedRewardsData() {
+  public async fetchEnrichedRewardsData(): Promise<string[] | null> {
     // Fetch item details from world inventory
     let items: hz.InWorldPurchasable[] = [];
+    let fetched = false;
     try {
       items = await hz.WorldInventory.getWorldPurchasablesBySKUs(this.config.rewards.map(r => r.sku));
+      fetched = true;
     } catch (e) {
       console.error(`Error fetching items: ${e}`);
     }
@@ -470,6 +1161,11 @@ class DailyRewardsLogic {
         day: index++,
       };
     });
+
+    if (!fetched) {
+      return null;
+    }
+    return [...new Set(this.config.rewards.filter(reward => !itemMap.has(reward.sku)).map(reward => reward.sku))];
   }
 }
 
@@ -605,43 +1301,57 @@ export class DailyRewards extends EconomyServer<typeof DailyRewards, DailyReward
   /** Key to determine if missing a day resets the streak */
   static readonly RESET_STREAK_IF_DAY_IS_MISSED_KEY = "Reset Streak If Day Is Missed";
 
-  // Day 1 reward configuration keys
+  /** Key for the day boundary strategy: "utc", "offset" or "rolling" */
+  static readonly DAY_BOUNDARY_KEY = "Day Boundary";
+  /** Key for the UTC offset in minutes used by the "offset" day boundary */
+  static readonly UTC_OFFSET_MINUTES_KEY = "UTC Offset Minutes";
+
+  /** Key for the consumable SKU that covers one missed day when held */
+  static readonly STREAK_FREEZE_SKU_KEY = "Streak Freeze SKU";
+  /** Key for the SKU paid to catch up a missed day */
+  static readonly CATCH_UP_PRICE_SKU_KEY = "Catch Up Price SKU";
+  /** Key for the amount paid to catch up a missed day */
+  static readonly CATCH_UP_PRICE_QUANTITY_KEY = "Catch Up Price Quantity";
+  /** Key for the number of missed days after which catching up is no longer possible */
+  static readonly CATCH_UP_MAX_MISSED_DAYS_KEY = "Catch Up Max Missed Days";
+  /** Key for the leaderboard receiving the longest streak */
+  static readonly LONGEST_STREAK_LEADERBOARD_KEY = "Longest Streak Leaderboard";
+
+  /** Key for the reward schedule, a JSON array of {day, sku, quantity, thumbnail} entries */
+  static readonly REWARD_SCHEDULE_KEY = "Reward Schedule";
+  /** Key for a text asset holding the reward schedule, takes precedence over the JSON string */
+  static readonly REWARD_SCHEDULE_ASSET_KEY = "Reward Schedule Asset";
+
+  // Legacy reward configuration keys, only read when there is no reward schedule
   static readonly DAY1_REWARD_SKU = "Day 1 Reward SKU";
   static readonly DAY1_REWARD_QUANTITY = "Day 1 Reward Quantity";
   static readonly DAY1_REWARD_THUMBNAIL = "Day 1 Reward Thumbnail";
-
-  // Day 2 reward configuration keys
   static readonly DAY2_REWARD_SKU = "Day 2 Reward SKU";
   static readonly DAY2_REWARD_QUANTITY = "Day 2 Reward Quantity";
   static readonly DAY2_REWARD_THUMBNAIL = "Day 2 Reward Thumbnail";
-
-  // Day 3 reward configuration keys
   static readonly DAY3_REWARD_SKU = "Day 3 Reward SKU";
   static readonly DAY3_REWARD_QUANTITY = "Day 3 Reward Quantity";
   static readonly DAY3_REWARD_THUMBNAIL = "Day 3 Reward Thumbnail";
-
-  // Day 4 reward configuration keys
   static readonly DAY4_REWARD_SKU = "Day 4 Reward SKU";
   static readonly DAY4_REWARD_QUANTITY = "Day 4 Reward Quantity";
   static readonly DAY4_REWARD_THUMBNAIL = "Day 4 Reward Thumbnail";
-
-  // Day 5 reward configuration keys
   static readonly DAY5_REWARD_SKU = "Day 5 Reward SKU";
   static readonly DAY5_REWARD_QUANTITY = "Day 5 Reward Quantity";
   static readonly DAY5_REWARD_THUMBNAIL = "Day 5 Reward Thumbnail";
-
-  // Day 6 reward configuration keys
   static readonly DAY6_REWARD_SKU = "Day 6 Reward SKU";
   static readonly DAY6_REWARD_QUANTITY = "Day 6 Reward Quantity";
   static readonly DAY6_REWARD_THUMBNAIL = "Day 6 Reward Thumbnail";
-
-  // Day 7 reward configuration keys
   static readonly DAY7_REWARD_SKU = "Day 7 Reward SKU";
   static readonly DAY7_REWARD_QUANTITY = "Day 7 Reward Quantity";
   static readonly DAY7_REWARD_THUMBNAIL = "Day 7 Reward Thumbnail";
 
-  // To add additional rewards, add a new set of keys for each day, following the pattern above.
-  // Then, add them to the propsDefinition and to the rewards array in the initializeLogic method.
+  /** Key for the seasonal campaigns, a JSON array of {id, title, start, end, persistentKey, rewards} entries */
+  static readonly CAMPAIGNS_KEY = "Campaigns";
+  /** Key for a text asset holding the seasonal campaigns, takes precedence over the JSON string */
+  static readonly CAMPAIGNS_ASSET_KEY = "Campaigns Asset";
+
+  /** How often the component checks whether a campaign started or ended, in milliseconds */
+  private static readonly CAMPAIGN_CHECK_INTERVAL = 60 * 1000;
 
   /**
    * Property definitions for the DailyRewards component
@@ -660,57 +1370,70 @@ export class DailyRewards extends EconomyServer<typeof DailyRewards, DailyReward
     [DailyRewards.AUTO_REPEAT_KEY]: { type: hz.PropTypes.Boolean, default: true },
     [DailyRewards.SHOW_TIMER_KEY]: { type: hz.PropTypes.Boolean, default: true },
     [DailyRewards.RESET_STREAK_IF_DAY_IS_MISSED_KEY]: { type: hz.PropTypes.Boolean, default: false },
+    [DailyRewards.DAY_BOUNDARY_KEY]: { type: hz.PropTypes.String, default: "utc" },
+    [DailyRewards.UTC_OFFSET_MINUTES_KEY]: { type: hz.PropTypes.Number, default: 0 },
+
+    // Streak protection
+    [DailyRewards.STREAK_FREEZE_SKU_KEY]: { type: hz.PropTypes.String, default: "" },
+    [DailyRewards.CATCH_UP_PRICE_SKU_KEY]: { type: hz.PropTypes.String, default: "" },
+    [DailyRewards.CATCH_UP_PRICE_QUANTITY_KEY]: { type: hz.PropTypes.Number, default: 1 },
+    [DailyRewards.CATCH_UP_MAX_MISSED_DAYS_KEY]: { type: hz.PropTypes.Number, default: 1 },
+    [DailyRewards.LONGEST_STREAK_LEADERBOARD_KEY]: { type: hz.PropTypes.String, default: "" },
 
-    // Day 1 reward properties
+    // Reward schedule, any number of days
+    [DailyRewards.REWARD_SCHEDULE_KEY]: { type: hz.PropTypes.String, default: "" },
+    [DailyRewards.REWARD_SCHEDULE_ASSET_KEY]: { type: hz.PropTypes.Asset },
+
+    // Legacy day 1 to day 7 rewards, worlds set up before the reward schedule keep working with them
     [DailyRewards.DAY1_REWARD_SKU]: { type: hz.PropTypes.String },
     [DailyRewards.DAY1_REWARD_QUANTITY]: { type: hz.PropTypes.Number, default: 1 },
     [DailyRewards.DAY1_REWARD_THUMBNAIL]: { type: hz.PropTypes.Asset },
-
-    // Day 2 reward properties
     [DailyRewards.DAY2_REWARD_SKU]: { type: hz.PropTypes.String },
     [DailyRewards.DAY2_REWARD_QUANTITY]: { type: hz.PropTypes.Number, default: 1 },
     [DailyRewards.DAY2_REWARD_THUMBNAIL]: { type: hz.PropTypes.Asset },
-
-    // Day 3 reward properties
     [DailyRewards.DAY3_REWARD_SKU]: { type: hz.PropTypes.String },
     [DailyRewards.DAY3_REWARD_QUANTITY]: { type: hz.PropTypes.Number, default: 1 },
     [DailyRewards.DAY3_REWARD_THUMBNAIL]: { type: hz.PropTypes.Asset },
-
-    // Day 4 reward properties
     [DailyRewards.DAY4_REWARD_SKU]: { type: hz.PropTypes.String },
     [DailyRewards.DAY4_REWARD_QUANTITY]: { type: hz.PropTypes.Number, default: 1 },
     [DailyRewards.DAY4_REWARD_THUMBNAIL]: { type: hz.PropTypes.Asset },
-
-    // Day 5 reward properties
     [DailyRewards.DAY5_REWARD_SKU]: { type: hz.PropTypes.String },
     [DailyRewards.DAY5_REWARD_QUANTITY]: { type: hz.PropTypes.Number, default: 1 },
     [DailyRewards.DAY5_REWARD_THUMBNAIL]: { type: hz.PropTypes.Asset },
-
-    // Day 6 reward properties
     [DailyRewards.DAY6_REWARD_SKU]: { type: hz.PropTypes.String },
     [DailyRewards.DAY6_REWARD_QUANTITY]: { type: hz.PropTypes.Number, default: 1 },
     [DailyRewards.DAY6_REWARD_THUMBNAIL]: { type: hz.PropTypes.Asset },
-
-    // Day 7 reward properties
     [DailyRewards.DAY7_REWARD_SKU]: { type: hz.PropTypes.String },
     [DailyRewards.DAY7_REWARD_QUANTITY]: { type: hz.PropTypes.Number, default: 1 },
     [DailyRewards.DAY7_REWARD_THUMBNAIL]: { type: hz.PropTypes.Asset },
+
+    // Seasonal campaigns, running alongside the daily series
+    [DailyRewards.CAMPAIGNS_KEY]: { type: hz.PropTypes.String, default: "" },
+    [DailyRewards.CAMPAIGNS_ASSET_KEY]: { type: hz.PropTypes.Asset },
   };
 
   /** Cached enriched rewards data with additional metadata */
   private enrichedRewardsData: RewardEnrichedData[] | undefined;
 
+  /** Seasonal campaigns, each with its own logic and enriched rewards */
+  private campaigns: { config: DailyRewardsCampaignConfig, logic: DailyRewardsLogic, rewards: RewardEnrichedData[] }[] = [];
+
+  /** Ids of the campaigns running at the last check, to notice when one starts or ends */
+  private runningCampaignIds: string = "";
+
   /**
    * Initializes the daily rewards logic
    *
    * This method sets up the core functionality by:
    * 1. Loading the title icon and ID
-   * 2. Creating a rewards array from configured properties
+   * 2. Loading and validating the reward schedule and the day boundary
    * 3. Initializing the DailyRewardsLogic with configuration
    * 4. Pre-loading thumbnail assets for rewards
-   * 5. Fetching enriched reward data
+   * 5. Fetching enriched reward data and rejecting unknown SKUs
+   * 6. Initializing a DailyRewardsLogic per seasonal campaign
    *
    * @returns A Promise resolving to the initialized DailyRewardsLogic
+   * @throws Error if the reward schedule or the campaigns are invalid
    */
   protected async initializeLogic(): Promise<DailyRewardsLogic> {
     // Set up basic component properties
@@ -722,39 +1445,42 @@ export class DailyRewards extends EconomyServer<typeof DailyRewards, DailyReward
       ImageSource.fromTextureAsset(this.icon);
     }
 
-    // Create an array of all configured rewards
-    const rewards = [
-      { sku: this.props[DailyRewards.DAY1_REWARD_SKU], quantity: this.props[DailyRewards.DAY1_REWARD_QUANTITY], thumbnail: this.props[DailyRewards.DAY1_REWARD_THUMBNAIL] },
-      { sku: this.props[DailyRewards.DAY2_REWARD_SKU], quantity: this.props[DailyRewards.DAY2_REWARD_QUANTITY], thumbnail: this.props[DailyRewards.DAY2_REWARD_THUMBNAIL] },
-      { sku: this.props[DailyRewards.DAY3_REWARD_SKU], quantity: this.props[DailyRewards.DAY3_REWARD_QUANTITY], thumbnail: this.props[DailyRewards.DAY3_REWARD_THUMBNAIL] },
-      { sku: this.props[DailyRewards.DAY4_REWARD_SKU], quantity: this.props[DailyRewards.DAY4_REWARD_QUANTITY], thumbnail: this.props[DailyRewards.DAY4_REWARD_THUMBNAIL] },
-      { sku: this.props[DailyRewards.DAY5_REWARD_SKU], quantity: this.props[DailyRewards.DAY5_REWARD_QUANTITY], thumbnail: this.props[DailyRewards.DAY5_REWARD_THUMBNAIL] },
-      { sku: this.props[DailyRewards.DAY6_REWARD_SKU], quantity: this.props[DailyRewards.DAY6_REWARD_QUANTITY], thumbnail: this.props[DailyRewards.DAY6_REWARD_THUMBNAIL] },
-      { sku: this.props[DailyRewards.DAY7_REWARD_SKU], quantity: this.props[DailyRewards.DAY7_REWARD_QUANTITY], thumbnail: this.props[DailyRewards.DAY7_REWARD_THUMBNAIL] },
-    ];
+    // Load the reward schedule, the asset takes precedence over the JSON string
+    const rewards = await this.loadRewardSchedule();
+
+    // Validate the day boundary strategy
+    const dayBoundary = this.props[DailyRewards.DAY_BOUNDARY_KEY] as DayBoundary;
+    if (!DAY_BOUNDARIES.includes(dayBoundary)) {
+      throw Error(`Unknown day boundary "${dayBoundary}", expected one of ${DAY_BOUNDARIES.join(', ')}.`);
+    }
+    const utcOffsetMinutes = this.props[DailyRewards.UTC_OFFSET_MINUTES_KEY];
+    if (utcOffsetMinutes < -12 * 60 || utcOffsetMinutes > 14 * 60) {
+      throw Error(`UTC offset must be between -720 and 840 minutes, got ${utcOffsetMinutes}.`);
+    }
 
     // Initialize the rewards logic with configuration from properties
-    const logic = new DailyRewardsLogic(this, this.world, {
+    const config: DailyRewardsConfig = {
       persistentObjectVariableKey: this.props[DailyRewards.PERSISTENT_OBJECT_VARIABLE_KEY],
       activation: this.props[DailyRewards.ACTIVATION_KEY],
       autoRepeat: this.props[DailyRewards.AUTO_REPEAT_KEY],
       resetStreakIfDayIsMissed: this.props[DailyRewards.RESET_STREAK_IF_DAY_IS_MISSED_KEY],
+      dayBoundary: dayBoundary,
+      utcOffsetMinutes: utcOffsetMinutes,
+      streakFreezeSku: this.props[DailyRewards.STREAK_FREEZE_SKU_KEY],
+      catchUpPriceSku: this.props[DailyRewards.CATCH_UP_PRICE_SKU_KEY],
+      catchUpPriceQuantity: this.props[DailyRewards.CATCH_UP_PRICE_QUANTITY_KEY],
+      catchUpMaxMissedDays: this.props[DailyRewards.CATCH_UP_MAX_MISSED_DAYS_KEY],
+      longestStreakLeaderboard: this.props[DailyRewards.LONGEST_STREAK_LEADERBOARD_KEY],
       rewards: rewards.map(reward => {
         // Pre-load each reward thumbnail for later use by clients
-        if (reward.thumbnail) {
+        if (reward.thumbnailId) {
           // Load Thumbnail to the server, so that local can get it later
-          ImageSource.fromTextureAsset(reward.thumbnail);
-        }
-
-        // Return the reward data in the format expected by DailyRewardsLogic
-        return {
-          sku: reward.sku,
-          quantity: reward.quantity,
-          thumbnailId: reward.thumbnail?.id ?? BigInt(0),
-          thumbnailVersionId: reward.thumbnail?.versionId ?? BigInt(0)
+          ImageSource.fromTextureAsset(new hz.TextureAsset(reward.thumbnailId, reward.thumbnailVersionId));
         }
+        return reward;
       })
-    });
+    };
+    const logic = new DailyRewardsLogic(this, this.world, config);
 
     // Set the active state based on configuration
     if (this.props[DailyRewards.ACTIVATION_KEY]) {
@@ -762,11 +1488,124 @@ export class DailyRewards extends EconomyServer<typeof DailyRewards, DailyReward
     }
 
     // Load additional reward metadata
-    await logic.fetchEnrichedRewardsData();
+    const unknownSkus = await logic.fetchEnrichedRewardsData();
+    if (unknownSkus && unknownSkus.length > 0) {
+      throw Error(`Reward schedule references unknown SKUs: ${unknownSkus.join(', ')}.`);
+    }
+
+    // Campaigns share the day boundary of the daily series, but not its streak protection nor its leaderboard
+    for (const campaign of await this.loadCampaigns()) {
+      const campaignLogic = new DailyRewardsLogic(this, this.world, {
+        ...config,
+        persistentObjectVariableKey: campaign.persistentObjectVariableKey,
+        activation: true,
+        autoRepeat: false,
+        streakFreezeSku: "",
+        catchUpPriceSku: "",
+        longestStreakLeaderboard: "",
+        startDate: campaign.startDate,
+        endDate: campaign.endDate,
+        rewards: campaign.rewards
+      });
+
+      const unknownCampaignSkus = await campaignLogic.fetchEnrichedRewardsData();
+      if (unknownCampaignSkus && unknownCampaignSkus.length > 0) {
+        throw Error(`Campaign "${campaign.id}" references unknown SKUs: ${unknownCampaignSkus.join(', ')}.`);
+      }
+
+      this.campaigns.push({ config: campaign, logic: campaignLogic, rewards: campaignLogic.getRewards() });
+    }
 
     return logic;
   }
 
+  /**
+   * Loads the seasonal campaigns from the text asset or the JSON string property
+   *
+   * @returns The validated campaigns, none if no campaign is configured
+   * @throws Error if the campaigns are invalid
+   */
+  private async loadCampaigns(): Promise<DailyRewardsCampaignConfig[]> {
+    let raw: unknown = [];
+    try {
+      const asset = this.props[DailyRewards.CAMPAIGNS_ASSET_KEY];
+      if (asset) {
+        raw = (await asset.fetchAsData()).asJSON();
+      } else if (this.props[DailyRewards.CAMPAIGNS_KEY]) {
+        raw = JSON.parse(this.props[DailyRewards.CAMPAIGNS_KEY]);
+      }
+    } catch (e) {
+      throw Error(`Could not read the campaigns: ${e}`);
+    }
+
+    try {
+      return parseCampaigns(raw);
+    } catch (e) {
+      throw Error(`Invalid campaigns: ${e instanceof Error ? e.message : e}`);
+    }
+  }
+
+  /**
+   * Loads the reward schedule from the text asset or the JSON string property,
+   * falling back to the legacy day 1 to day 7 reward properties
+   *
+   * @returns The validated rewards ordered by day
+   * @throws Error if no schedule is configured or if it is invalid
+   */
+  private async loadRewardSchedule(): Promise<RewardData[]> {
+    let raw: unknown;
+    try {
+      const asset = this.props[DailyRewards.REWARD_SCHEDULE_ASSET_KEY];
+      if (asset) {
+        raw = (await asset.fetchAsData()).asJSON();
+      } else if (this.props[DailyRewards.REWARD_SCHEDULE_KEY]) {
+        raw = JSON.parse(this.props[DailyRewards.REWARD_SCHEDULE_KEY]);
+      } else {
+        const legacySchedule = this.getLegacyRewardSchedule();
+        if (legacySchedule.length === 0) {
+          throw Error('no schedule configured');
+        }
+        console.warn(`Daily rewards use the legacy day reward properties, consider moving them to the "${DailyRewards.REWARD_SCHEDULE_KEY}" property`);
+        raw = legacySchedule;
+      }
+    } catch (e) {
+      throw Error(`Could not read the reward schedule: ${e}`);
+    }
+
+    try {
+      return parseRewardSchedule(raw);
+    } catch (e) {
+      throw Error(`Invalid reward schedule: ${e instanceof Error ? e.message : e}`);
+    }
+  }
+
+  /**
+   * Builds a reward schedule from the legacy day 1 to day 7 reward properties
+   *
+   * @returns The schedule entries of the days with a SKU set, none if the legacy properties are not used
+   */
+  private getLegacyRewardSchedule(): RewardScheduleEntry[] {
+    const days = [
+      { day: 1, sku: this.props[DailyRewards.DAY1_REWARD_SKU], quantity: this.props[DailyRewards.DAY1_REWARD_QUANTITY], thumbnail: this.props[DailyRewards.DAY1_REWARD_THUMBNAIL] },
+      { day: 2, sku: this.props[DailyRewards.DAY2_REWARD_SKU], quantity: this.props[DailyRewards.DAY2_REWARD_QUANTITY], thumbnail: this.props[DailyRewards.DAY2_REWARD_THUMBNAIL] },
+      { day: 3, sku: this.props[DailyRewards.DAY3_REWARD_SKU], quantity: this.props[DailyRewards.DAY3_REWARD_QUANTITY], thumbnail: this.props[DailyRewards.DAY3_REWARD_THUMBNAIL] },
+      { day: 4, sku: this.props[DailyRewards.DAY4_REWARD_SKU], quantity: this.props[DailyRewards.DAY4_REWARD_QUANTITY], thumbnail: this.props[DailyRewards.DAY4_REWARD_THUMBNAIL] },
+      { day: 5, sku: this.props[DailyRewards.DAY5_REWARD_SKU], quantity: this.props[DailyRewards.DAY5_REWARD_QUANTITY], thumbnail: this.props[DailyRewards.DAY5_REWARD_THUMBNAIL] },
+      { day: 6, sku: this.props[DailyRewards.DAY6_REWARD_SKU], quantity: this.props[DailyRewards.DAY6_REWARD_QUANTITY], thumbnail: this.props[DailyRewards.DAY6_REWARD_THUMBNAIL] },
+      { day: 7, sku: this.props[DailyRewards.DAY7_REWARD_SKU], quantity: this.props[DailyRewards.DAY7_REWARD_QUANTITY], thumbnail: this.props[DailyRewards.DAY7_REWARD_THUMBNAIL] }
+    ];
+
+    return days
+      .filter(day => day.sku)
+      .map(day => ({
+        day: day.day,
+        sku: day.sku,
+        quantity: day.quantity,
+        thumbnail: day.thumbnail?.id.toString(),
+        thumbnailVersion: day.thumbnail?.versionId.toString()
+      }));
+  }
+
   /**
    * Initializes event handlers and sets up network communication
    * Called once logic has been initialized and component is ready to start
@@ -778,7 +1617,7 @@ export class DailyRewards extends EconomyServer<typeof DailyRewards, DailyReward
       this.recordLogins();
 
       this.connectCodeBlockEvent(this.entity, hz.CodeBlockEvents.OnPlayerEnterWorld, (player: hz.Player) => {
-        this.recordLogin({ player: player, id: this.Id });
+        this.recordLogin({ player: player, id: this.Id }, true);
       });
     }
 
@@ -786,10 +1625,24 @@ export class DailyRewards extends EconomyServer<typeof DailyRewards, DailyReward
     this.connectNetworkBroadcastEvent(DailyRewardsEvents.RequestRewardsList, this.sendRewardsList.bind(this));
     this.connectNetworkBroadcastEvent(DailyRewardsEvents.RequestEventState, this.sendEventState.bind(this));
     this.connectNetworkBroadcastEvent(DailyRewardsEvents.ClaimReward, this.OnRewardClaimed.bind(this));
-    this.connectNetworkBroadcastEvent(DailyRewardsEvents.RecordLogin, this.recordLogin.bind(this));
+    // Logins sent by clients never issue a pending grant again, only joining does
+    this.connectNetworkBroadcastEvent(DailyRewardsEvents.RecordLogin, (data) => this.recordLogin(data, false));
+    this.connectNetworkBroadcastEvent(DailyRewardsEvents.ClaimCatchUp, this.OnCatchUpClaimed.bind(this));
 
     // Broadcast initial rewards list to all clients
+    this.runningCampaignIds = this.getCampaigns().map(campaign => campaign.id).join(',');
     this.broadcastRewardsList();
+
+    // Broadcast the rewards list again whenever a campaign starts or ends, so clients add or remove its tab
+    if (this.campaigns.length > 0) {
+      this.async.setInterval(() => {
+        const runningCampaignIds = this.getCampaigns().map(campaign => campaign.id).join(',');
+        if (runningCampaignIds !== this.runningCampaignIds) {
+          this.runningCampaignIds = runningCampaignIds;
+          this.broadcastRewardsList();
+        }
+      }, DailyRewards.CAMPAIGN_CHECK_INTERVAL);
+    }
   }
 
   /**
@@ -802,27 +1655,99 @@ export class DailyRewards extends EconomyServer<typeof DailyRewards, DailyReward
    *
    * @param player - The player claiming the reward
    * @param id - The component ID to verify the request target
+   * @param campaignId - The campaign to claim from, or null for the daily series
    */
-  private async OnRewardClaimed({ player, id }: { player: hz.Player, id: string | null }) {
+  private async OnRewardClaimed({ player, id, campaignId }: { player: hz.Player, id: string | null, campaignId: string | null }) {
     if (!this.isRecipient(id)) {
       // Reject this request as it is not aimed at this shop
       return;
     }
 
-    // Process the claim request through the logic component
-    const result = await this.Logic!.claimReward(player);
+    // Process the claim request through the logic of the daily series or of the campaign
+    const logic = this.getLogic(player, campaignId);
+    const result = logic
+      ? await logic.claimReward(player)
+      : { success: false, message: 'Event is not running.', reward: null, verified: false };
 
     // Send response to the client with claim results
     this.sendNetworkBroadcastEvent(DailyRewardsEvents.ClaimRewardResponse,
       {
         player: player,
         id: this.Id,
+        campaignId: campaignId,
+        eventState: logic ? this.getEventState(player, logic) : null,
+        result: result
+      }
+    );
+  }
+
+  /**
+   * Handles catch-up requests from clients
+   *
+   * This method processes a player's request to buy back a missed day and
+   * responds with the same ClaimRewardResponse event as a regular claim.
+   *
+   * @param player - The player catching up
+   * @param id - The component ID to verify the request target
+   */
+  private async OnCatchUpClaimed({ player, id }: { player: hz.Player, id: string | null }) {
+    if (!this.isRecipient(id)) {
+      // Reject this request as it is not aimed at this shop
+      return;
+    }
+
+    const result = await this.Logic!.claimCatchUp(player);
+
+    this.sendNetworkBroadcastEvent(DailyRewardsEvents.ClaimRewardResponse,
+      {
+        player: player,
+        id: this.Id,
+        campaignId: null,
         eventState: this.getEventState(player),
         result: result
       }
     );
   }
 
+  /**
+   * Finds the logic of the daily series or of a running campaign.
+   * Players are enrolled in a campaign the first time they look at it, since it may start while they are in the world.
+   * Pending grants are only settled on login, enrolling never issues a grant again.
+   *
+   * @param player - The player interacting with the event
+   * @param campaignId - The campaign id, or null for the daily series
+   * @returns The logic, or undefined if the campaign does not exist or is not running
+   */
+  private getLogic(player: hz.Player, campaignId: string | null): DailyRewardsLogic | undefined {
+    if (campaignId === null) {
+      return this.Logic ?? undefined;
+    }
+
+    const campaign = this.campaigns.find(campaign => campaign.config.id === campaignId);
+    if (!campaign || !campaign.logic.isRunning()) {
+      return undefined;
+    }
+
+    campaign.logic.enroll(player);
+    return campaign.logic;
+  }
+
+  /**
+   * Gets the campaigns currently running, as sent to the clients
+   *
+   * @returns The running campaigns with their rewards
+   */
+  private getCampaigns(): DailyRewardsCampaign[] {
+    return this.campaigns
+      .filter(campaign => campaign.logic.isRunning())
+      .map(campaign => ({
+        id: campaign.config.id,
+        title: campaign.config.title,
+        endDate: campaign.config.endDate,
+        rewards: campaign.rewards
+      }));
+  }
+
   /**
    * Broadcasts the rewards list to all clients
    *
@@ -838,7 +1763,8 @@ export class DailyRewards extends EconomyServer<typeof DailyRewards, DailyReward
           titleIconId: this.icon?.id ?? BigInt(0),
           titleIconVersionId: this.icon?.versionId ?? BigInt(0)
         },
-        rewards: this.getRewards()
+        rewards: this.getRewards(),
+        campaigns: this.getCampaigns()
       }
     );
   }
@@ -868,7 +1794,8 @@ export class DailyRewards extends EconomyServer<typeof DailyRewards, DailyReward
           titleIconId: this.icon?.id ?? BigInt(0),
           titleIconVersionId: this.icon?.versionId ?? BigInt(0)
         },
-        rewards: this.getRewards()
+        rewards: this.getRewards(),
+        campaigns: this.getCampaigns()
       });
   }
 
@@ -880,19 +1807,22 @@ export class DailyRewards extends EconomyServer<typeof DailyRewards, DailyReward
    *
    * @param player - The player requesting their event state
    * @param id - The component ID to verify the request target
+   * @param campaignId - The campaign whose state is requested, or null for the daily series
    */
-  private sendEventState({ player, id }: { player: hz.Player, id: string | null }) {
+  private sendEventState({ player, id, campaignId }: { player: hz.Player, id: string | null, campaignId: string | null }) {
     if (!this.isRecipient(id)) {
       // Reject this request as it is not aimed at this shop
       return;
     }
 
-    // Send the player's current event state
+    // Send the player's current event state, keyed by campaign
+    const logic = this.getLogic(player, campaignId);
     this.sendNetworkBroadcastEvent(DailyRewardsEvents.SendEventState,
       {
         player: player,
         id: this.Id,
-        eventState: this.getEventState(player)
+        campaignId: campaignId,
+        eventState: logic ? this.getEventState(player, logic) : null
       }
     );
   }
@@ -908,7 +1838,7 @@ export class DailyRewards extends EconomyServer<typeof DailyRewards, DailyReward
 
     // Record login for each player
     players.forEach(player => {
-      this.recordLogin({ player: player, id: this.Id });
+      this.recordLogin({ player: player, id: this.Id }, true);
     });
   }
 
@@ -920,15 +1850,21 @@ export class DailyRewards extends EconomyServer<typeof DailyRewards, DailyReward
    *
    * @param player - The player logging in
    * @param id - The component ID to verify the request target
+   * @param joined - Whether the player just joined the world, rather than a client asking for it
    */
-  private recordLogin({ player, id }: { player: hz.Player, id: string | null }) {
+  private recordLogin({ player, id }: { player: hz.Player, id: string | null }, joined: boolean) {
     if (!this.isRecipient(id)) {
       // Reject this request as it is not aimed at this shop
       return;
     }
 
     // Record the login in the logic component to update streak and availability
-    this.Logic!.recordLogin(player);
+    this.Logic!.recordLogin(player, joined)
+      .catch(e => console.error(`Error recording the login of ${player.name.get()}: ${e}`));
+
+    // Running campaigns track the login too, and every campaign settles its interrupted claims
+    this.campaigns.forEach(campaign => campaign.logic.recordLogin(player, joined)
+      .catch(e => console.error(`Error recording the login of ${player.name.get()} in campaign ${campaign.config.id}: ${e}`)));
   }
 
   /**
@@ -938,17 +1874,18 @@ export class DailyRewards extends EconomyServer<typeof DailyRewards, DailyReward
    * including streak information, next reward availability, and timers.
    *
    * @param player - The player to get event state for
+   * @param logic - The logic of the daily series or of a campaign, defaults to the daily series
    * @returns The player's event state or null if no data exists
    */
-  private getEventState(player: hz.Player) {
+  private getEventState(player: hz.Player, logic: DailyRewardsLogic = this.Logic!) {
     // Get the player's stored rewards data
-    const rewardsData = this.Logic!.getPlayerData(player);
+    const rewardsData = logic.getPlayerData(player);
     if (!rewardsData) {
       return null;
     }
 
     // Convert raw data into event state information
-    return this.Logic!.getEventState(rewardsData);
+    return logic.getEventState(rewardsData);
   }
 
   /**
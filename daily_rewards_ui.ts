@@ -46,12 +46,20 @@ type DailyRewardsPersistentData = {
  * @property expired - Whether the rewards event has expired
  * @property hasCollectedToday - Whether the player has already collected today's reward
  * @property nextCollectionDate - Timestamp when the next reward will be available, or null if not applicable
+ * @property missedDays - Number of days skipped since the last collection
+ * @property canCatchUp - Whether the player can buy back the next missed day
+ * @property currentStreak - Number of consecutive days the player claimed a reward, 0 once a day is missed
+ * @property longestStreak - Longest streak the player ever reached
  */
 type DailyRewardsEventState = {
   currentDay: number;
   expired: boolean;
   hasCollectedToday: boolean;
   nextCollectionDate: number | null;
+  missedDays: number;
+  canCatchUp: boolean;
+  currentStreak: number;
+  longestStreak: number;
 }
 
 /**
@@ -80,6 +88,20 @@ type RewardEnrichedData = RewardData & {
   day: number
 }
 
+/**
+ * Campaign information received along with the rewards list
+ * @property id - Unique identifier of the campaign
+ * @property title - The title of the campaign tab
+ * @property endDate - Timestamp when the campaign ends
+ * @property rewards - The rewards of the campaign
+ */
+type DailyRewardsCampaign = {
+  id: string,
+  title: string,
+  endDate: number,
+  rewards: RewardEnrichedData[]
+}
+
 /**
  * Configuration for the Daily Rewards system
  * @property persistentObjectVariableKey - Key used to store player progress in the persistent storage
@@ -106,8 +128,14 @@ type DailyRewardsOperationResult = {
   message?: string;
 }
 
+/**
+ * Result of a claim
+ * @property reward - The claimed reward, or null if nothing was claimed
+ * @property verified - Whether the player's entitlements confirmed the grant, an unverified grant is reconciled on the next login
+ */
 type DailyRewardsClaimResult = DailyRewardsOperationResult & {
   reward: RewardEnrichedData | null;
+  verified: boolean;
 }
 
 /**
@@ -118,26 +146,29 @@ const DailyRewardsEvents = {
   // Client requests the list of available rewards
   RequestRewardsList: new hz.NetworkEvent<{ player: hz.Player, id: string | null }>('DailyRewardsEvents.RequestRewardsList'),
 
-  // Client requests the current state of the daily rewards event
-  RequestEventState: new hz.NetworkEvent<{ player: hz.Player, id: string | null }>('DailyRewardsEvents.RequestEventState'),
+  // Client requests the current state of the daily rewards event, or of a campaign when campaignId is set
+  RequestEventState: new hz.NetworkEvent<{ player: hz.Player, id: string | null, campaignId: string | null }>('DailyRewardsEvents.RequestEventState'),
 
-  // Server sends the rewards list to a specific player
-  SendRewardsList: new hz.NetworkEvent<{ player: hz.Player, id: string | null, metadata: DailyRewardsMetadata, rewards: RewardEnrichedData[] }>('DailyRewardsEvents.SendRewardsList'),
+  // Server sends the rewards list, along with the running campaigns, to a specific player
+  SendRewardsList: new hz.NetworkEvent<{ player: hz.Player, id: string | null, metadata: DailyRewardsMetadata, rewards: RewardEnrichedData[], campaigns: DailyRewardsCampaign[] }>('DailyRewardsEvents.SendRewardsList'),
 
-  // Server broadcasts the rewards list to all players
-  BroadcastRewardsList: new hz.NetworkEvent<{ id: string | null, metadata: DailyRewardsMetadata, rewards: RewardEnrichedData[] }>('DailyRewardsEvents.BroadcastRewardsList'),
+  // Server broadcasts the rewards list, along with the running campaigns, to all players
+  BroadcastRewardsList: new hz.NetworkEvent<{ id: string | null, metadata: DailyRewardsMetadata, rewards: RewardEnrichedData[], campaigns: DailyRewardsCampaign[] }>('DailyRewardsEvents.BroadcastRewardsList'),
 
-  // Server sends the current event state to a player
-  SendEventState: new hz.NetworkEvent<{ player: hz.Player, id: string | null, eventState: DailyRewardsEventState | null }>('DailyRewardsEvents.SendEventState'),
+  // Server sends the current event state of the daily rewards, or of a campaign, to a player
+  SendEventState: new hz.NetworkEvent<{ player: hz.Player, id: string | null, campaignId: string | null, eventState: DailyRewardsEventState | null }>('DailyRewardsEvents.SendEventState'),
 
-  // Client requests to claim the current day's reward
-  ClaimReward: new hz.NetworkEvent<{ player: hz.Player, id: string | null }>('DailyRewardsEvents.ClaimReward'),
+  // Client requests to claim the current day's reward of the daily rewards, or of a campaign
+  ClaimReward: new hz.NetworkEvent<{ player: hz.Player, id: string | null, campaignId: string | null }>('DailyRewardsEvents.ClaimReward'),
 
   // Server responds to a claim request with the result and updated state
-  ClaimRewardResponse: new hz.NetworkEvent<{ player: hz.Player, id: string | null, eventState: DailyRewardsEventState | null, result: DailyRewardsClaimResult }>('DailyRewardsEvents.ClaimRewardResponse'),
+  ClaimRewardResponse: new hz.NetworkEvent<{ player: hz.Player, id: string | null, campaignId: string | null, eventState: DailyRewardsEventState | null, result: DailyRewardsClaimResult }>('DailyRewardsEvents.ClaimRewardResponse'),
 
   // Client notifies the server of a player login (to update daily rewards state)
-  RecordLogin: new hz.NetworkEvent<{ player: hz.Player, id: string | null }>('DailyRewardsEvents.RecordLogin')
+  RecordLogin: new hz.NetworkEvent<{ player: hz.Player, id: string | null }>('DailyRewardsEvents.RecordLogin'),
+
+  // Client requests to buy back the next missed day, the server responds with ClaimRewardResponse
+  ClaimCatchUp: new hz.NetworkEvent<{ player: hz.Player, id: string | null }>('DailyRewardsEvents.ClaimCatchUp')
 }
 
 /**
@@ -2072,6 +2103,101 @@ class Popup extends UIElement {
   }
 }
 
+/**
+ * Header button offering to buy back the missed day.
+ *
+ * Only shown by the DailyRewardsUI while the event state allows catching up.
+ */
+class CatchUpButton extends Button {
+  /**
+   * Creates a new catch-up button
+   * @param owner - The DailyRewardsUI that sends the catch-up request
+   */
+  constructor(private readonly owner: DailyRewardsUI) {
+    super();
+  }
+
+  /**
+   * Constructs the label of the button.
+   * @returns An array containing the label text
+   */
+  protected constructContent(): UINode[] {
+    return [Text({
+      text: "Catch Up",
+      style: { color: StyleSheet.TEXT_COLOR_PRIMARY, fontSize: StyleSheet.TEXT_SIZE_BUTTON, fontFamily: StyleSheet.TEXT_FONT_PRIMARY, paddingLeft: StyleSheet.PADDING_SMALL, paddingRight: StyleSheet.PADDING_SMALL, alignSelf: "center" }
+    })];
+  }
+
+  /**
+   * The button is disabled while the panel waits for the server.
+   * @returns Whether the catch-up can be requested
+   */
+  protected canBeClicked(player: Player): boolean {
+    return !this.owner.Busy;
+  }
+
+  /**
+   * Sends the catch-up request.
+   */
+  protected onClick(player: Player): void {
+    this.owner.claimCatchUp();
+  }
+}
+
+/**
+ * Header tab switching the panel between the daily series and a campaign.
+ */
+class CampaignTab extends Button {
+  /**
+   * Binding for the label color, highlighting the selected tab
+   */
+  private readonly color: Binding<string> = new Binding<string>(StyleSheet.TEXT_COLOR_SECONDARY);
+
+  /**
+   * Creates a new campaign tab
+   * @param owner - The DailyRewardsUI the tab belongs to
+   * @param campaignId - The campaign shown by the tab, or null for the daily series
+   * @param title - The label of the tab
+   */
+  constructor(private readonly owner: DailyRewardsUI, public readonly campaignId: string | null, private readonly title: string) {
+    super();
+  }
+
+  /**
+   * Constructs the label of the tab.
+   * @returns An array containing the label text
+   */
+  protected constructContent(): UINode[] {
+    return [Text({
+      text: this.title,
+      style: { color: this.color, fontSize: StyleSheet.TEXT_SIZE_BUTTON, fontFamily: StyleSheet.TEXT_FONT_PRIMARY, paddingLeft: StyleSheet.PADDING_SMALL, paddingRight: StyleSheet.PADDING_SMALL, alignSelf: "center" }
+    })];
+  }
+
+  /**
+   * Tabs cannot be switched while the panel waits for the server.
+   * @returns Whether the tab can be selected
+   */
+  protected canBeClicked(player: Player): boolean {
+    return !this.owner.Busy;
+  }
+
+  /**
+   * Selects the campaign of the tab.
+   */
+  protected onClick(player: Player): void {
+    this.owner.selectCampaign(this.campaignId);
+  }
+
+  /**
+   * Highlights the tab when its campaign is selected.
+   * @param selected - Whether the campaign of the tab is selected
+   */
+  public setSelected(selected: boolean) {
+    this.color.set(selected ? StyleSheet.TEXT_COLOR_BRIGHT : StyleSheet.TEXT_COLOR_SECONDARY);
+  }
+}
+
 /**
  * Represents the UI for displaying daily rewards.
  * Extends the Panel class to provide a structured layout for the rewards
@@ -2109,11 +2235,41 @@ export class DailyRewardsUI extends Panel {
    */
   private rewards: RewardEnrichedData[] = [];
 
+  /**
+   * Title of the daily series received from the server
+   */
+  private dailyTitle: string = "Daily Rewards";
+
+  /**
+   * Campaigns running alongside the daily series, each shown in its own tab
+   */
+  private campaigns: DailyRewardsCampaign[] = [];
+
+  /**
+   * The campaign shown in the panel, or null for the daily series
+   */
+  private selectedCampaign: string | null = null;
+
+  /**
+   * Header tabs, one for the daily series and one per campaign
+   */
+  private tabs: CampaignTab[] = [];
+
   /**
    * Binding for the countdown timer text that shows time until next reward
    */
   private remainingTimeText: Binding<string> = new Binding<string>("00:00:00");
 
+  /**
+   * Binding for the current and longest streak shown in the footer
+   */
+  private streakText: Binding<string> = new Binding<string>("");
+
+  /**
+   * Header button shown while a missed day can be caught up
+   */
+  private catchUpButton: CatchUpButton | undefined = undefined;
+
   // UI Bindings
   /**
    * Binding for the panel title text
@@ -2210,7 +2366,7 @@ export class DailyRewardsUI extends Panel {
    */
   private requestEventState(): void {
     this.Busy = true;
-    this.sendNetworkBroadcastEvent(DailyRewardsEvents.RequestEventState, { player: this.Player, id: this.Id });
+    this.sendNetworkBroadcastEvent(DailyRewardsEvents.RequestEventState, { player: this.Player, id: this.Id, campaignId: this.selectedCampaign });
   }
 
   /**
@@ -2220,27 +2376,29 @@ export class DailyRewardsUI extends Panel {
    * @param id - The target ID for the broadcast
    * @param metadata - Metadata about the daily rewards event
    * @param rewards - Array of reward data to display
+   * @param campaigns - The running campaigns
    */
-  private onBroadcastContentReceived({ id, metadata, rewards }: { id: string | null, metadata: DailyRewardsMetadata, rewards: RewardEnrichedData[] }): void {
-    this.onContentReceived({ player: this.Player, id: id, metadata: metadata, rewards: rewards });
+  private onBroadcastContentReceived({ id, metadata, rewards, campaigns }: { id: string | null, metadata: DailyRewardsMetadata, rewards: RewardEnrichedData[], campaigns: DailyRewardsCampaign[] }): void {
+    this.onContentReceived({ player: this.Player, id: id, metadata: metadata, rewards: rewards, campaigns: campaigns });
   }
 
   /**
    * Processes received rewards content from the server
-   * Updates the UI with new reward data and refreshes the display
+   * Updates the campaign tabs and the displayed rewards
    *
    * @param player - The player this content is intended for
    * @param id - The target ID for the message
    * @param metadata - Metadata about the daily rewards event
    * @param rewards - Array of reward data to display
+   * @param campaigns - The running campaigns
    */
-  private onContentReceived({ player, id, metadata, rewards }: { player: Player, id: string | null, metadata: DailyRewardsMetadata, rewards: RewardEnrichedData[] }): void {
+  private onContentReceived({ player, id, metadata, rewards, campaigns }: { player: Player, id: string | null, metadata: DailyRewardsMetadata, rewards: RewardEnrichedData[], campaigns: DailyRewardsCampaign[] }): void {
     // Verify this message is intended for this instance
     if (!this.isRecipient(player, id))
       return;
 
-    // Update the title of the panel with metadata from server
-    this.title.set(metadata.title);
+    // Keep the title of the daily series for its tab
+    this.dailyTitle = metadata.title;
 
     // Initialize textures required for the panel
     const iconAsset = new TextureAsset(metadata.titleIconId, metadata.titleIconVersionId);
@@ -2248,47 +2406,78 @@ export class DailyRewardsUI extends Panel {
 
     // Filter out rewards with empty SKUs and store the valid rewards
     this.rewards = rewards.filter(reward => reward.sku !== "");
+    this.campaigns = campaigns;
 
-    // Update the items array with the new rewards data
-    // Reuse existing items when possible to avoid unnecessary recreation
-    for (let i = 0; i < this.rewards.length; i++) {
-      const reward = this.rewards[i];
-      let item = this.items[i];
-      if (item == undefined) {
-        // Create new item if needed
-        item = new DailyRewardItem({
-          reward: reward,
-          owner: this,
-        });
-
-        this.items.push(item);
-      }
-    }
+    // One tab per campaign, only when there is at least one campaign
+    this.tabs = campaigns.length > 0
+      ? [new CampaignTab(this, null, "Daily"), ...campaigns.map(campaign => new CampaignTab(this, campaign.id, campaign.title))]
+      : [];
+
+    // Fall back to the daily series when the selected campaign ended
+    const selected = campaigns.some(campaign => campaign.id === this.selectedCampaign) ? this.selectedCampaign : null;
+    this.selectCampaign(selected);
+  }
+
+  /**
+   * Shows the rewards of the daily series or of a campaign, and requests its event state
+   *
+   * @param campaignId - The campaign to show, or null for the daily series
+   */
+  public selectCampaign(campaignId: string | null): void {
+    this.selectedCampaign = campaignId;
+    this.tabs.forEach(tab => tab.setSelected(tab.campaignId === campaignId));
+
+    const campaign = this.campaigns.find(campaign => campaign.id === campaignId);
+    this.title.set(campaign ? campaign.title : this.dailyTitle);
+
+    // Rebuild the items, as the tracks of the campaigns differ from the daily series
+    const rewards = campaign ? campaign.rewards.filter(reward => reward.sku !== "") : this.rewards;
+    this.items = rewards.map(reward => new DailyRewardItem({
+      reward: reward,
+      owner: this,
+    }));
 
     // Update the grid with the current items
     // This triggers a re-render of the DynamicList
     this.grid?.setItems(this.items);
 
+    // The event state of the previous tab does not apply anymore
+    this.eventState = null;
+    this.refreshButtons();
+
     // Request the current event state to update claim status
     this.requestEventState();
   }
 
+  /**
+   * Shows the campaign tabs, followed by the catch-up button when the event state allows it
+   */
+  private refreshButtons(): void {
+    this.catchUpButton ??= new CatchUpButton(this);
+    this.setButtons(this.eventState?.canCatchUp ? [...this.tabs, this.catchUpButton] : this.tabs);
+  }
+
   /**
    * Processes event state updates from the server
    * Updates the UI to reflect current claim status and next collection time
    *
    * @param player - The player this state is intended for
    * @param id - The target ID for the message
+   * @param campaignId - The campaign the state belongs to, or null for the daily series
    * @param eventState - Current state of the daily rewards event
    */
-  private onEventStateReceived({ player, id, eventState }: { player: Player, id: string | null, eventState: DailyRewardsEventState | null }): void {
-    // Verify this message is intended for this instance
-    if (!this.isRecipient(player, id))
+  private onEventStateReceived({ player, id, campaignId, eventState }: { player: Player, id: string | null, campaignId: string | null, eventState: DailyRewardsEventState | null }): void {
+    // Verify this message is intended for this instance and for the selected tab
+    if (!this.isRecipient(player, id) || campaignId !== this.selectedCampaign)
       return;
 
     // Update the stored event state
     this.eventState = eventState;
 
+    // Update the streak counters and only offer to catch up when the server allows it
+    this.streakText.set(eventState ? `Streak ${eventState.currentStreak} · Best ${eventState.longestStreak}` : "");
+    this.refreshButtons();
+
     this.Busy = false;
   }
 
@@ -2324,8 +2513,25 @@ export class DailyRewardsUI extends Panel {
     // Send claim request to server with player ID, component ID
     // Note that, actually, we don't specify which reward to claim, the server will figure it out
     this.sendNetworkBroadcastEvent(DailyRewardsEvents.ClaimReward, {
-      player: this.Player,  // Current player making the claim
-      id: this.Id,          // This component's ID for targeted response
+      player: this.Player,                // Current player making the claim
+      id: this.Id,                        // This component's ID for targeted response
+      campaignId: this.selectedCampaign,  // The daily series or the campaign of the selected tab
+    });
+  }
+
+  /**
+   * Initiates the process of buying back the missed day
+   *
+   * The server consumes the catch-up price, grants the reward of the missed day
+   * and answers with the same response as a regular claim.
+   */
+  public claimCatchUp(): void {
+    // Set UI to busy state to prevent multiple attempts
+    this.Busy = true;
+
+    this.sendNetworkBroadcastEvent(DailyRewardsEvents.ClaimCatchUp, {
+      player: this.Player,
+      id: this.Id,
     });
   }
 
@@ -2335,12 +2541,13 @@ export class DailyRewardsUI extends Panel {
    *
    * @param player - The player who attempted to claim
    * @param id - The target ID for the message
+   * @param campaignId - The campaign the claim was made in, or null for the daily series
    * @param eventState - Updated event state after claim attempt
    * @param result - The result (as DailyRewardsClaimResult) of the claim attempt
    */
-  private onClaimRewardResponseReceived({ player, id, eventState, result }: { player: hz.Player, id: string | null, eventState: DailyRewardsEventState | null, result: DailyRewardsClaimResult }) {
-    // Verify this message is intended for this instance
-    if (!this.isRecipient(player, id))
+  private onClaimRewardResponseReceived({ player, id, campaignId, eventState, result }: { player: hz.Player, id: string | null, campaignId: string | null, eventState: DailyRewardsEventState | null, result: DailyRewardsClaimResult }) {
+    // Verify this message is intended for this instance and for the selected tab
+    if (!this.isRecipient(player, id) || campaignId !== this.selectedCampaign)
       return;
 
     // Hide spinner for the item
@@ -2348,16 +2555,17 @@ export class DailyRewardsUI extends Panel {
     shopItem?.Spinner?.Hide();
 
     // Update event state to reflect the new claim status
-    this.onEventStateReceived({ player: player, id: id, eventState: eventState });
+    this.onEventStateReceived({ player: player, id: id, campaignId: campaignId, eventState: eventState });
 
     if (result.success && result.reward) {
       // Push a popup to show the claim was successful
       const shopItem = this.items.find(shopItem => shopItem.Reward.day === result.reward?.day);
       const thumbnail = shopItem?.thumbnail;
-      this.popup?.Show(thumbnail, result.reward.name + " received");
+      this.popup?.Show(thumbnail, result.verified ? result.reward.name + " received" : result.reward.name + " is on its way");
+    } else if (!result.success && result.message) {
+      // Let the player know why the claim failed, e.g. catching up without enough currency
+      this.popup?.Show(undefined, result.message);
     }
-
-    // We may want to push a popup or handle case when the claim was not successful
   }
 
   /**
@@ -2381,10 +2589,16 @@ export class DailyRewardsUI extends Panel {
       Text({
         text: this.remainingTimeText,
         style: { color: StyleSheet.TEXT_COLOR_PRIMARY, fontSize: StyleSheet.TEXT_SIZE_TITLE, fontFamily: StyleSheet.TEXT_FONT_PRIMARY, fontWeight: StyleSheet.TEXT_WEIGHT_TITLE, lineHeight: StyleSheet.TEXT_SIZE_LINE_HEIGHT }
+      }),
+      // Flexible space that pushes the streak counters to the right
+      View({ style: { flex: 1 } }),
+      Text({
+        text: this.streakText,
+        style: { color: StyleSheet.TEXT_COLOR_SECONDARY, fontSize: StyleSheet.TEXT_SIZE_TITLE, fontFamily: StyleSheet.TEXT_FONT_PRIMARY, fontWeight: StyleSheet.TEXT_WEIGHT_TITLE, lineHeight: StyleSheet.TEXT_SIZE_LINE_HEIGHT }
       })
     ];
 
-    // The footer will contain the next reward time.
+    // The footer will contain the next reward time and the streak.
     const footer = this.constructFooter(nextRewardIn);
 
     // The content will contain the grid of items.
@@ -74,7 +74,7 @@ const StyleSheetBase = {
 /**
  * An object that contains style-related properties that will are computed from the StyleSheet object constants.
  */
-const StyleSheet =
+export const StyleSheet =
 {
   ...StyleSheetBase,
   PANEL_HEIGHT: StyleSheetBase.PANEL_WIDTH / StyleSheetBase.PANEL_RATIO, // Height of the panel
@@ -122,7 +122,7 @@ type DynamicListItemProxy = {
  * - player: The Player instance for whom the panel should be shown/hidden
  * - id: The unique identifier of the panel (null means all panels)
  */
-const PanelEvents = {
+export const PanelEvents = {
   /**
    * Event dispatched to show a panel for a specific player.
    * @param player - The player for whom to show the panel
@@ -158,7 +158,7 @@ abstract class UIElement implements IUIElement {
  * The Grid uses a wrapped flex layout to arrange items in rows, automatically wrapping to the next row
  * when the current row is filled. This creates a responsive grid that adapts to different screen sizes.
  */
-class Grid extends UIElement {
+export class Grid extends UIElement {
   /**
    * The width of the grid in pixels.
    * This property is used to track and manage the grid's horizontal dimension.
@@ -744,7 +744,7 @@ abstract class LocalUI<T> extends UIComponent<T> {
  * Abstract base class for creating UI panels with standardized layout and behavior.
  * Extends LocalUI to inherit basic UI functionality like show/hide, and player assignement.
  */
-abstract class Panel extends LocalUI<typeof Panel> {
+export abstract class Panel extends LocalUI<typeof Panel> {
   /**
    * Defines the properties that can be passed to the Panel component.
    * - id: Unique identifier for the panel
@@ -1093,7 +1093,7 @@ abstract class Panel extends LocalUI<typeof Panel> {
  *
  * The popup automatically handles its own animations and dismissal after the specified duration.
  */
-class Popup extends UIElement {
+export class Popup extends UIElement {
   /**
    * The image to be displayed in the popup.
    * Uses Binding to allow reactive updates to the image source.
@@ -1335,7 +1335,7 @@ type GridOwner = Panel & {
  * - Animation support for visual feedback
  * - Customizable styling
  */
-abstract class Item extends UIElement {
+export abstract class Item extends UIElement {
   protected readonly owner: GridOwner;
 
   /**
@@ -1701,7 +1701,7 @@ abstract class Item extends UIElement {
   }
 }
 
-class Spinner extends UIElement {
+export class Spinner extends UIElement {
   /** Binding for the image source displayed in the spinner */
   private readonly image: Binding<ImageSource> = new Binding<ImageSource>(new ImageSource());
 